@@ -0,0 +1,312 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Recipe } from "@/data/recipes";
+import {
+  CookSession,
+  createTimer,
+  detectDurations,
+  formatTimer,
+  pauseTimer,
+  resumeTimer,
+  stepIngredients,
+  timerRemaining,
+} from "@/lib/cookMode";
+import { formatAmount } from "@/lib/units";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import {
+  BellRing,
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  Sun,
+  Timer,
+  VolumeX,
+  X,
+} from "lucide-react";
+
+// Three short beeps; browsers only allow sound once the page has been tapped, so the context is
+// created on the first tap anywhere in cook mode.
+const playAlarm = (context: AudioContext | null) => {
+  navigator.vibrate?.([300, 150, 300, 150, 300]);
+  if (!context) return;
+  [0, 0.4, 0.8].forEach((offset) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.3, context.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(context.currentTime + offset);
+    oscillator.stop(context.currentTime + offset + 0.3);
+  });
+};
+
+const CookMode = ({
+  recipe,
+  session,
+  onChange,
+  onClose,
+}: {
+  recipe: Recipe;
+  session: CookSession;
+  onChange: (session: CookSession) => void;
+  onClose: () => void;
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+  const audioRef = useRef<AudioContext | null>(null);
+  const [soundReady, setSoundReady] = useState(false);
+  const awake = useWakeLock(true);
+
+  const lastStep = recipe.instructions.length - 1;
+  const step = Math.min(Math.max(session.step, 0), lastStep);
+  const instruction = recipe.instructions[step] ?? "";
+  const durations = useMemo(() => detectDurations(instruction), [instruction]);
+  const ingredients = useMemo(
+    () => stepIngredients(instruction, recipe, session.servings),
+    [instruction, recipe, session.servings]
+  );
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const due = session.timers.filter(
+      (timer) => !timer.finished && timer.endsAt !== null && timer.endsAt <= now
+    );
+    if (!due.length) return;
+    playAlarm(audioRef.current);
+    onChange({
+      ...session,
+      timers: session.timers.map((timer) =>
+        due.includes(timer)
+          ? { ...timer, finished: true, endsAt: null, remainingSeconds: 0 }
+          : timer
+      ),
+    });
+  }, [now, session, onChange]);
+
+  // Timers restored from saved progress have no tap of their own, so any tap or key press unlocks
+  // sound for them.
+  const enableSound = useCallback(() => {
+    if (!audioRef.current && typeof AudioContext !== "undefined") {
+      audioRef.current = new AudioContext();
+    }
+    const context = audioRef.current;
+    if (!context) return;
+    void context.resume().then(() => setSoundReady(context.state === "running"));
+  }, []);
+
+  const goTo = useCallback(
+    (next: number) => onChange({ ...session, step: Math.min(Math.max(next, 0), lastStep) }),
+    [lastStep, onChange, session]
+  );
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      enableSound();
+      if (event.key === "ArrowRight") goTo(step + 1);
+      if (event.key === "ArrowLeft") goTo(step - 1);
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [enableSound, goTo, onClose, step]);
+
+  useEffect(
+    () => () => {
+      void audioRef.current?.close();
+    },
+    []
+  );
+
+  const startTimer = (index: number) => {
+    enableSound();
+    onChange({ ...session, timers: [...session.timers, createTimer(durations[index], step)] });
+  };
+
+  const updateTimers = (update: (timers: CookSession["timers"]) => CookSession["timers"]) =>
+    onChange({ ...session, timers: update(session.timers) });
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cooking ${recipe.name}`}
+      onPointerDown={soundReady ? undefined : enableSound}
+      className="fixed inset-0 z-50 flex flex-col bg-zinc-950 text-white"
+    >
+      <header className="flex items-center justify-between gap-4 px-6 py-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-emerald-400">
+            Step {step + 1} of {recipe.instructions.length} · {session.servings} servings
+          </p>
+          <h2 className="text-lg font-semibold">{recipe.name}</h2>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-zinc-400">
+          {!soundReady && (
+            <button
+              type="button"
+              onClick={enableSound}
+              className="inline-flex items-center gap-1 rounded-full bg-amber-500/20 px-3 py-1 font-semibold text-amber-300 transition hover:bg-amber-500/30"
+            >
+              <VolumeX className="h-3.5 w-3.5" />
+              Tap to enable sound
+            </button>
+          )}
+          {awake && (
+            <span className="inline-flex items-center gap-1">
+              <Sun className="h-3.5 w-3.5" />
+              Screen stays on
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Leave cook mode"
+            className="rounded-full p-2 text-zinc-400 transition hover:bg-white/10 hover:text-white"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </header>
+      <div className="h-1 bg-white/10">
+        <div
+          className="h-full bg-emerald-500 transition-all"
+          style={{ width: `${((step + 1) / recipe.instructions.length) * 100}%` }}
+        />
+      </div>
+
+      <main className="flex flex-1 flex-col gap-8 overflow-y-auto px-6 py-10 md:px-16">
+        <p className="text-3xl font-medium leading-snug md:text-5xl">{instruction}</p>
+
+        {ingredients.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {ingredients.map((ingredient) => (
+              <li
+                key={ingredient.name}
+                className="rounded-full bg-white/10 px-4 py-2 text-base text-zinc-100"
+              >
+                {formatAmount(ingredient.quantity, ingredient.unit)} {ingredient.name}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {durations.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            {durations.map((duration, index) => (
+              <button
+                key={`${duration.text}-${index}`}
+                type="button"
+                onClick={() => startTimer(index)}
+                className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-3 text-base font-semibold transition hover:bg-emerald-600"
+              >
+                <Timer className="h-5 w-5" />
+                Start {duration.text} timer
+              </button>
+            ))}
+          </div>
+        )}
+
+        {session.timers.length > 0 && (
+          <ul className="mt-auto grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {session.timers.map((timer) => (
+              <li
+                key={timer.id}
+                className={`flex items-center justify-between gap-3 rounded-2xl px-4 py-3 ${
+                  timer.finished ? "animate-pulse bg-amber-500 text-zinc-950" : "bg-white/10"
+                }`}
+              >
+                <div>
+                  <p className="text-xs opacity-70">{timer.label}</p>
+                  <p className="font-mono text-2xl font-semibold">
+                    {timer.finished ? (
+                      <span className="inline-flex items-center gap-2">
+                        <BellRing className="h-5 w-5" />
+                        Done
+                      </span>
+                    ) : (
+                      formatTimer(timerRemaining(timer, now))
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {!timer.finished && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateTimers((timers) =>
+                          timers.map((entry) =>
+                            entry.id !== timer.id
+                              ? entry
+                              : entry.endsAt === null
+                                ? resumeTimer(entry)
+                                : pauseTimer(entry)
+                          )
+                        )
+                      }
+                      aria-label={timer.endsAt === null ? "Resume timer" : "Pause timer"}
+                      className="rounded-full p-2 transition hover:bg-white/10"
+                    >
+                      {timer.endsAt === null ? (
+                        <Play className="h-4 w-4" />
+                      ) : (
+                        <Pause className="h-4 w-4" />
+                      )}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateTimers((timers) => timers.filter((entry) => entry.id !== timer.id))
+                    }
+                    aria-label="Dismiss timer"
+                    className="rounded-full p-2 transition hover:bg-white/10"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+
+      <footer className="flex items-center justify-between gap-4 px-6 py-5">
+        <button
+          type="button"
+          onClick={() => goTo(step - 1)}
+          disabled={step === 0}
+          className="inline-flex items-center gap-2 rounded-full border border-white/20 px-6 py-3 text-base font-semibold transition hover:bg-white/10 disabled:opacity-30"
+        >
+          <ChevronLeft className="h-5 w-5" />
+          Back
+        </button>
+        {step < lastStep ? (
+          <button
+            type="button"
+            onClick={() => goTo(step + 1)}
+            className="inline-flex items-center gap-2 rounded-full bg-white px-6 py-3 text-base font-semibold text-zinc-950 transition hover:bg-zinc-200"
+          >
+            Next
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full bg-emerald-500 px-6 py-3 text-base font-semibold transition hover:bg-emerald-600"
+          >
+            Finish
+          </button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default CookMode;
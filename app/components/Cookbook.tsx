@@ -0,0 +1,326 @@
+"use client";
+
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import { RECIPES, Recipe } from "@/data/recipes";
+import {
+  UserRecipe,
+  allRecipes,
+  createUserRecipe,
+  exportCookbook,
+  forkRecipe,
+  mergeCookbook,
+  parseCookbookBundle,
+  restoreRevision,
+  updateUserRecipe,
+} from "@/lib/userRecipes";
+import RecipeEditor from "@/components/RecipeEditor";
+import RecipeImporter from "@/components/RecipeImporter";
+import {
+  BookOpen,
+  Copy,
+  Download,
+  FileUp,
+  History,
+  Pencil,
+  Plus,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+
+const BLANK_RECIPE: Recipe = {
+  id: "",
+  name: "",
+  cuisine: "",
+  description: "",
+  tags: [],
+  baseServings: 2,
+  ingredients: [],
+  instructions: [],
+};
+
+type Panel = { kind: "import" } | { kind: "edit"; recipe: Recipe } | null;
+
+const Cookbook = ({
+  userRecipes,
+  onChange,
+}: {
+  userRecipes: UserRecipe[];
+  onChange: (recipes: UserRecipe[]) => void;
+}) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [forkId, setForkId] = useState(RECIPES[0]?.id ?? "");
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ tone: "info" | "error"; text: string } | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const recipes = useMemo(() => allRecipes(userRecipes), [userRecipes]);
+
+  const handleSave = (recipe: Recipe) => {
+    const existing = userRecipes.find((entry) => entry.id === recipe.id);
+    onChange(
+      existing
+        ? userRecipes.map((entry) => (entry === existing ? updateUserRecipe(entry, recipe) : entry))
+        : [...userRecipes, createUserRecipe(recipe)]
+    );
+    setPanel(null);
+  };
+
+  const handleFork = () => {
+    const recipe = RECIPES.find((entry) => entry.id === forkId);
+    if (!recipe) return;
+    const fork = forkRecipe(
+      recipe,
+      recipes.map((entry) => entry.id)
+    );
+    onChange([...userRecipes, fork]);
+    setPanel({ kind: "edit", recipe: fork });
+  };
+
+  const handleRestore = (recipe: UserRecipe, version: number) => {
+    onChange(
+      userRecipes.map((entry) => (entry === recipe ? restoreRevision(entry, version) : entry))
+    );
+    setHistoryId(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([exportCookbook(userRecipes)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "cookbook.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleBundleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const merge = mergeCookbook(userRecipes, parseCookbookBundle(await file.text()));
+      onChange(merge.recipes);
+      setMessage({
+        tone: "info",
+        text: `Imported ${merge.added} new, updated ${merge.updated}, ${merge.unchanged} already up to date.`,
+      });
+    } catch (error) {
+      setMessage({
+        tone: "error",
+        text: error instanceof Error ? error.message : "The cookbook could not be read.",
+      });
+    }
+  };
+
+  const buttonClass =
+    "inline-flex items-center gap-2 rounded-full border border-emerald-200 px-4 py-2 text-xs font-semibold text-emerald-600 transition hover:bg-emerald-50 disabled:opacity-50";
+
+  return (
+    <section className="space-y-6">
+      <div className="rounded-3xl border border-zinc-100 bg-white/90 p-8 shadow-lg shadow-zinc-100/60 backdrop-blur">
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-semibold text-zinc-900">
+              <BookOpen className="h-5 w-5 text-emerald-500" />
+              Your cookbook
+            </h2>
+            <p className="mt-2 text-sm text-zinc-600">
+              Write, import or fork recipes. They are recommended alongside the built-in collection,
+              and every edit is kept as a version you can go back to.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setPanel({ kind: "edit", recipe: BLANK_RECIPE })}
+              className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New recipe
+            </button>
+            <button
+              type="button"
+              onClick={() => setPanel({ kind: "import" })}
+              className={buttonClass}
+            >
+              <FileUp className="h-3.5 w-3.5" />
+              Import recipe
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={!userRecipes.length}
+              className={buttonClass}
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export cookbook
+            </button>
+            <button
+              type="button"
+              onClick={() => bundleInputRef.current?.click()}
+              className={buttonClass}
+            >
+              <FileUp className="h-3.5 w-3.5" />
+              Import cookbook
+            </button>
+            <input
+              ref={bundleInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleBundleChange}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {message && (
+          <p
+            className={`mt-4 rounded-2xl px-4 py-2 text-xs ${
+              message.tone === "error" ? "bg-red-50 text-red-600" : "bg-emerald-50 text-emerald-700"
+            }`}
+          >
+            {message.text}
+          </p>
+        )}
+
+        {panel && (
+          <div className="mt-6">
+            {panel.kind === "import" ? (
+              <RecipeImporter
+                recipes={recipes}
+                onSave={(recipe) => {
+                  onChange([...userRecipes, createUserRecipe(recipe)]);
+                  setPanel(null);
+                }}
+              />
+            ) : (
+              <RecipeEditor
+                key={panel.recipe.id || "new"}
+                recipe={panel.recipe}
+                recipes={recipes}
+                onSave={handleSave}
+                onCancel={() => setPanel(null)}
+              />
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap items-center gap-2 text-sm text-zinc-600">
+          <span className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+            Start from a built-in
+          </span>
+          <select
+            value={forkId}
+            onChange={(event) => setForkId(event.target.value)}
+            aria-label="Built-in recipe to fork"
+            className="rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-xs focus:border-emerald-500 focus:outline-none"
+          >
+            {RECIPES.map((recipe) => (
+              <option key={recipe.id} value={recipe.id}>
+                {recipe.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={handleFork} className={buttonClass}>
+            <Copy className="h-3.5 w-3.5" />
+            Fork
+          </button>
+        </div>
+
+        {userRecipes.length ? (
+          <ul className="mt-6 space-y-2 text-sm">
+            {userRecipes.map((recipe) => {
+              const source = recipe.forkedFrom
+                ? recipes.find((entry) => entry.id === recipe.forkedFrom)
+                : undefined;
+              return (
+                <li
+                  key={recipe.id}
+                  className="space-y-2 rounded-2xl border border-zinc-100 bg-zinc-50/80 px-4 py-3"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-zinc-800">
+                        {recipe.name}
+                        <span className="ml-2 rounded-full bg-white px-2 py-0.5 text-[10px] font-semibold text-zinc-500">
+                          v{recipe.version}
+                        </span>
+                      </p>
+                      <p className="text-xs text-zinc-500">
+                        {[
+                          recipe.cuisine,
+                          `${recipe.ingredients.length} ingredients`,
+                          `${recipe.baseServings} servings`,
+                          source ? `forked from ${source.name}` : "",
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 text-zinc-400">
+                      <button
+                        type="button"
+                        onClick={() => setPanel({ kind: "edit", recipe })}
+                        aria-label={`Edit ${recipe.name}`}
+                        className="rounded-full p-1.5 transition hover:bg-white hover:text-emerald-600"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setHistoryId(historyId === recipe.id ? null : recipe.id)}
+                        disabled={!recipe.revisions.length}
+                        aria-label={`Versions of ${recipe.name}`}
+                        aria-expanded={historyId === recipe.id}
+                        className="rounded-full p-1.5 transition hover:bg-white hover:text-emerald-600 disabled:opacity-30"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          onChange(userRecipes.filter((entry) => entry.id !== recipe.id))
+                        }
+                        aria-label={`Delete ${recipe.name}`}
+                        className="rounded-full p-1.5 transition hover:bg-white hover:text-red-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {historyId === recipe.id && (
+                    <ul className="space-y-1 border-t border-zinc-100 pt-2 text-xs text-zinc-500">
+                      {recipe.revisions.map((revision) => (
+                        <li key={revision.version} className="flex items-center justify-between">
+                          <span>
+                            v{revision.version} · {revision.recipe.name} · saved{" "}
+                            {new Date(revision.savedAt).toLocaleDateString()}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleRestore(recipe, revision.version)}
+                            className="inline-flex items-center gap-1 font-semibold text-emerald-600 hover:text-emerald-700"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                            Restore
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="mt-6 text-sm text-zinc-400">
+            No recipes of your own yet. Built-in recipes stay read-only; fork one to make it yours.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default Cookbook;
@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Detection,
+  DetectionDecision,
+  MIN_DETECTION_SCORE,
+  VisionReview,
+  confirmedPantryItems,
+  detectionsAbove,
+} from "@/lib/detections";
+import type { PantryItem } from "@/lib/recommendations";
+import { Check, Plus, X } from "lucide-react";
+import NextImage from "next/image";
+
+const decisionColors: Record<DetectionDecision, string> = {
+  pending: "#f59e0b",
+  accepted: "#10b981",
+  rejected: "#a1a1aa",
+};
+
+const DetectionReview = ({
+  review,
+  labels,
+  onConfirm,
+  onSave,
+  onDismiss,
+}: {
+  review: VisionReview;
+  labels: string[];
+  onConfirm: (items: PantryItem[]) => void;
+  // Goes back to the other photos, keeping the decisions made so far.
+  onSave: (detections: Detection[], threshold: number) => void;
+  onDismiss: () => void;
+}) => {
+  const [detections, setDetections] = useState<Detection[]>(review.detections);
+  const [threshold, setThreshold] = useState(review.threshold);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const visible = useMemo(() => detectionsAbove(detections, threshold), [detections, threshold]);
+  const confirmed = useMemo(
+    () => confirmedPantryItems(detections, threshold),
+    [detections, threshold]
+  );
+  const fontSize = Math.max(review.width, review.height) / 32;
+
+  const updateDetection = (id: string, changes: Partial<Detection>) =>
+    setDetections((current) =>
+      current.map((detection) => (detection.id === id ? { ...detection, ...changes } : detection))
+    );
+
+  const decideVisible = (decision: DetectionDecision) => {
+    const ids = new Set(visible.map((detection) => detection.id));
+    setDetections((current) =>
+      current.map((detection) => (ids.has(detection.id) ? { ...detection, decision } : detection))
+    );
+  };
+
+  return (
+    <div className="grid gap-6 md:col-span-2 md:grid-cols-2">
+      <div className="relative aspect-[4/3] overflow-hidden rounded-2xl bg-zinc-900/5">
+        <NextImage
+          src={review.imageUrl}
+          alt="Photo under review"
+          fill
+          className="object-contain"
+          sizes="(max-width: 768px) 100vw, 50vw"
+          unoptimized
+        />
+        {/* Same aspect handling as object-contain, so boxes line up with the photo. */}
+        <svg
+          viewBox={`0 0 ${review.width} ${review.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="absolute inset-0 h-full w-full"
+        >
+          {visible.map((detection) => {
+            const [x, y, width, height] = detection.bbox;
+            const color = decisionColors[detection.decision];
+            return (
+              <g
+                key={detection.id}
+                onMouseEnter={() => setActiveId(detection.id)}
+                onMouseLeave={() => setActiveId(null)}
+                opacity={detection.decision === "rejected" ? 0.5 : 1}
+              >
+                <rect
+                  x={x}
+                  y={y}
+                  width={width}
+                  height={height}
+                  fill={activeId === detection.id ? `${color}33` : "transparent"}
+                  stroke={color}
+                  strokeWidth={activeId === detection.id ? 4 : 2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <text
+                  x={x + fontSize * 0.3}
+                  y={Math.max(fontSize, y - fontSize * 0.3)}
+                  fill={color}
+                  fontSize={fontSize}
+                  fontWeight={600}
+                  paintOrder="stroke"
+                  stroke="white"
+                  strokeWidth={fontSize / 6}
+                >
+                  {detection.label} {Math.round(detection.score * 100)}%
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex flex-col gap-4 text-sm text-zinc-600">
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Confidence threshold · {Math.round(threshold * 100)}%
+          <input
+            type="range"
+            min={MIN_DETECTION_SCORE}
+            max={0.95}
+            step={0.05}
+            value={threshold}
+            onChange={(event) => setThreshold(Number.parseFloat(event.target.value))}
+            className="accent-emerald-500"
+          />
+        </label>
+
+        <div className="flex gap-2 text-xs font-semibold">
+          <button
+            type="button"
+            onClick={() => decideVisible("accepted")}
+            className="rounded-full border border-zinc-200 px-3 py-1 text-zinc-500 transition hover:border-emerald-200 hover:text-emerald-600"
+          >
+            Accept all
+          </button>
+          <button
+            type="button"
+            onClick={() => decideVisible("rejected")}
+            className="rounded-full border border-zinc-200 px-3 py-1 text-zinc-500 transition hover:border-red-200 hover:text-red-500"
+          >
+            Reject all
+          </button>
+        </div>
+
+        {visible.length ? (
+          <ul className="max-h-64 space-y-2 overflow-y-auto pr-1">
+            {visible.map((detection) => (
+              <li
+                key={detection.id}
+                onMouseEnter={() => setActiveId(detection.id)}
+                onMouseLeave={() => setActiveId(null)}
+                className={`flex items-center gap-2 rounded-2xl border px-3 py-2 ${
+                  activeId === detection.id ? "border-emerald-300" : "border-zinc-100"
+                } ${detection.decision === "rejected" ? "opacity-50" : ""}`}
+              >
+                <input
+                  value={detection.label}
+                  list="detection-labels"
+                  onChange={(event) =>
+                    updateDetection(detection.id, {
+                      label: event.target.value.toLowerCase(),
+                      decision: "accepted",
+                    })
+                  }
+                  aria-label={`Label for ${detection.detectedLabel}`}
+                  className="w-0 flex-1 rounded-full border border-zinc-200 px-3 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+                />
+                <span className="w-10 text-right text-xs text-zinc-400">
+                  {Math.round(detection.score * 100)}%
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateDetection(detection.id, { decision: "accepted" })}
+                  aria-pressed={detection.decision === "accepted"}
+                  aria-label={`Accept ${detection.label}`}
+                  className={`rounded-full p-1.5 transition ${
+                    detection.decision === "accepted"
+                      ? "bg-emerald-500 text-white"
+                      : "text-zinc-400 hover:text-emerald-600"
+                  }`}
+                >
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateDetection(detection.id, { decision: "rejected" })}
+                  aria-pressed={detection.decision === "rejected"}
+                  aria-label={`Reject ${detection.label}`}
+                  className={`rounded-full p-1.5 transition ${
+                    detection.decision === "rejected"
+                      ? "bg-zinc-400 text-white"
+                      : "text-zinc-400 hover:text-red-500"
+                  }`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-zinc-400">Nothing above this threshold. Try lowering it.</p>
+        )}
+        <datalist id="detection-labels">
+          {labels.map((label) => (
+            <option key={label} value={label} />
+          ))}
+        </datalist>
+
+        <div className="mt-auto flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onConfirm(confirmed)}
+            disabled={!confirmed.length}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add {confirmed.map(({ name, quantity }) => `${quantity} ${name}`).join(", ") || "items"}
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(detections, threshold)}
+            className="rounded-full border border-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-500 transition hover:text-zinc-700"
+          >
+            Back to all photos
+          </button>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-full border border-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-500 transition hover:text-zinc-700"
+          >
+            Discard photo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionReview;
@@ -0,0 +1,121 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { DIETARY_RESTRICTIONS, DietaryProfile, DietaryRestriction } from "@/lib/dietary";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import { Plus, ShieldCheck, X } from "lucide-react";
+
+const DietaryProfilePanel = ({
+  profile,
+  onChange,
+}: {
+  profile: DietaryProfile;
+  onChange: (profile: DietaryProfile) => void;
+}) => {
+  const [exclusion, setExclusion] = useState("");
+
+  const toggleRestriction = (restriction: DietaryRestriction) => {
+    const restrictions = profile.restrictions.includes(restriction)
+      ? profile.restrictions.filter((entry) => entry !== restriction)
+      : [...profile.restrictions, restriction];
+    onChange({ ...profile, restrictions });
+  };
+
+  const handleAddExclusion = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = canonicalizeIngredient(exclusion);
+    if (name && !profile.excludedIngredients.includes(name)) {
+      onChange({ ...profile, excludedIngredients: [...profile.excludedIngredients, name] });
+    }
+    setExclusion("");
+  };
+
+  const removeExclusion = (name: string) =>
+    onChange({
+      ...profile,
+      excludedIngredients: profile.excludedIngredients.filter((entry) => entry !== name),
+    });
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-zinc-100 bg-white/80 p-5 text-sm text-zinc-600">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="flex items-center gap-2 font-semibold text-zinc-800">
+          <ShieldCheck className="h-4 w-4 text-emerald-500" />
+          Dietary profile
+        </p>
+        <select
+          value={profile.onConflict}
+          onChange={(event) =>
+            onChange({ ...profile, onConflict: event.target.value as DietaryProfile["onConflict"] })
+          }
+          className="rounded-full border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold text-zinc-600 focus:border-emerald-500 focus:outline-none"
+          aria-label="When a recipe breaks the profile"
+        >
+          <option value="exclude">Hide recipes that break it</option>
+          <option value="flag">Show them with a warning</option>
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {DIETARY_RESTRICTIONS.map(({ id, label }) => {
+          const active = profile.restrictions.includes(id);
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => toggleRestriction(id)}
+              aria-pressed={active}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                active
+                  ? "bg-emerald-500 text-white"
+                  : "border border-zinc-200 text-zinc-500 hover:border-emerald-200 hover:text-emerald-600"
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAddExclusion} className="flex gap-2">
+        <input
+          value={exclusion}
+          onChange={(event) => setExclusion(event.target.value)}
+          placeholder="Never suggest… (e.g. mushroom)"
+          className="flex-1 rounded-full border border-zinc-200 px-4 py-1.5 text-xs focus:border-emerald-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!exclusion.trim()}
+          className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-600 transition hover:border-emerald-200 hover:text-emerald-600 disabled:opacity-50"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Exclude
+        </button>
+      </form>
+
+      {profile.excludedIngredients.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {profile.excludedIngredients.map((name) => (
+            <span
+              key={name}
+              className="inline-flex items-center gap-2 rounded-full bg-red-50 px-3 py-1 text-xs font-medium text-red-600"
+            >
+              {name}
+              <button
+                type="button"
+                onClick={() => removeExclusion(name)}
+                className="text-red-300 transition hover:text-red-600"
+                aria-label={`Stop excluding ${name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DietaryProfilePanel;
@@ -0,0 +1,195 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { DIETARY_RESTRICTIONS } from "@/lib/dietary";
+import {
+  DinerPreferences,
+  Households,
+  activeProfile,
+  createProfile,
+  removeProfile,
+  updateProfile,
+} from "@/lib/households";
+import { Check, Pencil, Plus, Trash2, Users, X } from "lucide-react";
+
+const HouseholdSwitcher = ({
+  households,
+  preferences,
+  onChange,
+}: {
+  households: Households;
+  // The combined rules of everyone being cooked for.
+  preferences: DinerPreferences;
+  onChange: (update: (current: Households) => Households) => void;
+}) => {
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const active = activeProfile(households);
+  const { profiles, cookingFor } = households;
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    onChange((current) => {
+      const profile = createProfile(newName, current.profiles);
+      return { ...current, profiles: [...current.profiles, profile], activeId: profile.id };
+    });
+    setNewName("");
+  };
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = renaming?.trim();
+    if (name) onChange((current) => updateProfile(current, active.id, (p) => ({ ...p, name })));
+    setRenaming(null);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(`Remove ${active.name} and their pantry?`)) return;
+    onChange((current) => removeProfile(current, active.id));
+  };
+
+  // With nobody picked the active profile is eating, so picking someone else adds to it.
+  const toggleDiner = (id: string) =>
+    onChange((current) => {
+      const diners = current.cookingFor.length ? current.cookingFor : [current.activeId];
+      return {
+        ...current,
+        cookingFor: diners.includes(id) ? diners.filter((entry) => entry !== id) : [...diners, id],
+      };
+    });
+
+  const restrictionLabels = preferences.dietary.restrictions.map(
+    (id) => DIETARY_RESTRICTIONS.find((entry) => entry.id === id)?.label ?? id
+  );
+  const grouped = cookingFor.length > 1;
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-zinc-100 bg-white/90 p-6 shadow-lg shadow-zinc-100/60 backdrop-blur">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="mr-2 flex items-center gap-2 text-sm font-semibold text-zinc-800">
+          <Users className="h-4 w-4 text-emerald-500" />
+          Household
+        </p>
+        {profiles.map((profile) =>
+          renaming !== null && profile.id === active.id ? (
+            <form key={profile.id} onSubmit={handleRename} className="flex items-center gap-1">
+              <input
+                value={renaming}
+                onChange={(event) => setRenaming(event.target.value)}
+                autoFocus
+                aria-label="Profile name"
+                className="w-32 rounded-full border border-emerald-300 px-3 py-1 text-xs focus:outline-none"
+              />
+              <button
+                type="submit"
+                className="rounded-full p-1 text-emerald-600 hover:bg-emerald-50"
+                aria-label="Save name"
+              >
+                <Check className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setRenaming(null)}
+                className="rounded-full p-1 text-zinc-400 hover:bg-zinc-50"
+                aria-label="Cancel rename"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </form>
+          ) : (
+            <button
+              key={profile.id}
+              type="button"
+              onClick={() => onChange((current) => ({ ...current, activeId: profile.id }))}
+              aria-pressed={profile.id === active.id}
+              className={`rounded-full px-4 py-1.5 text-xs font-semibold transition ${
+                profile.id === active.id
+                  ? "bg-emerald-500 text-white"
+                  : "border border-zinc-200 text-zinc-500 hover:border-emerald-200 hover:text-emerald-600"
+              }`}
+            >
+              {profile.name}
+            </button>
+          )
+        )}
+        {renaming === null && (
+          <>
+            <button
+              type="button"
+              onClick={() => setRenaming(active.name)}
+              className="rounded-full p-1.5 text-zinc-400 transition hover:bg-zinc-50 hover:text-emerald-600"
+              aria-label={`Rename ${active.name}`}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={profiles.length <= 1}
+              className="rounded-full p-1.5 text-zinc-400 transition hover:bg-red-50 hover:text-red-500 disabled:opacity-40"
+              aria-label={`Remove ${active.name}`}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </>
+        )}
+        <form onSubmit={handleAdd} className="ml-auto flex gap-2">
+          <input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="New profile"
+            className="w-36 rounded-full border border-zinc-200 px-3 py-1.5 text-xs focus:border-emerald-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim()}
+            className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-600 transition hover:border-emerald-200 hover:text-emerald-600 disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add
+          </button>
+        </form>
+      </div>
+
+      {profiles.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="font-semibold uppercase tracking-wide text-zinc-500">Cooking for</span>
+          {profiles.map((profile) => {
+            const eating =
+              cookingFor.includes(profile.id) || (!cookingFor.length && profile.id === active.id);
+            return (
+              <button
+                key={profile.id}
+                type="button"
+                onClick={() => toggleDiner(profile.id)}
+                aria-pressed={eating}
+                className={`rounded-full px-3 py-1 font-semibold transition ${
+                  eating
+                    ? "bg-indigo-500 text-white"
+                    : "border border-zinc-200 text-zinc-500 hover:border-indigo-200 hover:text-indigo-600"
+                }`}
+              >
+                {profile.name}
+              </button>
+            );
+          })}
+          {grouped && (
+            <span className="text-zinc-500">
+              Cooking from {active.name}&apos;s pantry ·{" "}
+              {restrictionLabels.length
+                ? `strictest rules: ${restrictionLabels.join(", ").toLowerCase()}`
+                : "no dietary restrictions"}
+              {preferences.dislikedIngredients.length > 0 &&
+                ` · avoiding ${preferences.dislikedIngredients.length} dislike${
+                  preferences.dislikedIngredients.length > 1 ? "s" : ""
+                }`}
+            </span>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HouseholdSwitcher;
@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_DETECTION_THRESHOLD,
+  MIN_DETECTION_SCORE,
+  TrackedObject,
+  confirmedTracks,
+  createDetections,
+  detectionsAbove,
+  seenSoFar,
+  trackDetections,
+} from "@/lib/detections";
+import type { PantryItem } from "@/lib/recommendations";
+import type { VisionProvider } from "@/lib/vision";
+import { Loader2, Plus, Square, X } from "lucide-react";
+
+// Minimum gap between detection passes, so slower devices are not pegged at 100%.
+const DETECTION_INTERVAL_MS = 600;
+
+type ScannerStatus = "starting" | "scanning" | "error";
+
+const LiveScanner = ({
+  provider,
+  onCommit,
+  onClose,
+}: {
+  provider: VisionProvider;
+  onCommit: (items: PantryItem[]) => void;
+  onClose: () => void;
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<ScannerStatus>("starting");
+  const [error, setError] = useState<string | null>(null);
+  const [tracks, setTracks] = useState<TrackedObject[]>([]);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [ignored, setIgnored] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const detectFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          const started = performance.now();
+          const predictions = await provider.detect(video, {
+            maxResults: 30,
+            minScore: MIN_DETECTION_SCORE,
+          });
+          if (cancelled) return;
+          const detections = detectionsAbove(
+            createDetections(predictions, new Set(provider.labels)),
+            DEFAULT_DETECTION_THRESHOLD
+          );
+          setTracks((current) => trackDetections(current, detections, started));
+        }
+        timer = setTimeout(() => void detectFrame(), DETECTION_INTERVAL_MS);
+      } catch (detectError) {
+        if (cancelled) return;
+        setStatus("error");
+        setError(detectError instanceof Error ? detectError.message : "Live detection failed.");
+      }
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        });
+        const video = videoRef.current;
+        if (cancelled || !video) return;
+        video.srcObject = stream;
+        await video.play();
+        setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+        setStatus("scanning");
+        void detectFrame();
+      } catch (startError) {
+        if (cancelled) return;
+        setStatus("error");
+        setError(
+          startError instanceof DOMException && startError.name === "NotAllowedError"
+            ? "Camera access was denied. Allow it in your browser settings to scan live."
+            : startError instanceof Error
+              ? startError.message
+              : "Could not start the camera."
+        );
+      }
+    };
+
+    void start();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+      void provider.release();
+    };
+  }, [provider]);
+
+  const seen = useMemo(
+    () => seenSoFar(tracks).filter((item) => !ignored.includes(item.name)),
+    [tracks, ignored]
+  );
+  // Only boxes from the latest pass are drawn, so the overlay follows the video.
+  const liveTracks = useMemo(() => {
+    const latest = Math.max(0, ...tracks.map((track) => track.lastSeen));
+    return confirmedTracks(tracks).filter(
+      (track) => track.lastSeen === latest && !ignored.includes(track.label)
+    );
+  }, [tracks, ignored]);
+  const fontSize = Math.max(videoSize.width, videoSize.height) / 32;
+
+  return (
+    <div className="grid gap-6 md:col-span-2 md:grid-cols-2">
+      <div className="relative aspect-[4/3] overflow-hidden rounded-2xl bg-zinc-900">
+        <video ref={videoRef} muted playsInline className="h-full w-full object-contain" />
+        {videoSize.width > 0 && (
+          <svg
+            viewBox={`0 0 ${videoSize.width} ${videoSize.height}`}
+            preserveAspectRatio="xMidYMid meet"
+            className="pointer-events-none absolute inset-0 h-full w-full"
+          >
+            {liveTracks.map((track) => {
+              const [x, y, width, height] = track.bbox;
+              return (
+                <g key={track.id}>
+                  <rect
+                    x={x}
+                    y={y}
+                    width={width}
+                    height={height}
+                    fill="transparent"
+                    stroke="#10b981"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <text
+                    x={x + fontSize * 0.3}
+                    y={Math.max(fontSize, y - fontSize * 0.3)}
+                    fill="#10b981"
+                    fontSize={fontSize}
+                    fontWeight={600}
+                    paintOrder="stroke"
+                    stroke="white"
+                    strokeWidth={fontSize / 6}
+                  >
+                    {track.label}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+        {status === "starting" && (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 text-sm text-white">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Starting camera…
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4 text-sm text-zinc-600">
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">Seen so far</p>
+        {error ? (
+          <p className="rounded-2xl border border-red-100 bg-red-50 px-4 py-3 text-red-600">
+            {error}
+          </p>
+        ) : seen.length ? (
+          <ul className="space-y-2">
+            {seen.map((item) => (
+              <li
+                key={item.name}
+                className="flex items-center justify-between rounded-2xl border border-zinc-100 px-3 py-2"
+              >
+                <span>
+                  <span className="font-medium text-zinc-800">{item.name}</span> × {item.quantity}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setIgnored((current) => [...current, item.name])}
+                  className="text-zinc-400 transition hover:text-red-500"
+                  aria-label={`Ignore ${item.name}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-zinc-400">
+            Move the camera slowly across your groceries. Items appear once they are seen in more
+            than one frame.
+          </p>
+        )}
+
+        <div className="mt-auto flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => onCommit(seen)}
+            disabled={!seen.length}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add to pantry
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center gap-2 rounded-full border border-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-500 transition hover:text-zinc-700"
+          >
+            <Square className="h-3.5 w-3.5" />
+            Stop scanning
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveScanner;
@@ -0,0 +1,207 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Recipe } from "@/data/recipes";
+import type { DietaryProfile } from "@/lib/dietary";
+import {
+  MEAL_SLOTS,
+  MealSlot,
+  PlannedMeal,
+  planMeals,
+  planSelections,
+  swapSlots,
+} from "@/lib/mealPlanner";
+import type { PantryItem } from "@/lib/recommendations";
+import ShoppingListPanel from "@/components/ShoppingListPanel";
+import { CalendarDays, GripVertical, Lock, RefreshCw, Unlock } from "lucide-react";
+
+const MealPlanner = ({
+  recipes,
+  pantryItems,
+  dietary,
+}: {
+  recipes: Recipe[];
+  pantryItems: PantryItem[];
+  dietary?: DietaryProfile;
+}) => {
+  const [days, setDays] = useState(3);
+  const [meals, setMeals] = useState<MealSlot[]>(["lunch", "dinner"]);
+  const [servings, setServings] = useState(2);
+  const [slots, setSlots] = useState<PlannedMeal[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const recipesById = useMemo(
+    () => new Map(recipes.map((recipe) => [recipe.id, recipe])),
+    [recipes]
+  );
+  const selections = useMemo(() => planSelections(slots, recipes), [slots, recipes]);
+  const lockedCount = slots.filter((slot) => slot.locked).length;
+
+  const handlePlan = () => {
+    setSlots((previous) =>
+      planMeals({ recipes, pantry: pantryItems, days, meals, servings, dietary, previous })
+    );
+  };
+
+  const toggleMeal = (meal: MealSlot) => {
+    setMeals((current) =>
+      current.includes(meal) ? current.filter((entry) => entry !== meal) : [...current, meal]
+    );
+  };
+
+  const toggleLock = (id: string) => {
+    setSlots((current) =>
+      current.map((slot) => (slot.id === id ? { ...slot, locked: !slot.locked } : slot))
+    );
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId) setSlots((current) => swapSlots(current, draggedId, targetId));
+    setDraggedId(null);
+  };
+
+  const dayIndexes = [...new Set(slots.map((slot) => slot.day))];
+
+  return (
+    <section className="space-y-6">
+      <div className="rounded-3xl border border-zinc-100 bg-white/90 p-8 shadow-lg shadow-zinc-100/60 backdrop-blur">
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-semibold text-zinc-900">
+              <CalendarDays className="h-5 w-5 text-emerald-500" />
+              Meal planner
+            </h2>
+            <p className="mt-2 text-sm text-zinc-600">
+              Each planned meal uses up pantry stock, so later days are scored against what is left.
+              Drag meals to reorder and lock the ones you want to keep before re-planning.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handlePlan}
+            disabled={!meals.length}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-600 disabled:opacity-50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            {slots.length ? `Re-plan${lockedCount ? ` (${lockedCount} locked)` : ""}` : "Plan meals"}
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-6 text-sm text-zinc-600">
+          <label className="flex items-center gap-2">
+            Days
+            <input
+              type="number"
+              min={1}
+              max={7}
+              value={days}
+              onChange={(event) =>
+                setDays(Math.min(7, Math.max(1, Number.parseInt(event.target.value, 10) || 1)))
+              }
+              className="w-16 rounded-full border border-zinc-200 px-3 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Servings per meal
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={servings}
+              onChange={(event) =>
+                setServings(Math.min(12, Math.max(1, Number.parseInt(event.target.value, 10) || 1)))
+              }
+              className="w-16 rounded-full border border-zinc-200 px-3 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            {MEAL_SLOTS.map((meal) => (
+              <label key={meal} className="flex items-center gap-1 capitalize">
+                <input
+                  type="checkbox"
+                  checked={meals.includes(meal)}
+                  onChange={() => toggleMeal(meal)}
+                  className="accent-emerald-500"
+                />
+                {meal}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {slots.length > 0 && (
+          <div className="mt-6 space-y-4">
+            {dayIndexes.map((day) => (
+              <div key={day} className="grid gap-3 md:grid-cols-[6rem_1fr]">
+                <p className="pt-3 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+                  Day {day + 1}
+                </p>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  {slots
+                    .filter((slot) => slot.day === day)
+                    .map((slot) => {
+                      const recipe = slot.recipeId ? recipesById.get(slot.recipeId) : undefined;
+                      return (
+                        <div
+                          key={slot.id}
+                          draggable={Boolean(recipe)}
+                          onDragStart={() => setDraggedId(slot.id)}
+                          onDragEnd={() => setDraggedId(null)}
+                          onDragOver={(event) => event.preventDefault()}
+                          onDrop={() => handleDrop(slot.id)}
+                          className={`flex items-start gap-2 rounded-2xl border p-3 text-sm transition ${
+                            slot.locked
+                              ? "border-emerald-300 bg-emerald-50/70"
+                              : "border-zinc-100 bg-zinc-50/80"
+                          } ${draggedId === slot.id ? "opacity-50" : ""}`}
+                        >
+                          <GripVertical className="mt-0.5 h-4 w-4 cursor-grab text-zinc-300" />
+                          <div className="flex-1">
+                            <p className="text-[10px] font-semibold uppercase tracking-wide text-zinc-400">
+                              {slot.meal}
+                            </p>
+                            <p className="font-medium text-zinc-800">
+                              {recipe?.name ?? "Nothing suitable"}
+                            </p>
+                            {recipe && (
+                              <p className="text-xs text-zinc-500">
+                                {recipe.cuisine} · {slot.servings} servings
+                              </p>
+                            )}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => toggleLock(slot.id)}
+                            aria-pressed={slot.locked}
+                            aria-label={`${slot.locked ? "Unlock" : "Lock"} ${slot.meal} on day ${day + 1}`}
+                            className="rounded-full p-1 text-zinc-400 transition hover:bg-white hover:text-emerald-600"
+                          >
+                            {slot.locked ? (
+                              <Lock className="h-3.5 w-3.5 text-emerald-600" />
+                            ) : (
+                              <Unlock className="h-3.5 w-3.5" />
+                            )}
+                          </button>
+                        </div>
+                      );
+                    })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selections.length > 0 && (
+        <ShoppingListPanel
+          selections={selections}
+          pantryItems={pantryItems}
+          title="Still need to buy"
+          description="Everything the plan needs beyond what is already in your pantry."
+        />
+      )}
+    </section>
+  );
+};
+
+export default MealPlanner;
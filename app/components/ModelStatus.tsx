@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ModelCacheInfo, clearModelCache, formatBytes, modelCacheInfo } from "@/lib/modelCache";
+import type { VisionProvider } from "@/lib/vision";
+import { useModelStatus } from "@/hooks/useModelStatus";
+import { CloudDownload, HardDrive, Loader2, Trash2 } from "lucide-react";
+
+const ModelStatus = ({ provider, disabled }: { provider: VisionProvider; disabled: boolean }) => {
+  const status = useModelStatus(provider.id);
+  const [cacheInfo, setCacheInfo] = useState<ModelCacheInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { model } = provider;
+
+  // Re-read after every state change: a finished download is what fills the cache.
+  useEffect(() => {
+    if (!model) return;
+    let cancelled = false;
+    modelCacheInfo(model)
+      .then((info) => {
+        if (!cancelled) setCacheInfo(info);
+      })
+      .catch(() => {
+        if (!cancelled) setCacheInfo(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [model, status.state]);
+
+  if (!model) return null;
+
+  const busy = status.state === "downloading" || status.state === "loading";
+
+  const handleDownload = async () => {
+    setError(null);
+    try {
+      await provider.load();
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "The model could not be saved.");
+    }
+  };
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await provider.release();
+      await clearModelCache(model);
+      setCacheInfo(await modelCacheInfo(model));
+    } catch {
+      setError("The saved model could not be removed.");
+    }
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-zinc-500">
+      {status.state === "downloading" ? (
+        <span className="flex items-center gap-2 font-semibold text-emerald-700">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Downloading model
+          {status.fraction !== null ? ` ${Math.round(status.fraction * 100)}%` : ""} ·{" "}
+          {formatBytes(status.loaded)}
+          {status.fraction !== null && (
+            <span className="h-1.5 w-24 overflow-hidden rounded-full bg-emerald-100">
+              <span
+                className="block h-full rounded-full bg-emerald-500 transition-all"
+                style={{ width: `${Math.round(status.fraction * 100)}%` }}
+              />
+            </span>
+          )}
+        </span>
+      ) : status.state === "loading" ? (
+        <span className="flex items-center gap-2 font-semibold text-emerald-700">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Loading model…
+        </span>
+      ) : cacheInfo?.cached ? (
+        <span className="flex items-center gap-2 font-semibold text-zinc-600">
+          <HardDrive className="h-3.5 w-3.5 text-emerald-600" />
+          Saved for offline · {formatBytes(cacheInfo.bytes)}
+        </span>
+      ) : (
+        <span className="flex items-center gap-2">
+          <CloudDownload className="h-3.5 w-3.5" />
+          Model not downloaded yet
+        </span>
+      )}
+      {!busy && !cacheInfo?.cached && (
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={disabled}
+          className="rounded-full border border-zinc-200 px-3 py-1 font-semibold text-zinc-600 transition hover:border-emerald-400 hover:text-emerald-700 disabled:opacity-50"
+        >
+          Save for offline
+        </button>
+      )}
+      {!busy && cacheInfo?.cached && (
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1 font-semibold text-zinc-500 transition hover:border-red-300 hover:text-red-600 disabled:opacity-50"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Remove download
+        </button>
+      )}
+      {(error ?? status.error) && <span className="text-red-600">{error ?? status.error}</span>}
+    </div>
+  );
+};
+
+export default ModelStatus;
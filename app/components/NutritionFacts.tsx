@@ -0,0 +1,58 @@
+import { NUTRIENTS, NutritionGoalResult, RecipeNutrition } from "@/lib/nutrition";
+import { Check, X } from "lucide-react";
+
+const formatNutrient = (value: number) => (value >= 10 ? Math.round(value) : value.toFixed(1));
+
+const NutritionFacts = ({
+  nutrition,
+  goals,
+}: {
+  nutrition: RecipeNutrition;
+  goals: NutritionGoalResult[];
+}) => (
+  <div className="space-y-2 rounded-2xl border border-zinc-100 bg-zinc-50/80 p-4 text-xs text-zinc-600">
+    <p className="font-semibold uppercase tracking-wide text-zinc-500">Nutrition</p>
+    <table className="w-full">
+      <thead>
+        <tr className="text-left text-[10px] uppercase tracking-wide text-zinc-400">
+          <th className="font-medium" />
+          <th className="text-right font-medium">Per serving</th>
+          <th className="text-right font-medium">
+            All {nutrition.servings} serving{nutrition.servings === 1 ? "" : "s"}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {NUTRIENTS.map(({ id, label, unit }) => {
+          const goal = goals.find((entry) => entry.nutrient === id);
+          return (
+            <tr key={id}>
+              <td className="flex items-center gap-1 py-0.5 font-medium text-zinc-800">
+                {label}
+                {goal &&
+                  (goal.met ? (
+                    <Check className="h-3 w-3 text-emerald-500" aria-label="Goal met" />
+                  ) : (
+                    <X className="h-3 w-3 text-red-400" aria-label="Goal missed" />
+                  ))}
+              </td>
+              <td className="text-right font-mono">
+                {formatNutrient(nutrition.perServing[id])} {unit}
+              </td>
+              <td className="text-right font-mono text-zinc-400">
+                {formatNutrient(nutrition.total[id])} {unit}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+    {nutrition.unknown.length > 0 && (
+      <p className="text-[10px] text-zinc-400">
+        Leaves out {nutrition.unknown.join(", ")}: no nutrition data or weight known.
+      </p>
+    )}
+  </div>
+);
+
+export default NutritionFacts;
@@ -0,0 +1,156 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import {
+  NUTRIENTS,
+  Nutrient,
+  NutritionGoal,
+  NutritionTargets,
+  describeNutritionGoal,
+} from "@/lib/nutrition";
+import { Plus, Target, X } from "lucide-react";
+
+const PRESETS: NutritionGoal[] = [
+  { nutrient: "calories", comparison: "at-most", amount: 600 },
+  { nutrient: "protein", comparison: "at-least", amount: 30 },
+  { nutrient: "sodium", comparison: "at-most", amount: 800 },
+  { nutrient: "fiber", comparison: "at-least", amount: 8 },
+];
+
+const sameGoal = (a: NutritionGoal, b: NutritionGoal) =>
+  a.nutrient === b.nutrient && a.comparison === b.comparison;
+
+const NutritionTargetsPanel = ({
+  targets,
+  onChange,
+}: {
+  targets: NutritionTargets;
+  onChange: (targets: NutritionTargets) => void;
+}) => {
+  const [nutrient, setNutrient] = useState<Nutrient>("calories");
+  const [comparison, setComparison] = useState<NutritionGoal["comparison"]>("at-most");
+  const [amount, setAmount] = useState("");
+
+  // A new goal replaces one on the same nutrient and direction rather than stacking with it.
+  const addGoal = (goal: NutritionGoal) =>
+    onChange({
+      ...targets,
+      goals: [...targets.goals.filter((entry) => !sameGoal(entry, goal)), goal],
+    });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value <= 0) return;
+    addGoal({ nutrient, comparison, amount: value });
+    setAmount("");
+  };
+
+  const removeGoal = (goal: NutritionGoal) =>
+    onChange({ ...targets, goals: targets.goals.filter((entry) => entry !== goal) });
+
+  const fieldClass =
+    "rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-xs focus:border-emerald-500 focus:outline-none";
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-zinc-100 bg-white/80 p-5 text-sm text-zinc-600">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="flex items-center gap-2 font-semibold text-zinc-800">
+          <Target className="h-4 w-4 text-emerald-500" />
+          Nutrition goals per serving
+        </p>
+        <select
+          value={targets.mode}
+          onChange={(event) =>
+            onChange({ ...targets, mode: event.target.value as NutritionTargets["mode"] })
+          }
+          className="rounded-full border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold text-zinc-600 focus:border-emerald-500 focus:outline-none"
+          aria-label="When a recipe misses a goal"
+        >
+          <option value="boost">Rank recipes that meet them higher</option>
+          <option value="filter">Hide recipes that miss them</option>
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.filter((preset) => !targets.goals.some((goal) => sameGoal(goal, preset))).map(
+          (preset) => (
+            <button
+              key={`${preset.nutrient}-${preset.comparison}`}
+              type="button"
+              onClick={() => addGoal(preset)}
+              className="rounded-full border border-zinc-200 px-3 py-1 text-xs font-semibold text-zinc-500 transition hover:border-emerald-200 hover:text-emerald-600"
+            >
+              {describeNutritionGoal(preset)}
+            </button>
+          )
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
+        <select
+          value={comparison}
+          onChange={(event) => setComparison(event.target.value as NutritionGoal["comparison"])}
+          aria-label="Limit or minimum"
+          className={fieldClass}
+        >
+          <option value="at-most">At most</option>
+          <option value="at-least">At least</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          placeholder="Amount"
+          aria-label="Amount per serving"
+          className={`${fieldClass} w-24`}
+        />
+        <select
+          value={nutrient}
+          onChange={(event) => setNutrient(event.target.value as Nutrient)}
+          aria-label="Nutrient"
+          className={fieldClass}
+        >
+          {NUTRIENTS.map(({ id, label, unit }) => (
+            <option key={id} value={id}>
+              {unit} {label.toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!amount}
+          className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-600 transition hover:border-emerald-200 hover:text-emerald-600 disabled:opacity-50"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add goal
+        </button>
+      </form>
+
+      {targets.goals.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {targets.goals.map((goal) => (
+            <span
+              key={`${goal.nutrient}-${goal.comparison}`}
+              className="inline-flex items-center gap-2 rounded-full bg-emerald-50 px-3 py-1 text-xs font-medium text-emerald-700"
+            >
+              {describeNutritionGoal(goal)}
+              <button
+                type="button"
+                onClick={() => removeGoal(goal)}
+                className="text-emerald-300 transition hover:text-emerald-700"
+                aria-label={`Remove goal: ${describeNutritionGoal(goal)}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NutritionTargetsPanel;
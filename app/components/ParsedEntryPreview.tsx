@@ -0,0 +1,57 @@
+"use client";
+
+import { ParsedIngredient, needsReview } from "@/lib/ingredientParser";
+import { formatQuantity, formatUnit } from "@/lib/units";
+import { AlertTriangle, Check } from "lucide-react";
+
+const describeAmount = ({ quantity, unit }: ParsedIngredient) => {
+  if (!quantity) return null;
+  const amount =
+    quantity.max > quantity.min
+      ? `${formatQuantity(quantity.min)}–${formatQuantity(quantity.max)}`
+      : `${formatQuantity(quantity.min)}`;
+  return unit ? `${amount} ${formatUnit(unit, quantity.max)}` : amount;
+};
+
+// Shows how each typed line was read, so a misreading is caught before it reaches the pantry.
+const ParsedEntryPreview = ({ entries }: { entries: ParsedIngredient[] }) => {
+  if (!entries.length) return null;
+
+  return (
+    <ul className="flex flex-col gap-2">
+      {entries.map((entry, index) => {
+        const flagged = needsReview(entry);
+        return (
+          <li
+            key={`${index}-${entry.source}`}
+            className={`flex flex-wrap items-center gap-x-3 gap-y-1 rounded-2xl border px-4 py-2 text-sm ${
+              flagged ? "border-amber-200 bg-amber-50" : "border-zinc-100 bg-white"
+            }`}
+          >
+            {flagged ? (
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+            ) : (
+              <Check className="h-4 w-4 text-emerald-500" />
+            )}
+            {entry.error ? (
+              <span className="text-zinc-500">{entry.source}</span>
+            ) : (
+              <span className="font-semibold text-zinc-800">
+                {describeAmount(entry) && (
+                  <span className="mr-1.5 font-normal text-zinc-500">{describeAmount(entry)}</span>
+                )}
+                {entry.name}
+              </span>
+            )}
+            {entry.notes.length > 0 && (
+              <span className="text-xs italic text-zinc-400">{entry.notes.join(", ")}</span>
+            )}
+            {flagged && <span className="text-xs text-amber-700">{entry.issues[0]}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ParsedEntryPreview;
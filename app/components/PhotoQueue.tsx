@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  PHOTO_STATUS_LABELS,
+  QueuedPhoto,
+  acceptedCount,
+  isPhotoActive,
+  mergePhotoDetections,
+  mergedPantryItems,
+} from "@/lib/photoQueue";
+import type { PantryItem } from "@/lib/recommendations";
+import { Check, Loader2, Plus, ScanSearch, X } from "lucide-react";
+import NextImage from "next/image";
+
+const PhotoQueue = ({
+  photos,
+  onCancel,
+  onRemove,
+  onReview,
+  onConfirm,
+  onClear,
+}: {
+  photos: QueuedPhoto[];
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onReview: (photo: QueuedPhoto) => void;
+  onConfirm: (items: PantryItem[]) => void;
+  onClear: () => void;
+}) => {
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  const merged = useMemo(() => mergePhotoDetections(photos), [photos]);
+  const chosen = merged.filter((entry) => !skipped.includes(entry.name));
+  const busy = photos.some(isPhotoActive);
+  const finished = photos.filter((photo) => !isPhotoActive(photo)).length;
+  const unreviewed = photos.filter(
+    (photo) => photo.status === "done" && photo.detections.length > 0 && !acceptedCount(photo)
+  ).length;
+
+  return (
+    <div className="flex flex-col gap-4 text-sm text-zinc-600">
+      <div className="flex items-center justify-between text-xs font-semibold text-zinc-500">
+        <span className="inline-flex items-center gap-2">
+          {busy && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          {finished} of {photos.length} photo{photos.length === 1 ? "" : "s"} scanned
+        </span>
+        <button type="button" onClick={onClear} className="hover:text-zinc-700">
+          Clear all
+        </button>
+      </div>
+
+      <ul className="grid max-h-72 grid-cols-2 gap-3 overflow-y-auto pr-1">
+        {photos.map((photo) => {
+          const active = isPhotoActive(photo);
+          return (
+            <li
+              key={photo.id}
+              className="overflow-hidden rounded-2xl border border-zinc-100 bg-zinc-50/80"
+            >
+              <div className="relative aspect-[4/3]">
+                <NextImage
+                  src={photo.imageUrl}
+                  alt={photo.name}
+                  fill
+                  className={`object-cover ${photo.status === "cancelled" ? "opacity-40" : ""}`}
+                  sizes="(max-width: 768px) 50vw, 20vw"
+                  unoptimized
+                />
+                <button
+                  type="button"
+                  onClick={() => (active ? onCancel(photo.id) : onRemove(photo.id))}
+                  aria-label={active ? `Cancel ${photo.name}` : `Remove ${photo.name}`}
+                  className="absolute right-1.5 top-1.5 rounded-full bg-white/90 p-1 text-zinc-500 shadow-sm transition hover:text-red-500"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              <div className="space-y-1.5 p-2 text-xs">
+                <p className="truncate font-semibold text-zinc-700" title={photo.name}>
+                  {photo.name}
+                </p>
+                {active ? (
+                  <div
+                    role="progressbar"
+                    aria-valuenow={Math.round(photo.progress * 100)}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    className="h-1.5 overflow-hidden rounded-full bg-zinc-200"
+                  >
+                    <div
+                      className="h-full bg-emerald-500 transition-all"
+                      style={{ width: `${photo.progress * 100}%` }}
+                    />
+                  </div>
+                ) : null}
+                <div className="flex items-center justify-between gap-2">
+                  <span
+                    className={photo.status === "failed" ? "text-red-500" : "text-zinc-400"}
+                    title={photo.error}
+                  >
+                    {photo.status !== "done"
+                      ? PHOTO_STATUS_LABELS[photo.status]
+                      : acceptedCount(photo)
+                        ? `${acceptedCount(photo)} accepted`
+                        : `${photo.detections.length} possible item${photo.detections.length === 1 ? "" : "s"}`}
+                  </span>
+                  {photo.status === "done" && photo.detections.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => onReview(photo)}
+                      className="inline-flex items-center gap-1 font-semibold text-emerald-600 hover:text-emerald-700"
+                    >
+                      <ScanSearch className="h-3.5 w-3.5" />
+                      Review
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {!merged.length && unreviewed > 0 && (
+        <p className="text-xs text-zinc-500">
+          Review each photo and accept what it found; only accepted items are added.
+        </p>
+      )}
+
+      {merged.length > 0 && (
+        <div className="space-y-3 rounded-2xl border border-zinc-100 bg-white p-4">
+          <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+            Found across photos
+          </p>
+          <ul className="space-y-1.5">
+            {merged.map((entry) => {
+              const included = !skipped.includes(entry.name);
+              return (
+                <li key={entry.name} className="flex items-center justify-between gap-3">
+                  <span className={included ? "" : "text-zinc-400 line-through"}>
+                    {entry.quantity} {entry.name}
+                    <span className="block text-xs text-zinc-400">
+                      {entry.sources
+                        .map((source) => `${source.count} in ${source.photoName}`)
+                        .join(", ")}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSkipped((current) =>
+                        included
+                          ? [...current, entry.name]
+                          : current.filter((name) => name !== entry.name)
+                      )
+                    }
+                    aria-pressed={included}
+                    aria-label={`${included ? "Skip" : "Include"} ${entry.name}`}
+                    className={`rounded-full p-1.5 transition ${
+                      included
+                        ? "bg-emerald-500 text-white"
+                        : "text-zinc-400 hover:text-emerald-600"
+                    }`}
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button
+            type="button"
+            onClick={() => onConfirm(mergedPantryItems(chosen))}
+            disabled={!chosen.length || busy}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {busy
+              ? "Waiting for the remaining photos…"
+              : `Add ${chosen.length} item${chosen.length === 1 ? "" : "s"} to pantry`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoQueue;
@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { recognizeText } from "@/lib/ocr";
+import {
+  RECEIPT_MATCH_CONFIDENCE,
+  ReceiptLine,
+  parseReceiptText,
+  receiptPantryItems,
+} from "@/lib/receipts";
+import type { PantryItem } from "@/lib/recommendations";
+import { UNIT_OPTIONS } from "@/lib/units";
+import { Loader2, Plus } from "lucide-react";
+import NextImage from "next/image";
+
+const ReceiptImport = ({
+  imageUrl,
+  onConfirm,
+  onDismiss,
+}: {
+  imageUrl: string;
+  onConfirm: (items: PantryItem[]) => void;
+  onDismiss: () => void;
+}) => {
+  const [lines, setLines] = useState<ReceiptLine[] | null>(null);
+  const [progress, setProgress] = useState({ status: "Loading text recognition…", progress: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    recognizeText(imageUrl, (update) => {
+      if (!cancelled) setProgress(update);
+    })
+      .then((text) => {
+        if (!cancelled) setLines(parseReceiptText(text));
+      })
+      .catch((ocrError: unknown) => {
+        if (!cancelled) {
+          setError(ocrError instanceof Error ? ocrError.message : "Could not read the photo.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const items = useMemo(() => receiptPantryItems(lines ?? []), [lines]);
+
+  const updateLine = (id: string, changes: Partial<ReceiptLine>) =>
+    setLines((current) =>
+      (current ?? []).map((line) => (line.id === id ? { ...line, ...changes } : line))
+    );
+
+  return (
+    <div className="grid gap-6 md:col-span-2 md:grid-cols-2">
+      <div className="relative aspect-[3/4] max-h-96 overflow-hidden rounded-2xl bg-zinc-900/5">
+        <NextImage
+          src={imageUrl}
+          alt="Receipt or shopping list"
+          fill
+          className="object-contain"
+          sizes="(max-width: 768px) 100vw, 50vw"
+          unoptimized
+        />
+      </div>
+
+      <div className="flex flex-col gap-4 text-sm text-zinc-600">
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Items read from the photo
+        </p>
+        {error ? (
+          <p className="rounded-2xl border border-red-100 bg-red-50 px-4 py-3 text-red-600">
+            {error}
+          </p>
+        ) : !lines ? (
+          <div className="space-y-2">
+            <p className="flex items-center gap-2 capitalize">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {progress.status}
+            </p>
+            <div className="h-1.5 overflow-hidden rounded-full bg-zinc-100">
+              <div
+                className="h-full rounded-full bg-emerald-500 transition-all"
+                style={{ width: `${Math.round(progress.progress * 100)}%` }}
+              />
+            </div>
+          </div>
+        ) : lines.length ? (
+          <ul className="max-h-80 space-y-2 overflow-y-auto pr-1">
+            {lines.map((line) => (
+              <li
+                key={line.id}
+                className={`space-y-1 rounded-2xl border px-3 py-2 ${
+                  line.include ? "border-emerald-200" : "border-zinc-100 opacity-70"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={line.include}
+                    onChange={() => updateLine(line.id, { include: !line.include })}
+                    aria-label={`Import ${line.name}`}
+                    className="accent-emerald-500"
+                  />
+                  <input
+                    value={line.name}
+                    onChange={(event) =>
+                      updateLine(line.id, { name: event.target.value, confidence: 1 })
+                    }
+                    aria-label="Ingredient name"
+                    className="w-0 flex-1 rounded-full border border-zinc-200 px-3 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={line.quantity ?? ""}
+                    placeholder="Qty"
+                    onChange={(event) =>
+                      updateLine(line.id, {
+                        quantity: event.target.value ? Number(event.target.value) : undefined,
+                      })
+                    }
+                    aria-label={`Quantity of ${line.name}`}
+                    className="w-16 rounded-full border border-zinc-200 px-2 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+                  />
+                  <select
+                    value={line.unit ?? ""}
+                    onChange={(event) =>
+                      updateLine(line.id, { unit: event.target.value || undefined })
+                    }
+                    aria-label={`Unit for ${line.name}`}
+                    className="rounded-full border border-zinc-200 bg-white px-2 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+                  >
+                    <option value="">—</option>
+                    {UNIT_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="truncate pl-6 font-mono text-[10px] text-zinc-400">
+                  {line.source}
+                  {line.confidence < RECEIPT_MATCH_CONFIDENCE && (
+                    <span className="ml-2 font-sans font-semibold text-amber-600">check name</span>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-zinc-400">
+            No grocery items found. Try a flatter, well-lit photo of the receipt.
+          </p>
+        )}
+
+        <div className="mt-auto flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => onConfirm(items)}
+            disabled={!items.length}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add {items.length} item{items.length === 1 ? "" : "s"}
+          </button>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-full border border-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-500 transition hover:text-zinc-700"
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptImport;
@@ -0,0 +1,333 @@
+"use client";
+
+import { FormEvent, useMemo, useState } from "react";
+import type { Recipe } from "@/data/recipes";
+import { slugifyRecipeName, uniqueRecipeId, validateRecipe } from "@/lib/recipeImport";
+import { UNIT_OPTIONS, normalizeUnit } from "@/lib/units";
+import { findDuplicateRecipe } from "@/lib/userRecipes";
+import { AlertTriangle, ChevronDown, ChevronUp, GripVertical, Plus, Save, X } from "lucide-react";
+
+type IngredientRow = { key: number; name: string; quantity: string; unit: string };
+type StepRow = { key: number; text: string };
+
+let nextRowKey = 0;
+const rowKey = () => (nextRowKey += 1);
+
+const emptyIngredient = (): IngredientRow => ({
+  key: rowKey(),
+  name: "",
+  quantity: "1",
+  unit: "piece",
+});
+
+const moveRow = <T extends { key: number }>(rows: T[], fromKey: number, toIndex: number) => {
+  const from = rows.findIndex((row) => row.key === fromKey);
+  if (from < 0 || toIndex < 0 || toIndex >= rows.length || from === toIndex) return rows;
+  const next = [...rows];
+  const [moved] = next.splice(from, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
+
+const RecipeEditor = ({
+  recipe,
+  recipes,
+  onSave,
+  onCancel,
+}: {
+  // The recipe to edit; an empty id starts a new one.
+  recipe: Recipe;
+  // Every recipe, for duplicate checks and picking a free id.
+  recipes: Recipe[];
+  onSave: (recipe: Recipe) => void;
+  onCancel: () => void;
+}) => {
+  const [name, setName] = useState(recipe.name);
+  const [cuisine, setCuisine] = useState(recipe.cuisine);
+  const [description, setDescription] = useState(recipe.description);
+  const [tags, setTags] = useState(recipe.tags.join(", "));
+  const [servings, setServings] = useState(String(recipe.baseServings));
+  const [ingredients, setIngredients] = useState<IngredientRow[]>(() =>
+    recipe.ingredients.length
+      ? recipe.ingredients.map((ingredient) => ({
+          key: rowKey(),
+          name: ingredient.name,
+          quantity: String(ingredient.quantity),
+          unit: normalizeUnit(ingredient.unit) ?? ingredient.unit,
+        }))
+      : [emptyIngredient()]
+  );
+  const [steps, setSteps] = useState<StepRow[]>(() =>
+    (recipe.instructions.length ? recipe.instructions : [""]).map((text) => ({
+      key: rowKey(),
+      text,
+    }))
+  );
+  const [draggedStep, setDraggedStep] = useState<number | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const candidate = useMemo<Recipe>(
+    () => ({
+      id:
+        recipe.id ||
+        uniqueRecipeId(
+          slugifyRecipeName(name),
+          recipes.map((entry) => entry.id)
+        ),
+      name: name.trim(),
+      cuisine: cuisine.trim(),
+      description: description.trim(),
+      tags: [
+        ...new Set(
+          tags
+            .split(",")
+            .map((tag) => tag.trim().toLowerCase())
+            .filter(Boolean)
+        ),
+      ],
+      baseServings: Number(servings),
+      // Blank rows are ignored rather than reported, so a spare row never blocks saving.
+      ingredients: ingredients
+        .filter((row) => row.name.trim())
+        .map((row) => ({
+          name: row.name.trim().toLowerCase(),
+          quantity: Number(row.quantity),
+          unit: row.unit,
+        })),
+      instructions: steps.map((step) => step.text.trim()).filter(Boolean),
+    }),
+    [recipe.id, recipes, name, cuisine, description, tags, servings, ingredients, steps]
+  );
+
+  const problems = useMemo(() => validateRecipe(candidate), [candidate]);
+  const duplicate = useMemo(() => findDuplicateRecipe(candidate, recipes), [candidate, recipes]);
+  const blockingProblems =
+    duplicate?.reason === "name"
+      ? [...problems, `"${duplicate.recipe.name}" already uses this name.`]
+      : problems;
+
+  const updateIngredient = (key: number, changes: Partial<IngredientRow>) =>
+    setIngredients((rows) => rows.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+
+  const updateStep = (key: number, text: string) =>
+    setSteps((rows) => rows.map((row) => (row.key === key ? { ...row, text } : row)));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitted(true);
+    if (!blockingProblems.length) onSave(candidate);
+  };
+
+  const inputClass =
+    "rounded-full border border-zinc-200 px-3 py-1.5 text-sm focus:border-emerald-500 focus:outline-none";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-5 rounded-2xl border border-emerald-100 bg-emerald-50/30 p-5 text-sm text-zinc-600"
+    >
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Name
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className={`${inputClass} font-normal normal-case tracking-normal`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Cuisine
+          <input
+            value={cuisine}
+            onChange={(event) => setCuisine(event.target.value)}
+            className={`${inputClass} font-normal normal-case tracking-normal`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Tags
+          <input
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+            placeholder="vegan, quick"
+            className={`${inputClass} font-normal normal-case tracking-normal`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Servings
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={servings}
+            onChange={(event) => setServings(event.target.value)}
+            className={`${inputClass} font-normal normal-case tracking-normal`}
+          />
+        </label>
+      </div>
+      <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+        Description
+        <textarea
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          rows={2}
+          className="rounded-2xl border border-zinc-200 px-3 py-2 text-sm font-normal normal-case tracking-normal focus:border-emerald-500 focus:outline-none"
+        />
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">Ingredients</p>
+        {ingredients.map((row) => (
+          <div key={row.key} className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={row.quantity}
+              onChange={(event) => updateIngredient(row.key, { quantity: event.target.value })}
+              aria-label="Quantity"
+              className={`${inputClass} w-20`}
+            />
+            <select
+              value={row.unit}
+              onChange={(event) => updateIngredient(row.key, { unit: event.target.value })}
+              aria-label="Unit"
+              className={`${inputClass} bg-white`}
+            >
+              {UNIT_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              value={row.name}
+              onChange={(event) => updateIngredient(row.key, { name: event.target.value })}
+              placeholder="Ingredient"
+              aria-label="Ingredient name"
+              className={`${inputClass} w-0 flex-1`}
+            />
+            <button
+              type="button"
+              onClick={() =>
+                setIngredients((rows) => rows.filter((entry) => entry.key !== row.key))
+              }
+              aria-label={`Remove ${row.name || "ingredient"}`}
+              className="rounded-full p-1 text-zinc-400 transition hover:text-red-500"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setIngredients((rows) => [...rows, emptyIngredient()])}
+          className="inline-flex items-center gap-1 text-xs font-semibold text-emerald-600 hover:text-emerald-700"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add ingredient
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">Steps</p>
+        <ol className="space-y-2">
+          {steps.map((row, index) => (
+            <li
+              key={row.key}
+              draggable
+              onDragStart={() => setDraggedStep(row.key)}
+              onDragEnd={() => setDraggedStep(null)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={() => {
+                if (draggedStep !== null) setSteps((rows) => moveRow(rows, draggedStep, index));
+                setDraggedStep(null);
+              }}
+              className={`flex items-start gap-2 ${draggedStep === row.key ? "opacity-50" : ""}`}
+            >
+              <GripVertical className="mt-2 h-4 w-4 shrink-0 cursor-grab text-zinc-300" />
+              <span className="mt-1.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-emerald-500 text-xs font-semibold text-white">
+                {index + 1}
+              </span>
+              <textarea
+                value={row.text}
+                onChange={(event) => updateStep(row.key, event.target.value)}
+                rows={2}
+                aria-label={`Step ${index + 1}`}
+                className="w-0 flex-1 rounded-2xl border border-zinc-200 px-3 py-2 text-sm focus:border-emerald-500 focus:outline-none"
+              />
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  onClick={() => setSteps((rows) => moveRow(rows, row.key, index - 1))}
+                  disabled={index === 0}
+                  aria-label={`Move step ${index + 1} up`}
+                  className="rounded-full p-0.5 text-zinc-400 transition hover:text-emerald-600 disabled:opacity-30"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSteps((rows) => moveRow(rows, row.key, index + 1))}
+                  disabled={index === steps.length - 1}
+                  aria-label={`Move step ${index + 1} down`}
+                  className="rounded-full p-0.5 text-zinc-400 transition hover:text-emerald-600 disabled:opacity-30"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </div>
+              <button
+                type="button"
+                onClick={() => setSteps((rows) => rows.filter((entry) => entry.key !== row.key))}
+                aria-label={`Remove step ${index + 1}`}
+                className="mt-1 rounded-full p-1 text-zinc-400 transition hover:text-red-500"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button
+          type="button"
+          onClick={() => setSteps((rows) => [...rows, { key: rowKey(), text: "" }])}
+          className="inline-flex items-center gap-1 text-xs font-semibold text-emerald-600 hover:text-emerald-700"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add step
+        </button>
+      </div>
+
+      {submitted && blockingProblems.length > 0 && (
+        <ul className="space-y-1 rounded-2xl border border-red-100 bg-red-50 px-4 py-3 text-xs text-red-600">
+          {blockingProblems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      {duplicate?.reason === "ingredients" && (
+        <p className="flex items-center gap-2 text-xs text-amber-700">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Uses the same ingredients as &ldquo;{duplicate.recipe.name}&rdquo;.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="submit"
+          className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600"
+        >
+          <Save className="h-3.5 w-3.5" />
+          Save recipe
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-500 transition hover:text-zinc-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RecipeEditor;
@@ -0,0 +1,298 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import type { Recipe } from "@/data/recipes";
+import {
+  EXPLORER_SORTS,
+  ExplorerFilters,
+  ExplorerSort,
+  FacetCount,
+  exploreRecipes,
+  filtersFromQuery,
+  filtersToQuery,
+} from "@/lib/recipeSearch";
+import type { PantryItem } from "@/lib/recommendations";
+import { Check, ChevronLeft, ChevronRight, Link2, ListPlus, Play, Search, X } from "lucide-react";
+
+type FacetKey = "cuisines" | "tags" | "missing" | "servings";
+
+const FACET_TITLES: Record<FacetKey, string> = {
+  cuisines: "Cuisine",
+  tags: "Tags",
+  missing: "Missing ingredients",
+  servings: "Serves",
+};
+
+const RecipeExplorer = ({
+  recipes,
+  pantryItems,
+  selectedRecipeIds,
+  onToggleSelected,
+  onStartCooking,
+}: {
+  recipes: Recipe[];
+  pantryItems: PantryItem[];
+  selectedRecipeIds: string[];
+  onToggleSelected: (recipeId: string) => void;
+  onStartCooking: (recipe: Recipe) => void;
+}) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = useMemo(
+    () => filtersFromQuery(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  const [query, setQuery] = useState(filters.query);
+  const [copied, setCopied] = useState(false);
+
+  const result = useMemo(
+    () => exploreRecipes(recipes, pantryItems, filters),
+    [recipes, pantryItems, filters]
+  );
+
+  // Filters live in the query string so a filtered view can be shared as a link.
+  const updateFilters = useCallback(
+    (changes: Partial<ExplorerFilters>) => {
+      const next = filtersToQuery({ ...filters, page: 1, ...changes });
+      router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false });
+    },
+    [filters, pathname, router]
+  );
+
+  useEffect(() => {
+    if (query === filters.query) return;
+    const timeout = setTimeout(() => updateFilters({ query }), 300);
+    return () => clearTimeout(timeout);
+  }, [query, filters.query, updateFilters]);
+
+  const toggleFacet = (facet: FacetKey, value: string) => {
+    const current: string[] = filters[facet];
+    updateFilters({
+      [facet]: current.includes(value)
+        ? current.filter((entry) => entry !== value)
+        : [...current, value],
+    });
+  };
+
+  const hasFilters =
+    Boolean(filters.query) ||
+    filters.cuisines.length +
+      filters.tags.length +
+      filters.missing.length +
+      filters.servings.length >
+      0;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const renderFacet = (facet: FacetKey, counts: FacetCount[]) =>
+    counts.length > 0 && (
+      <div key={facet} className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          {FACET_TITLES[facet]}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {counts.map(({ value, count }) => {
+            const active = (filters[facet] as string[]).includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggleFacet(facet, value)}
+                aria-pressed={active}
+                disabled={!count && !active}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition disabled:opacity-40 ${
+                  active
+                    ? "bg-emerald-500 text-white"
+                    : "border border-zinc-200 text-zinc-500 hover:border-emerald-200 hover:text-emerald-600"
+                }`}
+              >
+                {value} <span className="font-normal opacity-70">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+
+  return (
+    <section className="space-y-6">
+      <div className="rounded-3xl border border-zinc-100 bg-white/90 p-8 shadow-lg shadow-zinc-100/60 backdrop-blur">
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-semibold text-zinc-900">
+              <Search className="h-5 w-5 text-emerald-500" />
+              Browse all recipes
+            </h2>
+            <p className="mt-2 text-sm text-zinc-600">
+              Search by name, description or ingredient and narrow down with filters. The link keeps
+              your filters, so you can share this view.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => void handleCopyLink()}
+            className="inline-flex items-center gap-2 rounded-full border border-emerald-200 px-4 py-2 text-xs font-semibold text-emerald-600 transition hover:bg-emerald-50"
+          >
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Link2 className="h-3.5 w-3.5" />}
+            {copied ? "Link copied" : "Copy link"}
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-col gap-3 sm:flex-row">
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search recipes, e.g. chickpea or quick"
+            aria-label="Search recipes"
+            className="flex-1 rounded-full border border-zinc-200 px-4 py-2 text-sm focus:border-emerald-500 focus:outline-none"
+          />
+          <select
+            value={filters.sort}
+            onChange={(event) => updateFilters({ sort: event.target.value as ExplorerSort })}
+            aria-label="Sort recipes"
+            className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-sm focus:border-emerald-500 focus:outline-none"
+          >
+            {EXPLORER_SORTS.map((sort) => (
+              <option key={sort.id} value={sort.id}>
+                {sort.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mt-6 grid gap-8 lg:grid-cols-[16rem,1fr]">
+          <aside className="space-y-5">
+            {renderFacet("cuisines", result.facets.cuisines)}
+            {renderFacet("tags", result.facets.tags)}
+            {renderFacet("missing", result.facets.missing)}
+            {renderFacet("servings", result.facets.servings)}
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => {
+                  setQuery("");
+                  updateFilters({ query: "", cuisines: [], tags: [], missing: [], servings: [] });
+                }}
+                className="inline-flex items-center gap-1 text-xs font-semibold text-zinc-500 hover:text-zinc-700"
+              >
+                <X className="h-3.5 w-3.5" />
+                Clear filters
+              </button>
+            )}
+          </aside>
+
+          <div className="space-y-4">
+            <p className="text-xs text-zinc-500">
+              {result.total} recipe{result.total === 1 ? "" : "s"}
+            </p>
+            {result.entries.length ? (
+              <ul className="grid gap-4 md:grid-cols-2">
+                {result.entries.map(({ recipe, missingIngredients, caloriesPerServing }) => {
+                  const selected = selectedRecipeIds.includes(recipe.id);
+                  const have = recipe.ingredients.length - missingIngredients.length;
+                  return (
+                    <li
+                      key={recipe.id}
+                      className="flex flex-col gap-3 rounded-2xl border border-zinc-100 bg-zinc-50/80 p-4 text-sm"
+                    >
+                      <div>
+                        <p className="font-semibold text-zinc-900">{recipe.name}</p>
+                        <p className="text-xs text-zinc-500">
+                          {[
+                            recipe.cuisine,
+                            `serves ${recipe.baseServings}`,
+                            `≈${Math.round(caloriesPerServing)} kcal per serving`,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </div>
+                      <p className="line-clamp-2 text-xs text-zinc-600">{recipe.description}</p>
+                      <p className="text-xs text-zinc-500">
+                        {pantryItems.length
+                          ? missingIngredients.length
+                            ? `Have ${have} of ${recipe.ingredients.length} · missing ${missingIngredients.join(", ")}`
+                            : "Everything is in your pantry"
+                          : `${recipe.ingredients.length} ingredients`}
+                      </p>
+                      <div className="mt-auto flex flex-wrap gap-2 text-xs">
+                        <button
+                          type="button"
+                          onClick={() => onToggleSelected(recipe.id)}
+                          aria-pressed={selected}
+                          className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 font-semibold transition ${
+                            selected
+                              ? "bg-emerald-500 text-white hover:bg-emerald-600"
+                              : "border border-emerald-200 text-emerald-600 hover:bg-emerald-50"
+                          }`}
+                        >
+                          {selected ? (
+                            <Check className="h-3.5 w-3.5" />
+                          ) : (
+                            <ListPlus className="h-3.5 w-3.5" />
+                          )}
+                          {selected ? "On shopping list" : "Add to shopping list"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onStartCooking(recipe)}
+                          className="inline-flex items-center gap-1.5 rounded-full border border-zinc-200 px-3 py-1 font-semibold text-zinc-600 transition hover:text-emerald-600"
+                        >
+                          <Play className="h-3.5 w-3.5" />
+                          Cook
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="rounded-2xl border border-dashed border-zinc-200 p-8 text-center text-sm text-zinc-500">
+                No recipes match. Try fewer filters or a different search.
+              </p>
+            )}
+
+            {result.pageCount > 1 && (
+              <div className="flex items-center justify-between text-xs font-semibold text-zinc-500">
+                <button
+                  type="button"
+                  onClick={() => updateFilters({ page: result.page - 1 })}
+                  disabled={result.page <= 1}
+                  className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 transition hover:text-emerald-600 disabled:opacity-40"
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                  Previous
+                </button>
+                <span>
+                  Page {result.page} of {result.pageCount}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateFilters({ page: result.page + 1 })}
+                  disabled={result.page >= result.pageCount}
+                  className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 transition hover:text-emerald-600 disabled:opacity-40"
+                >
+                  Next
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RecipeExplorer;
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import type { Recipe } from "@/data/recipes";
+import { RecipeImportResult, importRecipe, uniqueRecipeId } from "@/lib/recipeImport";
+import { formatAmount } from "@/lib/units";
+import { findDuplicateRecipe } from "@/lib/userRecipes";
+import { AlertTriangle, BookPlus, Download, Loader2 } from "lucide-react";
+
+const PLACEHOLDER = `Grandma's Lentil Soup
+Serves 4
+Cuisine: Indian
+
+Ingredients
+1 cup red lentils
+2 carrots, diced
+1 tsp cumin
+Salt to taste
+
+Instructions
+1. Rinse the lentils.
+2. Simmer everything for 25 minutes.`;
+
+const RecipeImporter = ({
+  recipes,
+  onSave,
+}: {
+  // Every recipe, for duplicate checks and picking a free id.
+  recipes: Recipe[];
+  onSave: (recipe: Recipe) => void;
+}) => {
+  const [source, setSource] = useState("");
+  const [url, setUrl] = useState("");
+  const [fetching, setFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [result, setResult] = useState<RecipeImportResult | null>(null);
+
+  // Most recipe sites block cross-origin requests, so pasting the page source is the fallback.
+  const handleFetch = async () => {
+    setFetching(true);
+    setFetchError(null);
+    try {
+      const response = await fetch(url.trim());
+      if (!response.ok) throw new Error(`The site answered ${response.status}.`);
+      const html = await response.text();
+      setSource(html);
+      setResult(importRecipe(html));
+    } catch (error) {
+      setFetchError(
+        `${error instanceof Error ? `${error.message} ` : ""}The site may not allow loading it from here. Open the page, view its source and paste it below instead.`
+      );
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!result?.ok) return;
+    const id = uniqueRecipeId(
+      result.recipe.id,
+      recipes.map((recipe) => recipe.id)
+    );
+    onSave({ ...result.recipe, id });
+    setSource("");
+    setUrl("");
+    setResult(null);
+  };
+
+  const duplicate = result?.ok ? findDuplicateRecipe(result.recipe, recipes) : undefined;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            placeholder="https://example.com/recipe"
+            aria-label="Recipe page address"
+            className="w-0 flex-1 rounded-full border border-zinc-200 px-4 py-2 text-sm focus:border-emerald-500 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={handleFetch}
+            disabled={!url.trim() || fetching}
+            className="inline-flex items-center gap-2 rounded-full border border-emerald-200 px-4 py-2 text-xs font-semibold text-emerald-600 transition hover:bg-emerald-50 disabled:opacity-50"
+          >
+            {fetching ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Download className="h-3.5 w-3.5" />
+            )}
+            Fetch
+          </button>
+        </div>
+        {fetchError && <p className="text-xs text-red-600">{fetchError}</p>}
+        <textarea
+          value={source}
+          onChange={(event) => {
+            setSource(event.target.value);
+            setResult(null);
+          }}
+          placeholder={PLACEHOLDER}
+          rows={12}
+          aria-label="Recipe HTML or text"
+          className="w-full rounded-2xl border border-zinc-200 px-4 py-3 font-mono text-xs focus:border-emerald-500 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => setResult(importRecipe(source))}
+          disabled={!source.trim()}
+          className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-600 disabled:opacity-50"
+        >
+          Read recipe
+        </button>
+      </div>
+
+      <div className="space-y-4 text-sm text-zinc-600">
+        {result && !result.ok && (
+          <div className="space-y-2 rounded-2xl border border-red-100 bg-red-50 p-4 text-red-700">
+            <p className="flex items-center gap-2 font-semibold">
+              <AlertTriangle className="h-4 w-4" />
+              The recipe could not be imported
+            </p>
+            <ul className="space-y-1 text-xs">
+              {result.issues.map((issue, index) => (
+                <li key={`${issue.line}-${index}`}>
+                  <span className="font-semibold">Line {issue.line}:</span> {issue.message}
+                  {issue.text && (
+                    <span className="block truncate font-mono text-[10px] text-red-500">
+                      {issue.text}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result?.ok && (
+          <div className="space-y-3 rounded-2xl border border-emerald-100 bg-emerald-50/50 p-4">
+            <div>
+              <p className="text-lg font-semibold text-zinc-900">{result.recipe.name}</p>
+              <p className="text-xs text-zinc-500">
+                {[
+                  result.recipe.cuisine,
+                  `${result.recipe.baseServings} servings`,
+                  result.format === "json-ld" ? "from page data" : "from text",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </div>
+            <ul className="grid gap-1 text-xs sm:grid-cols-2">
+              {result.recipe.ingredients.map((ingredient, index) => (
+                <li key={`${ingredient.name}-${index}`}>
+                  {formatAmount(ingredient.quantity, ingredient.unit)} {ingredient.name}
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-zinc-500">
+              {result.recipe.instructions.length} step
+              {result.recipe.instructions.length === 1 ? "" : "s"}
+            </p>
+            {duplicate && (
+              <p className="flex items-center gap-2 text-xs text-amber-700">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {duplicate.reason === "name" ? "Same name as" : "Same ingredients as"} &ldquo;
+                {duplicate.recipe.name}&rdquo;.
+              </p>
+            )}
+            {result.warnings.length > 0 && (
+              <ul className="space-y-1 text-xs text-amber-700">
+                {result.warnings.map((warning, index) => (
+                  <li key={`${warning.line}-${index}`}>
+                    Line {warning.line}: {warning.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600"
+            >
+              <BookPlus className="h-3.5 w-3.5" />
+              Save to my recipes
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecipeImporter;
@@ -1,81 +1,93 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { RECIPES } from "@/data/recipes";
-import { PantryItem, Recommendation, mergePantryItems, scoreRecipes } from "@/lib/recommendations";
-import { Camera, Loader2, Plus, SlidersHorizontal, Trash2, Upload } from "lucide-react";
-import NextImage from "next/image";
-
-const allowedVisionLabels = new Set([
-  "apple",
-  "banana",
-  "orange",
-  "carrot",
-  "broccoli",
-  "cucumber",
-  "tomato",
-  "potato",
-  "lemon",
-  "lime",
-  "pepper",
-  "bell pepper",
-  "cabbage",
-  "lettuce",
-  "onion",
-  "garlic",
-  "zucchini",
-  "eggplant",
-  "avocado",
-  "mushroom",
-  "egg",
-  "bread",
-  "sandwich",
-  "pizza",
-  "cake",
-  "donut",
-  "bowl",
-  "apple",
-  "banana",
-  "grapes",
-  "kiwi",
-  "strawberry",
-  "pineapple",
-  "cheese",
-  "yogurt",
-]);
-
-type CocoSsdModule = typeof import("@tensorflow-models/coco-ssd");
-
-let modelPromise: Promise<Awaited<ReturnType<CocoSsdModule["load"]>>> | null = null;
-
-const loadVisionModel = async () => {
-  if (!modelPromise) {
-    modelPromise = import("@tensorflow-models/coco-ssd").then(async (mod) => {
-      await import("@tensorflow/tfjs");
-      return mod.load();
-    });
-  }
-  return modelPromise;
-};
-
-const parseManualEntry = (input: string): PantryItem[] => {
-  return input
-    .split(/,|\n/)
-    .map((entry) => entry.trim())
-    .filter(Boolean)
-    .map((entry) => {
-      const match = entry.match(/^(\d+(?:\.\d+)?)\s*(\w+)?\s+(.*)$/);
-      if (match) {
-        const [, qty, unit, name] = match;
-        const prettyName = unit ? `${unit} ${name}` : name;
-        return {
-          name: prettyName.trim(),
-          quantity: parseFloat(qty),
-        };
-      }
-      return { name: entry };
-    });
-};
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FACT_LABELS } from "@/data/allergens";
+import {
+  PantryItem,
+  RankingMode,
+  Recommendation,
+  mergePantryItems,
+  scoreRecipes,
+} from "@/lib/recommendations";
+import { UNIT_OPTIONS, formatAmount, formatQuantity, getUnit } from "@/lib/units";
+import {
+  CookingHistoryEntry,
+  createHistoryEntry,
+  loadHistory,
+  revertHistoryEntry,
+  saveHistory,
+} from "@/lib/cookingHistory";
+import { recipeFacts } from "@/lib/dietary";
+import {
+  ExpiryStatus,
+  PantryDeduction,
+  STORAGE_LOCATIONS,
+  StorageLocation,
+  applyDeductions,
+  daysUntilExpiry,
+  expiryStatus,
+  previewDeductions,
+  stampPantryItem,
+} from "@/lib/pantry";
+import {
+  DEFAULT_DETECTION_THRESHOLD,
+  Detection,
+  VisionReview,
+  averageScore,
+  detectionsAbove,
+} from "@/lib/detections";
+import { QueuedPhoto, isPhotoActive } from "@/lib/photoQueue";
+import {
+  needsReview,
+  parseIngredientText,
+  parsedPantryItem,
+  splitIngredientEntries,
+} from "@/lib/ingredientParser";
+import type { ShoppingSelection } from "@/lib/shoppingList";
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, saveSettings } from "@/lib/settings";
+import { VISION_PROVIDERS, getVisionProvider } from "@/lib/vision";
+import { registerServiceWorker } from "@/lib/offline";
+import { UserRecipe, allRecipes, loadUserRecipes, saveUserRecipes } from "@/lib/userRecipes";
+import { CookSession, loadCookSession, saveCookSession, startCookSession } from "@/lib/cookMode";
+import type { SharedSession } from "@/lib/sessionShare";
+import { useHouseholds } from "@/hooks/useHouseholds";
+import { usePersistedState } from "@/hooks/usePersistedState";
+import { usePhotoQueue } from "@/hooks/usePhotoQueue";
+import Cookbook from "@/components/Cookbook";
+import CookMode from "@/components/CookMode";
+import DetectionReview from "@/components/DetectionReview";
+import DietaryProfilePanel from "@/components/DietaryProfilePanel";
+import HouseholdSwitcher from "@/components/HouseholdSwitcher";
+import LiveScanner from "@/components/LiveScanner";
+import ReceiptImport from "@/components/ReceiptImport";
+import MealPlanner from "@/components/MealPlanner";
+import ModelStatus from "@/components/ModelStatus";
+import NutritionFacts from "@/components/NutritionFacts";
+import NutritionTargetsPanel from "@/components/NutritionTargetsPanel";
+import ParsedEntryPreview from "@/components/ParsedEntryPreview";
+import PhotoQueue from "@/components/PhotoQueue";
+import RecipeExplorer from "@/components/RecipeExplorer";
+import ScoreWeightsPanel from "@/components/ScoreWeightsPanel";
+import SessionSharePanel from "@/components/SessionSharePanel";
+import ShoppingListPanel from "@/components/ShoppingListPanel";
+import TastePreferencesPanel from "@/components/TastePreferencesPanel";
+import WhyThisRecipe from "@/components/WhyThisRecipe";
+import {
+  CalendarClock,
+  Camera,
+  Check,
+  ChefHat,
+  ListPlus,
+  Loader2,
+  Play,
+  Plus,
+  ReceiptText,
+  ShieldAlert,
+  SlidersHorizontal,
+  Trash2,
+  Undo2,
+  Upload,
+} from "lucide-react";
 
 const toTitleCase = (value: string) =>
   value
@@ -85,18 +97,50 @@ const toTitleCase = (value: string) =>
 
 const formatStatus = (status: number) => Math.round(Math.min(status * 100, 100));
 
+const expiryStyles: Record<ExpiryStatus, string> = {
+  expired: "border-red-300 bg-red-50",
+  soon: "border-amber-300 bg-amber-50",
+  fresh: "border-zinc-200 bg-white",
+  unknown: "border-zinc-200 bg-white",
+};
+
+const describeExpiry = (expiresOn?: string) => {
+  const days = daysUntilExpiry(expiresOn);
+  if (days === null) return null;
+  if (days < 0) return `expired ${-days}d ago`;
+  if (days === 0) return "expires today";
+  return `${days}d left`;
+};
+
 const IngredientChip = ({
   item,
   onRemove,
-  onQuantityChange,
+  onUpdate,
 }: {
   item: PantryItem;
   onRemove: () => void;
-  onQuantityChange: (quantity: number | undefined) => void;
+  onUpdate: (changes: Partial<PantryItem>) => void;
 }) => {
+  const [expanded, setExpanded] = useState(false);
+  const status = expiryStatus(item.expiresOn);
+  const expiryLabel = describeExpiry(item.expiresOn);
+
   return (
-    <div className="flex items-center gap-2 rounded-full border border-zinc-200 bg-white px-4 py-2 shadow-sm transition hover:-translate-y-0.5 hover:shadow-md">
+    <div
+      className={`flex flex-wrap items-center gap-2 border px-4 py-2 shadow-sm transition hover:-translate-y-0.5 hover:shadow-md ${
+        expanded ? "rounded-2xl" : "rounded-full"
+      } ${expiryStyles[status]}`}
+    >
       <span className="text-sm font-medium text-zinc-800">{toTitleCase(item.name)}</span>
+      {expiryLabel && (
+        <span
+          className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${
+            status === "fresh" ? "bg-zinc-100 text-zinc-500" : "bg-white/80 text-amber-700"
+          }`}
+        >
+          {expiryLabel}
+        </span>
+      )}
       <input
         className="w-16 rounded-full border border-zinc-200 px-2 py-1 text-xs text-zinc-600 focus:border-emerald-500 focus:outline-none"
         type="number"
@@ -106,9 +150,30 @@ const IngredientChip = ({
         value={item.quantity ?? ""}
         onChange={(event) => {
           const value = event.target.value;
-          onQuantityChange(value === "" ? undefined : Number.parseFloat(value));
+          onUpdate({ quantity: value === "" ? undefined : Number.parseFloat(value) });
         }}
       />
+      <select
+        className="rounded-full border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-600 focus:border-emerald-500 focus:outline-none"
+        value={getUnit(item.unit).id}
+        onChange={(event) => onUpdate({ unit: event.target.value })}
+        aria-label={`Unit for ${item.name}`}
+      >
+        {UNIT_OPTIONS.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="rounded-full border border-transparent p-1 text-zinc-400 transition hover:border-emerald-200 hover:bg-emerald-50 hover:text-emerald-600"
+        onClick={() => setExpanded((value) => !value)}
+        aria-expanded={expanded}
+        aria-label={`Edit storage details for ${item.name}`}
+      >
+        <CalendarClock className="h-3.5 w-3.5" />
+      </button>
       <button
         type="button"
         className="rounded-full border border-transparent p-1 text-zinc-400 transition hover:border-red-200 hover:bg-red-50 hover:text-red-500"
@@ -117,35 +182,168 @@ const IngredientChip = ({
       >
         <Trash2 className="h-3.5 w-3.5" />
       </button>
+      {expanded && (
+        <div className="flex w-full flex-wrap items-center gap-3 pt-1 text-xs text-zinc-500">
+          <label className="flex items-center gap-1">
+            Added
+            <input
+              type="date"
+              value={item.addedOn ?? ""}
+              onChange={(event) => onUpdate({ addedOn: event.target.value || undefined })}
+              className="rounded-full border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-600 focus:border-emerald-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Expires
+            <input
+              type="date"
+              value={item.expiresOn ?? ""}
+              onChange={(event) => onUpdate({ expiresOn: event.target.value || undefined })}
+              className="rounded-full border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-600 focus:border-emerald-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Stored in
+            <select
+              value={item.location ?? ""}
+              onChange={(event) =>
+                onUpdate({ location: (event.target.value || undefined) as StorageLocation })
+              }
+              className="rounded-full border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-600 focus:border-emerald-500 focus:outline-none"
+            >
+              <option value="">—</option>
+              {STORAGE_LOCATIONS.map((location) => (
+                <option key={location} value={location}>
+                  {location}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
     </div>
   );
 };
 
-const RecipeCard = ({ recommendation }: { recommendation: Recommendation }) => {
-  const { recipe, matchedIngredients, missingIngredients } = recommendation;
-  const [servings, setServings] = useState<number>(recipe.baseServings);
+const rankingOptions: { id: RankingMode; label: string }[] = [
+  { id: "match", label: "Best match" },
+  { id: "use-it-up", label: "Use it up" },
+  { id: "fewest-missing", label: "Fewest missing" },
+  { id: "servings", label: "Most servings" },
+];
 
-  const multiplier = servings / recipe.baseServings;
+const CookedPreview = ({
+  deductions,
+  onConfirm,
+  onCancel,
+}: {
+  deductions: PantryDeduction[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}) => (
+  <div className="space-y-3 rounded-2xl border border-emerald-200 bg-emerald-50/60 p-4 text-sm text-zinc-700">
+    <p className="text-xs font-semibold uppercase tracking-wide text-emerald-600">
+      This will update your pantry
+    </p>
+    {deductions.length ? (
+      <ul className="space-y-1">
+        {deductions.map((deduction) => (
+          <li key={deduction.pantryName} className="flex justify-between gap-4">
+            <span className="font-medium">{toTitleCase(deduction.pantryName)}</span>
+            <span className="text-right text-zinc-500">
+              {deduction.amount === undefined
+                ? "quantity not tracked"
+                : deduction.removesItem
+                  ? `use all ${formatAmount(deduction.amount, deduction.unit)} · remove`
+                  : `−${formatAmount(deduction.amount, deduction.unit)} · ${formatAmount(
+                      deduction.remaining ?? 0,
+                      deduction.unit
+                    )} left`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-zinc-500">None of this recipe&apos;s ingredients are in your pantry.</p>
+    )}
+    <div className="flex gap-2">
+      <button
+        type="button"
+        onClick={onConfirm}
+        className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-600"
+      >
+        <Check className="h-3.5 w-3.5" />
+        Apply
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-semibold text-zinc-500 transition hover:text-zinc-700"
+      >
+        Cancel
+      </button>
+    </div>
+  </div>
+);
 
-  const formatQuantity = (quantity: number) => {
-    if (quantity < 1) {
-      return Number.parseFloat(quantity.toFixed(2));
-    }
-    if (Number.isInteger(quantity)) {
-      return quantity;
-    }
-    return Number.parseFloat(quantity.toFixed(1));
-  };
+const RecipeCard = ({
+  recommendation,
+  pantryItems,
+  selected,
+  onServingsChange,
+  onToggleSelected,
+  onCooked,
+  onStartCooking,
+}: {
+  recommendation: Recommendation;
+  pantryItems: PantryItem[];
+  selected: boolean;
+  onServingsChange: (servings: number) => void;
+  onToggleSelected: () => void;
+  onCooked: (deductions: PantryDeduction[]) => void;
+  onStartCooking: () => void;
+}) => {
+  const { recipe, servings, matchedIngredients, missingIngredients, coverage, matches, swaps } =
+    recommendation;
+  const swapList = Object.values(swaps);
+  const facts = useMemo(() => recipeFacts(recipe), [recipe]);
+  const [previewingCook, setPreviewingCook] = useState(false);
+  const deductions = useMemo(
+    () => (previewingCook ? previewDeductions(recipe, servings, pantryItems) : []),
+    [previewingCook, recipe, servings, pantryItems]
+  );
 
   return (
     <article className="rounded-3xl border border-zinc-100 bg-white/90 shadow-lg shadow-emerald-100/40 backdrop-blur transition hover:-translate-y-1 hover:shadow-emerald-200/60">
       <div className="flex flex-col gap-6 p-8">
         <div className="flex flex-col gap-2">
-          <span className="text-sm font-semibold uppercase tracking-wide text-emerald-600">
-            {recipe.cuisine}
-          </span>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-emerald-600">
+              {recipe.cuisine}
+            </span>
+            {recommendation.cookableWithSwaps && (
+              <span className="rounded-full bg-amber-50 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-amber-600">
+                Cookable with swaps
+              </span>
+            )}
+          </div>
           <h3 className="text-2xl font-semibold text-zinc-900">{recipe.name}</h3>
           <p className="text-sm text-zinc-600">{recipe.description}</p>
+          {recommendation.dietaryConflicts.length > 0 && (
+            <div className="mt-2 rounded-2xl border border-red-100 bg-red-50/80 p-3 text-xs text-red-700">
+              <p className="flex items-center gap-1.5 font-semibold">
+                <ShieldAlert className="h-3.5 w-3.5" />
+                Breaks your dietary profile
+              </p>
+              <ul className="mt-1 space-y-0.5">
+                {recommendation.dietaryConflicts.map((conflict) => (
+                  <li key={conflict.ingredient}>
+                    {toTitleCase(conflict.ingredient)}: {conflict.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="flex flex-wrap gap-2 pt-2">
             {recipe.tags.map((tag) => (
               <span
@@ -156,6 +354,11 @@ const RecipeCard = ({ recommendation }: { recommendation: Recommendation }) => {
               </span>
             ))}
           </div>
+          {facts.length > 0 && (
+            <p className="text-xs text-zinc-500">
+              Contains {facts.map((fact) => FACT_LABELS[fact]).join(" · ")}
+            </p>
+          )}
         </div>
 
         <div className="flex flex-col gap-3 rounded-2xl bg-gradient-to-br from-zinc-50 to-white p-4">
@@ -172,7 +375,7 @@ const RecipeCard = ({ recommendation }: { recommendation: Recommendation }) => {
             max={recipe.baseServings * 2}
             step={1}
             value={servings}
-            onChange={(event) => setServings(Number.parseInt(event.target.value, 10))}
+            onChange={(event) => onServingsChange(Number.parseInt(event.target.value, 10))}
             className="accent-emerald-500"
           />
         </div>
@@ -183,28 +386,90 @@ const RecipeCard = ({ recommendation }: { recommendation: Recommendation }) => {
               Adjusted ingredients
             </h4>
             <ul className="space-y-3 text-sm text-zinc-700">
-              {recipe.ingredients.map((ingredient) => (
-                <li key={ingredient.name} className="flex items-start justify-between gap-4">
-                  <div className="flex-1">
-                    <span className="font-medium">{toTitleCase(ingredient.name)}</span>
-                    {matchedIngredients.includes(ingredient.name) && (
-                      <span className="ml-2 inline-flex items-center rounded-full bg-emerald-50 px-2 py-0.5 text-[10px] font-semibold uppercase text-emerald-600">
-                        in pantry
-                      </span>
-                    )}
-                  </div>
-                  <span className="text-right text-zinc-500">
-                    {formatQuantity(ingredient.quantity * multiplier)} {ingredient.unit}
-                  </span>
-                </li>
-              ))}
+              {recipe.ingredients.map((ingredient) => {
+                const { required, available, shortfall } = coverage[ingredient.name];
+                const inPantry = matchedIngredients.includes(ingredient.name);
+                const match = matches[ingredient.name];
+                return (
+                  <li key={ingredient.name} className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <span className="font-medium">{toTitleCase(ingredient.name)}</span>
+                      {inPantry && available === undefined && (
+                        <span className="ml-2 inline-flex items-center rounded-full bg-emerald-50 px-2 py-0.5 text-[10px] font-semibold uppercase text-emerald-600">
+                          in pantry
+                        </span>
+                      )}
+                      {available !== undefined && (
+                        <span
+                          className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${
+                            shortfall > 0
+                              ? "bg-orange-50 text-orange-500"
+                              : "bg-emerald-50 text-emerald-600"
+                          }`}
+                        >
+                          have {formatQuantity(available)} of {formatQuantity(required)}
+                        </span>
+                      )}
+                      {match && match.kind !== "exact" && (
+                        <span
+                          className="block text-xs text-indigo-500"
+                          title={`Matched by ${match.kind} with ${formatStatus(match.confidence)}% confidence`}
+                        >
+                          Using {toTitleCase(match.name)} · {formatStatus(match.confidence)}% match
+                        </span>
+                      )}
+                      {shortfall > 0 && inPantry && (
+                        <span className="block text-xs text-orange-400">
+                          Short by {formatAmount(shortfall, ingredient.unit)}
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-right text-zinc-500">
+                      {formatAmount(required, ingredient.unit)}
+                    </span>
+                  </li>
+                );
+              })}
             </ul>
           </section>
 
           <section className="space-y-3">
-            <h4 className="text-sm font-semibold uppercase tracking-wide text-zinc-500">
-              Cooking flow
-            </h4>
+            {swapList.length > 0 && (
+              <div className="space-y-2 rounded-2xl border border-amber-100 bg-amber-50/60 p-4">
+                <h4 className="text-sm font-semibold uppercase tracking-wide text-amber-600">
+                  Suggested swaps
+                </h4>
+                <ul className="space-y-2 text-sm text-zinc-700">
+                  {swapList.map((swap) => (
+                    <li key={swap.original}>
+                      <span className="font-medium">{toTitleCase(swap.original)}</span> →{" "}
+                      {swap.replacements
+                        .map(
+                          (replacement) =>
+                            `${formatAmount(replacement.quantity, replacement.unit)} ${
+                              replacement.pantryName
+                            }`
+                        )
+                        .join(" + ")}
+                      <p className="text-xs text-zinc-500">{swap.notes}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex items-center justify-between gap-3">
+              <h4 className="text-sm font-semibold uppercase tracking-wide text-zinc-500">
+                Cooking flow
+              </h4>
+              <button
+                type="button"
+                onClick={onStartCooking}
+                className="inline-flex items-center gap-1.5 rounded-full border border-emerald-200 px-3 py-1 text-xs font-semibold text-emerald-600 transition hover:bg-emerald-50"
+              >
+                <Play className="h-3.5 w-3.5" />
+                Cook mode
+              </button>
+            </div>
             <ol className="space-y-3 text-sm text-zinc-700">
               {recipe.instructions.map((step, index) => (
                 <li key={step} className="flex gap-3">
@@ -218,144 +483,458 @@ const RecipeCard = ({ recommendation }: { recommendation: Recommendation }) => {
           </section>
         </div>
 
-        <div className="flex flex-wrap gap-2 text-xs">
+        <NutritionFacts
+          nutrition={recommendation.nutrition}
+          goals={recommendation.nutritionGoals}
+        />
+
+        <WhyThisRecipe recommendation={recommendation} />
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
           <span className="rounded-full bg-emerald-50 px-3 py-1 font-medium text-emerald-600">
             Pantry matches: {matchedIngredients.length}
           </span>
           <span className="rounded-full bg-orange-50 px-3 py-1 font-medium text-orange-500">
             Missing items: {missingIngredients.length}
           </span>
+          <span className="rounded-full bg-indigo-50 px-3 py-1 font-medium text-indigo-600">
+            Covered: {formatStatus(recommendation.coveredFraction)}%
+          </span>
+          {recommendation.servingsPossible !== null && (
+            <span className="rounded-full bg-zinc-100 px-3 py-1 font-medium text-zinc-600">
+              Pantry makes {recommendation.servingsPossible} serving
+              {recommendation.servingsPossible === 1 ? "" : "s"}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={onToggleSelected}
+            aria-pressed={selected}
+            className={`ml-auto inline-flex items-center gap-1.5 rounded-full px-3 py-1 font-semibold transition ${
+              selected
+                ? "bg-emerald-500 text-white hover:bg-emerald-600"
+                : "border border-emerald-200 text-emerald-600 hover:bg-emerald-50"
+            }`}
+          >
+            {selected ? <Check className="h-3.5 w-3.5" /> : <ListPlus className="h-3.5 w-3.5" />}
+            {selected ? "On shopping list" : "Add to shopping list"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setPreviewingCook((value) => !value)}
+            aria-expanded={previewingCook}
+            className="inline-flex items-center gap-1.5 rounded-full border border-zinc-200 px-3 py-1 font-semibold text-zinc-600 transition hover:border-emerald-200 hover:text-emerald-600"
+          >
+            <ChefHat className="h-3.5 w-3.5" />
+            Mark as cooked
+          </button>
         </div>
+
+        {previewingCook && (
+          <CookedPreview
+            deductions={deductions}
+            onConfirm={() => {
+              onCooked(deductions);
+              setPreviewingCook(false);
+            }}
+            onCancel={() => setPreviewingCook(false)}
+          />
+        )}
       </div>
     </article>
   );
 };
 
 const RecipeRecommender = () => {
-  const [pantryItems, setPantryItems] = useState<PantryItem[]>([]);
+  const {
+    households,
+    setHouseholds,
+    profile,
+    updateActive,
+    setPantryItems,
+    setPantryOf,
+    setDietaryProfile,
+    preferences,
+    storage: pantryStorage,
+  } = useHouseholds();
+  const pantryItems = profile.pantry;
+  const profileNames = new Map(households.profiles.map(({ id, name }) => [id, name]));
+  const dietaryProfile = profile.dietary;
   const [manualEntry, setManualEntry] = useState("");
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [visionLoading, setVisionLoading] = useState(false);
   const [visionStatus, setVisionStatus] = useState<string | null>(null);
-  const [visionConfidence, setVisionConfidence] = useState<number>(0);
+  const [visionReview, setVisionReview] = useState<VisionReview | null>(null);
+  const [liveScanning, setLiveScanning] = useState(false);
+  const [receiptImage, setReceiptImage] = useState<string | null>(null);
+  const [settings, setSettings] = usePersistedState<AppSettings>(
+    DEFAULT_SETTINGS,
+    loadSettings,
+    saveSettings
+  );
+  const visionProvider = getVisionProvider(settings.visionProvider);
+  const {
+    photos,
+    busy: visionLoading,
+    enqueue: enqueuePhotos,
+    cancel: cancelPhoto,
+    remove: removePhoto,
+    saveReview: savePhotoReview,
+    clear: clearPhotos,
+  } = usePhotoQueue(visionProvider);
+  const visionConfidence = useMemo(() => {
+    const detections = photos.flatMap((photo) => photo.detections);
+    const likely = detectionsAbove(detections, DEFAULT_DETECTION_THRESHOLD);
+    return averageScore(likely.length ? likely : detections);
+  }, [photos]);
+  const [servingsByRecipe, setServingsByRecipe] = useState<Record<string, number>>({});
+  const [rankBy, setRankBy] = useState<RankingMode>("match");
+  const [selectedRecipeIds, setSelectedRecipeIds] = useState<string[]>([]);
+  const [history, setHistory] = usePersistedState<CookingHistoryEntry[]>(
+    [],
+    loadHistory,
+    saveHistory
+  );
+  const [userRecipes, setUserRecipes] = usePersistedState<UserRecipe[]>(
+    [],
+    loadUserRecipes,
+    saveUserRecipes
+  );
+  const recipes = useMemo(() => allRecipes(userRecipes), [userRecipes]);
+  const cuisines = useMemo(
+    () => [...new Set(recipes.map((recipe) => recipe.cuisine).filter(Boolean))].sort(),
+    [recipes]
+  );
+  const [cookSession, setCookSession] = usePersistedState<CookSession | null>(
+    null,
+    loadCookSession,
+    saveCookSession
+  );
+  const cookingRecipe = cookSession
+    ? recipes.find((recipe) => recipe.id === cookSession.recipeId)
+    : undefined;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
 
   const recommendations = useMemo(
-    () => scoreRecipes(RECIPES, pantryItems),
-    [pantryItems]
+    () =>
+      scoreRecipes(recipes, pantryItems, {
+        servings: servingsByRecipe,
+        rankBy,
+        history,
+        dietary: preferences.dietary,
+        dislikedIngredients: preferences.dislikedIngredients,
+        favouriteCuisines: preferences.favouriteCuisines,
+        nutrition: settings.nutritionTargets,
+        weights: settings.scoreWeights,
+      }),
+    [
+      recipes,
+      pantryItems,
+      servingsByRecipe,
+      rankBy,
+      history,
+      preferences,
+      settings.nutritionTargets,
+      settings.scoreWeights,
+    ]
+  );
+
+  const handleServingsChange = useCallback((recipeId: string, servings: number) => {
+    setServingsByRecipe((current) => ({ ...current, [recipeId]: servings }));
+  }, []);
+
+  const handleCooked = useCallback(
+    (recommendation: Recommendation, deductions: PantryDeduction[]) => {
+      const entry = createHistoryEntry(
+        recommendation.recipe,
+        recommendation.servings,
+        deductions,
+        pantryItems,
+        profile.id
+      );
+      setPantryItems((items) => applyDeductions(items, deductions));
+      setHistory((entries) => [entry, ...entries]);
+    },
+    [pantryItems, profile.id, setHistory, setPantryItems]
+  );
+
+  // Undo restores the pantry that was cooked from, even if another profile is active now.
+  const undoCooked = useCallback(
+    (entry: CookingHistoryEntry) => {
+      setPantryOf(entry.profileId, (items) => revertHistoryEntry(items, entry));
+      setHistory((entries) => entries.filter((candidate) => candidate.id !== entry.id));
+    },
+    [setHistory, setPantryOf]
+  );
+
+  const toggleSelectedRecipe = useCallback((recipeId: string) => {
+    setSelectedRecipeIds((current) =>
+      current.includes(recipeId)
+        ? current.filter((id) => id !== recipeId)
+        : [...current, recipeId]
+    );
+  }, []);
+
+  const shoppingSelections = useMemo<ShoppingSelection[]>(
+    () =>
+      selectedRecipeIds.flatMap((id) => {
+        const recipe = recipes.find((entry) => entry.id === id);
+        return recipe
+          ? [{ recipe, servings: servingsByRecipe[id] ?? recipe.baseServings }]
+          : [];
+      }),
+    [recipes, selectedRecipeIds, servingsByRecipe]
+  );
+
+  const sharedSession = useMemo<SharedSession>(
+    () => ({
+      pantry: pantryItems,
+      recipes: shoppingSelections.map(({ recipe, servings }) => ({ id: recipe.id, servings })),
+      dietary: dietaryProfile,
+    }),
+    [pantryItems, shoppingSelections, dietaryProfile]
+  );
+
+  const handleApplySharedSession = useCallback(
+    (session: SharedSession) => {
+      setPantryItems(session.pantry);
+      setSelectedRecipeIds(session.recipes.map((recipe) => recipe.id));
+      setServingsByRecipe((current) => ({
+        ...current,
+        ...Object.fromEntries(session.recipes.map((recipe) => [recipe.id, recipe.servings])),
+      }));
+      setDietaryProfile(session.dietary);
+    },
+    [setDietaryProfile, setPantryItems]
   );
 
   const handleAddPantryItems = useCallback(
     (items: PantryItem[]) => {
       if (!items.length) return;
-      setPantryItems((current) => mergePantryItems([...current, ...items]));
+      const stamped = items.map((item) => stampPantryItem(item));
+      setPantryItems((current) => mergePantryItems([...current, ...stamped]));
     },
-    []
+    [setPantryItems]
   );
 
-  const handleManualSubmit = useCallback(() => {
-    const parsed = parseManualEntry(manualEntry);
-    handleAddPantryItems(parsed);
-    setManualEntry("");
-  }, [handleAddPantryItems, manualEntry]);
-
-  const detectIngredients = useCallback(
-    async (file: File) => {
-      setVisionLoading(true);
-      setVisionStatus("Loading vision model…");
-      try {
-        const model = await loadVisionModel();
-        setVisionStatus("Analyzing image…");
-        const objectUrl = URL.createObjectURL(file);
-        const imageElement = new window.Image();
-        imageElement.src = objectUrl;
-        await new Promise<void>((resolve, reject) => {
-          imageElement.onload = () => resolve();
-          imageElement.onerror = () => reject(new Error("Could not load image"));
-        });
-
-        const predictions = await model.detect(imageElement);
-        URL.revokeObjectURL(objectUrl);
-
-        const ingredients = predictions
-          .filter((prediction) => prediction.score >= 0.4)
-          .map((prediction) => ({
-            score: prediction.score,
-            className: prediction.class.toLowerCase(),
-          }))
-          .filter(({ className }) => allowedVisionLabels.has(className));
-
-        if (!ingredients.length) {
-          setVisionStatus("We could not confidently detect ingredients. Try another angle.");
-          setVisionConfidence(0);
-          return;
-        }
-
-        const pantry = ingredients.map(({ className, score }) => ({
-          name: className,
-          quantity: Number.parseFloat((score * 2).toFixed(2)),
-        }));
-        handleAddPantryItems(pantry);
-        const averageConfidence =
-          ingredients.reduce((total, ingredient) => total + ingredient.score, 0) /
-          ingredients.length;
-        setVisionConfidence(averageConfidence);
-        setVisionStatus(
-          `Detected ${ingredients.length} item${ingredients.length > 1 ? "s" : ""} with ${
-            formatStatus(averageConfidence)
-          }% confidence.`
-        );
-      } catch (error) {
-        setVisionStatus(error instanceof Error ? error.message : "Vision analysis failed.");
-        setVisionConfidence(0);
-      } finally {
-        setVisionLoading(false);
-      }
+  const manualEntries = useMemo(
+    () => splitIngredientEntries(manualEntry).map(parseIngredientText),
+    [manualEntry]
+  );
+  const flaggedEntryCount = manualEntries.filter(
+    (entry) => !entry.error && needsReview(entry)
+  ).length;
+
+  // Flagged lines stay in the box for fixing unless the user adds them anyway; lines that
+  // can't be read at all always stay.
+  const handleManualSubmit = useCallback(
+    (includeFlagged: boolean) => {
+      const accepted = manualEntries.filter(
+        (entry) => !entry.error && (includeFlagged || !needsReview(entry))
+      );
+      handleAddPantryItems(accepted.map(parsedPantryItem));
+      setManualEntry(
+        manualEntries
+          .filter((entry) => !accepted.includes(entry))
+          .map((entry) => entry.source)
+          .join("\n")
+      );
     },
-    [handleAddPantryItems]
+    [handleAddPantryItems, manualEntries]
+  );
+
+  const handleProviderChange = useCallback(
+    (id: string) => {
+      void visionProvider.release();
+      setSettings((current) => ({ ...current, visionProvider: id }));
+      setVisionReview(null);
+      setVisionStatus(null);
+      clearPhotos();
+    },
+    [clearPhotos, setSettings, visionProvider]
+  );
+
+  // Detections wait in a review step; nothing reaches the pantry until the user confirms it.
+  const handlePhotos = useCallback(
+    (files: File[]) => {
+      const images = files.filter((file) => file.type.startsWith("image/"));
+      if (!images.length) return;
+      setVisionReview(null);
+      const skipped = enqueuePhotos(images);
+      setVisionStatus(
+        `Review what was found before it goes into your pantry.${
+          skipped ? ` Skipped ${skipped} photo${skipped > 1 ? "s" : ""} already in the queue.` : ""
+        }`
+      );
+    },
+    [enqueuePhotos]
   );
 
   const handleImageChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const [file] = event.target.files ?? [];
-      if (!file) return;
-      const previewUrl = URL.createObjectURL(file);
-      setImagePreview(previewUrl);
-      void detectIngredients(file);
+      handlePhotos([...(event.target.files ?? [])]);
+      event.target.value = "";
+    },
+    [handlePhotos]
+  );
+
+  const handlePhotoDrop = useCallback(
+    (event: React.DragEvent<HTMLLabelElement>) => {
+      event.preventDefault();
+      handlePhotos([...event.dataTransfer.files]);
     },
-    [detectIngredients]
+    [handlePhotos]
   );
 
+  const handleReviewPhoto = useCallback((photo: QueuedPhoto) => {
+    setVisionReview({
+      id: photo.id,
+      imageUrl: photo.imageUrl,
+      width: photo.width,
+      height: photo.height,
+      detections: photo.detections,
+      threshold: photo.threshold,
+    });
+  }, []);
+
+  const handleSavePhotoReview = useCallback(
+    (detections: Detection[], threshold: number) => {
+      if (visionReview) savePhotoReview(visionReview.id, detections, threshold);
+      setVisionReview(null);
+    },
+    [savePhotoReview, visionReview]
+  );
+
+  // A reviewed photo leaves the queue, so its items aren't added a second time with the rest.
+  const handleConfirmDetections = useCallback(
+    (items: PantryItem[]) => {
+      handleAddPantryItems(items);
+      if (visionReview) removePhoto(visionReview.id);
+      setVisionReview(null);
+      setVisionStatus(
+        `Added ${items.map(({ name, quantity }) => `${quantity} ${name}`).join(", ")} to your pantry.`
+      );
+    },
+    [handleAddPantryItems, removePhoto, visionReview]
+  );
+
+  const handleConfirmPhotos = useCallback(
+    (items: PantryItem[]) => {
+      handleAddPantryItems(items);
+      clearPhotos();
+      setVisionStatus(
+        `Added ${items.map(({ name, quantity }) => `${quantity} ${name}`).join(", ")} to your pantry.`
+      );
+    },
+    [clearPhotos, handleAddPantryItems]
+  );
+
+  // Browsers without camera streaming (or insecure origins) fall back to the photo picker.
+  const handleUseCamera = useCallback(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      fileInputRef.current?.click();
+      return;
+    }
+    setVisionReview(null);
+    setReceiptImage(null);
+    setVisionStatus("Live scanning. Point the camera at your groceries.");
+    setLiveScanning(true);
+  }, []);
+
+  const handleCommitScan = useCallback(
+    (items: PantryItem[]) => {
+      handleAddPantryItems(items);
+      setLiveScanning(false);
+      setVisionStatus(
+        `Added ${items.map(({ name, quantity }) => `${quantity} ${name}`).join(", ")} to your pantry.`
+      );
+    },
+    [handleAddPantryItems]
+  );
+
+  const stopScanning = useCallback(() => {
+    setLiveScanning(false);
+    setVisionStatus(null);
+  }, []);
+
+  const handleReceiptChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const [file] = event.target.files ?? [];
+    if (!file) return;
+    setVisionReview(null);
+    setVisionStatus("Reading the receipt…");
+    setReceiptImage(URL.createObjectURL(file));
+    event.target.value = "";
+  }, []);
+
+  const handleConfirmReceipt = useCallback(
+    (items: PantryItem[]) => {
+      handleAddPantryItems(items);
+      setReceiptImage(null);
+      setVisionStatus(
+        `Added ${items.length} item${items.length === 1 ? "" : "s"} from the receipt to your pantry.`
+      );
+    },
+    [handleAddPantryItems]
+  );
+
+  const dismissReceipt = useCallback(() => {
+    setReceiptImage(null);
+    setVisionStatus(null);
+  }, []);
+
   useEffect(() => {
     return () => {
-      if (imagePreview) URL.revokeObjectURL(imagePreview);
+      if (receiptImage) URL.revokeObjectURL(receiptImage);
     };
-  }, [imagePreview]);
+  }, [receiptImage]);
 
-  const removePantryItem = useCallback((name: string) => {
-    setPantryItems((items) => items.filter((item) => item.name !== name));
+  useEffect(() => {
+    registerServiceWorker().catch(() => {
+      // Without a service worker the app still works; it just needs a connection to load.
+    });
   }, []);
 
-  const updatePantryQuantity = useCallback((name: string, quantity?: number) => {
-    setPantryItems((items) =>
-      items.map((item) => (item.name === name ? { ...item, quantity } : item))
-    );
-  }, []);
+  const dismissReview = useCallback(() => {
+    if (visionReview) removePhoto(visionReview.id);
+    setVisionReview(null);
+    setVisionStatus(null);
+  }, [removePhoto, visionReview]);
+
+  const removePantryItem = useCallback(
+    (name: string) => {
+      setPantryItems((items) => items.filter((item) => item.name !== name));
+    },
+    [setPantryItems]
+  );
+
+  const updatePantryItem = useCallback(
+    (name: string, changes: Partial<PantryItem>) => {
+      setPantryItems((items) =>
+        items.map((item) => (item.name === name ? { ...item, ...changes } : item))
+      );
+    },
+    [setPantryItems]
+  );
 
   const clearPantry = useCallback(() => {
     setPantryItems([]);
     setVisionStatus(null);
-    setVisionConfidence(0);
-    setImagePreview(null);
+    setVisionReview(null);
+    setLiveScanning(false);
+    setReceiptImage(null);
+    clearPhotos();
     setManualEntry("");
-    if (fileInputRef.current) fileInputRef.current.value = "";
-  }, []);
+  }, [clearPhotos, setPantryItems]);
 
   const platformRecommendation =
     "A responsive web application provides instant accessibility across devices. It leverages the browser camera APIs for ingredient capture, works gracefully on desktops and mobile browsers, and ships seamlessly to Vercel for global deployment without app store friction.";
 
   return (
     <div className="flex flex-col gap-10">
+      <HouseholdSwitcher
+        households={households}
+        preferences={preferences}
+        onChange={setHouseholds}
+      />
       <section className="rounded-3xl border border-emerald-100 bg-gradient-to-br from-emerald-500 via-emerald-500 to-emerald-600 p-10 text-white shadow-xl shadow-emerald-200/30">
         <div className="flex flex-col gap-6 md:flex-row md:items-center md:justify-between">
           <div className="space-y-4 md:w-2/3">
@@ -390,55 +969,126 @@ const RecipeRecommender = () => {
                   Capture what&apos;s in your kitchen
                 </h2>
                 <p className="mt-2 text-sm text-zinc-600">
-                  Upload or snap a photo of ingredients. Computer vision labels ingredients and adds
-                  them straight to your pantry.
+                  Upload or snap a photo of ingredients, or scan a receipt or handwritten list. You
+                  confirm, relabel or drop each item before it joins your pantry.
                 </p>
               </div>
-              <button
-                type="button"
-                onClick={() => fileInputRef.current?.click()}
-                className="inline-flex items-center gap-2 rounded-full border border-emerald-500 bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-600"
-              >
-                <Camera className="h-4 w-4" />
-                Use camera
-              </button>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => receiptInputRef.current?.click()}
+                  disabled={liveScanning || visionLoading}
+                  className="inline-flex items-center gap-2 rounded-full border border-emerald-200 bg-white px-5 py-2.5 text-sm font-semibold text-emerald-600 shadow-sm transition hover:-translate-y-0.5 hover:border-emerald-400 disabled:opacity-50"
+                >
+                  <ReceiptText className="h-4 w-4" />
+                  Scan receipt
+                </button>
+                <button
+                  type="button"
+                  onClick={handleUseCamera}
+                  disabled={liveScanning || visionLoading}
+                  className="inline-flex items-center gap-2 rounded-full border border-emerald-500 bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-600 disabled:opacity-50"
+                >
+                  <Camera className="h-4 w-4" />
+                  Use camera
+                </button>
+              </div>
             </div>
 
+            <div className="mt-6 flex flex-col gap-2 text-xs text-zinc-500 sm:flex-row sm:items-center">
+              <label className="flex items-center gap-2 font-semibold text-zinc-600">
+                Detector
+                <select
+                  value={visionProvider.id}
+                  onChange={(event) => handleProviderChange(event.target.value)}
+                  disabled={liveScanning || visionLoading}
+                  className="rounded-full border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold text-zinc-600 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+                >
+                  {VISION_PROVIDERS.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span>{visionProvider.description}</span>
+            </div>
+            <ModelStatus provider={visionProvider} disabled={liveScanning || visionLoading} />
+
+            <input
+              ref={receiptInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              aria-label="Photo of a receipt or shopping list"
+              onChange={handleReceiptChange}
+            />
+            <input
+              id="pantry-photo"
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              className="hidden"
+              onChange={handleImageChange}
+            />
             <div className="mt-6 grid gap-6 md:grid-cols-2">
-              <label className="flex h-56 cursor-pointer flex-col items-center justify-center gap-3 rounded-3xl border-2 border-dashed border-emerald-200 bg-emerald-50/40 p-6 text-center text-sm text-emerald-600 transition hover:border-emerald-400 hover:bg-emerald-100/60">
-                <Upload className="h-8 w-8" />
-                <span className="font-medium">Drop a photo or browse files</span>
-                <span className="text-xs text-emerald-500">
-                  JPEG or PNG up to 10MB. Camera access available on mobile.
-                </span>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  capture="environment"
-                  className="hidden"
-                  onChange={handleImageChange}
+              {receiptImage ? (
+                <ReceiptImport
+                  key={receiptImage}
+                  imageUrl={receiptImage}
+                  onConfirm={handleConfirmReceipt}
+                  onDismiss={dismissReceipt}
                 />
-              </label>
+              ) : liveScanning ? (
+                <LiveScanner
+                  provider={visionProvider}
+                  onCommit={handleCommitScan}
+                  onClose={stopScanning}
+                />
+              ) : visionReview ? (
+                <DetectionReview
+                  key={visionReview.id}
+                  review={visionReview}
+                  labels={visionProvider.labels}
+                  onConfirm={handleConfirmDetections}
+                  onSave={handleSavePhotoReview}
+                  onDismiss={dismissReview}
+                />
+              ) : (
+                <>
+                  <label
+                    htmlFor="pantry-photo"
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={handlePhotoDrop}
+                    className="flex h-56 cursor-pointer flex-col items-center justify-center gap-3 rounded-3xl border-2 border-dashed border-emerald-200 bg-emerald-50/40 p-6 text-center text-sm text-emerald-600 transition hover:border-emerald-400 hover:bg-emerald-100/60"
+                  >
+                    <Upload className="h-8 w-8" />
+                    <span className="font-medium">Drop photos or browse files</span>
+                    <span className="text-xs text-emerald-500">
+                      Add several at once: fridge, pantry shelf, counter. Camera access available
+                      on mobile.
+                    </span>
+                  </label>
 
-              <div className="h-56 rounded-3xl border border-zinc-100 bg-zinc-50/80 p-4">
-                {imagePreview ? (
-                  <div className="relative h-full w-full overflow-hidden rounded-2xl">
-                    <NextImage
-                      src={imagePreview}
-                      alt="Ingredient preview"
-                      fill
-                      className="object-cover"
-                      sizes="(max-width: 768px) 100vw, 50vw"
-                      unoptimized
+                  {photos.length ? (
+                    <PhotoQueue
+                      photos={photos}
+                      onCancel={cancelPhoto}
+                      onRemove={removePhoto}
+                      onReview={handleReviewPhoto}
+                      onConfirm={handleConfirmPhotos}
+                      onClear={clearPhotos}
                     />
-                  </div>
-                ) : (
-                  <div className="flex h-full items-center justify-center text-sm text-zinc-400">
-                    Your photo preview appears here
-                  </div>
-                )}
-              </div>
+                  ) : (
+                    <div className="flex h-56 items-center justify-center rounded-3xl border border-zinc-100 bg-zinc-50/80 p-4 text-sm text-zinc-400">
+                      Your photos and what was found in them appear here
+                    </div>
+                  )}
+                </>
+              )}
             </div>
 
             <div className="mt-6 flex items-center justify-between rounded-2xl border border-emerald-100 bg-emerald-50/70 px-5 py-3 text-sm text-emerald-700">
@@ -448,7 +1098,13 @@ const RecipeRecommender = () => {
                 ) : (
                   <Camera className="h-4 w-4" />
                 )}
-                <p>{visionStatus ?? "Vision assistant is idle and ready."}</p>
+                <p>
+                  {visionLoading
+                    ? `Scanning photo ${
+                        photos.filter((photo) => !isPhotoActive(photo)).length + 1
+                      } of ${photos.length}…`
+                    : (visionStatus ?? "Vision assistant is idle and ready.")}
+                </p>
               </div>
               <span className="rounded-full bg-white/80 px-3 py-1 text-xs font-semibold text-emerald-600">
                 Confidence {formatStatus(visionConfidence)}%
@@ -466,18 +1122,28 @@ const RecipeRecommender = () => {
               <textarea
                 value={manualEntry}
                 onChange={(event) => setManualEntry(event.target.value)}
-                placeholder="Example: 2 cups spinach, 1 lime, 1 avocado"
+                placeholder="Example: 2 cups spinach, 1 onion, diced, ½ bunch of cilantro"
                 className="h-32 w-full rounded-2xl border border-zinc-200 bg-zinc-50/60 p-4 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-emerald-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-emerald-100"
               />
+              <ParsedEntryPreview entries={manualEntries} />
               <div className="flex flex-wrap items-center gap-3">
                 <button
                   type="button"
-                  onClick={handleManualSubmit}
+                  onClick={() => handleManualSubmit(false)}
                   className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-600"
                 >
                   <Plus className="h-4 w-4" />
                   Add ingredients
                 </button>
+                {flaggedEntryCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleManualSubmit(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-amber-200 px-4 py-2 text-xs font-semibold text-amber-700 transition hover:bg-amber-50"
+                  >
+                    Add {flaggedEntryCount} flagged too
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={clearPantry}
@@ -493,6 +1159,9 @@ const RecipeRecommender = () => {
               <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
                 Pantry tracker
               </p>
+              {pantryStorage.error && (
+                <p className="mt-2 text-xs text-red-500">{pantryStorage.error}</p>
+              )}
               {pantryItems.length ? (
                 <div className="mt-3 flex flex-wrap gap-3">
                   {pantryItems.map((item) => (
@@ -500,7 +1169,7 @@ const RecipeRecommender = () => {
                       key={item.name}
                       item={item}
                       onRemove={() => removePantryItem(item.name)}
-                      onQuantityChange={(quantity) => updatePantryQuantity(item.name, quantity)}
+                      onUpdate={(changes) => updatePantryItem(item.name, changes)}
                     />
                   ))}
                 </div>
@@ -525,8 +1194,8 @@ const RecipeRecommender = () => {
             <div>
               <p className="font-semibold text-zinc-800">Real-time pantry sync</p>
               <p className="mt-1">
-                Edits are applied instantly—adjust quantities, remove items, or add new finds while
-                cooking.
+                Edits are applied instantly and saved on this device—adjust quantities, track expiry
+                dates, or add new finds while cooking.
               </p>
             </div>
             <div>
@@ -543,15 +1212,57 @@ const RecipeRecommender = () => {
               </p>
             </div>
           </div>
+          {history.length > 0 && (
+            <div className="mt-10 space-y-3 text-sm text-zinc-600">
+              <p className="font-semibold text-zinc-800">Recently cooked</p>
+              <ul className="space-y-2">
+                {history.slice(0, 5).map((entry) => (
+                  <li key={entry.id} className="flex items-center justify-between gap-3">
+                    <span>
+                      {entry.recipeName}
+                      <span className="block text-xs text-zinc-400">
+                        {entry.servings} servings ·{" "}
+                        {households.profiles.length > 1 && entry.profileId && (
+                          <>{profileNames.get(entry.profileId) ?? "Removed profile"} · </>
+                        )}
+                        {new Date(entry.cookedAt).toLocaleDateString(undefined, {
+                          weekday: "short",
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => undoCooked(entry)}
+                      className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1 text-xs font-semibold text-zinc-500 transition hover:border-indigo-200 hover:text-indigo-600"
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      Undo
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="mt-10 rounded-2xl border border-purple-200 bg-white/80 p-5 text-xs text-purple-700">
             {pantryItems.length ? (
               <p>
                 {pantryItems.length} ingredient{pantryItems.length > 1 ? "s" : ""} detected. Top
                 recipe match score:{" "}
-                {recommendations.length
-                  ? `${Math.round(recommendations[0].score * 100)}%`
-                  : "n/a"}{" "}
-                relevance.
+                {recommendations.length ? (
+                  <>
+                    {Math.round(recommendations[0].score * 100)}% (
+                    {recommendations[0].scoreBreakdown.parts
+                      .map(
+                        (part) => `${part.label.toLowerCase()} +${formatStatus(part.contribution)}`
+                      )
+                      .join(", ")}
+                    ).
+                  </>
+                ) : (
+                  "n/a."
+                )}
               </p>
             ) : (
               <p>No data yet. Add ingredients to unlock tailored recipes.</p>
@@ -560,25 +1271,120 @@ const RecipeRecommender = () => {
         </aside>
       </section>
 
+      <SessionSharePanel
+        session={sharedSession}
+        knownRecipeIds={recipes.map((recipe) => recipe.id)}
+        ready={pantryStorage.hydrated}
+        onApply={handleApplySharedSession}
+      />
+
       <section className="space-y-6">
-        <div className="flex flex-col gap-2">
-          <h2 className="text-3xl font-semibold text-zinc-900">Personalized recipe picks</h2>
-          <p className="text-sm text-zinc-600">
-            Receive curated meal ideas that react to your pantry inventory and serving goals.
-          </p>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div className="flex flex-col gap-2">
+            <h2 className="text-3xl font-semibold text-zinc-900">Personalized recipe picks</h2>
+            <p className="text-sm text-zinc-600">
+              Receive curated meal ideas that react to your pantry inventory and serving goals.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2 rounded-full border border-zinc-200 bg-white p-1 text-xs font-semibold">
+            {rankingOptions.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setRankBy(option.id)}
+                className={`rounded-full px-4 py-1.5 transition ${
+                  rankBy === option.id
+                    ? "bg-emerald-500 text-white"
+                    : "text-zinc-500 hover:text-emerald-600"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid gap-4 lg:grid-cols-2">
+          <DietaryProfilePanel profile={dietaryProfile} onChange={setDietaryProfile} />
+          <TastePreferencesPanel
+            profile={profile}
+            cuisines={cuisines}
+            onChange={(tastes) => updateActive((current) => ({ ...current, ...tastes }))}
+          />
+          <NutritionTargetsPanel
+            targets={settings.nutritionTargets}
+            onChange={(nutritionTargets) =>
+              setSettings((current) => ({ ...current, nutritionTargets }))
+            }
+          />
+          <ScoreWeightsPanel
+            weights={settings.scoreWeights}
+            onChange={(scoreWeights) => setSettings((current) => ({ ...current, scoreWeights }))}
+          />
         </div>
         {recommendations.length ? (
           <div className="grid gap-8 lg:grid-cols-2">
             {recommendations.slice(0, 4).map((recommendation) => (
-              <RecipeCard key={recommendation.recipe.id} recommendation={recommendation} />
+              <RecipeCard
+                key={recommendation.recipe.id}
+                recommendation={recommendation}
+                pantryItems={pantryItems}
+                selected={selectedRecipeIds.includes(recommendation.recipe.id)}
+                onServingsChange={(servings) =>
+                  handleServingsChange(recommendation.recipe.id, servings)
+                }
+                onToggleSelected={() => toggleSelectedRecipe(recommendation.recipe.id)}
+                onCooked={(deductions) => handleCooked(recommendation, deductions)}
+                onStartCooking={() =>
+                  setCookSession(
+                    startCookSession(recommendation.recipe, recommendation.servings)
+                  )
+                }
+              />
             ))}
           </div>
         ) : (
           <div className="rounded-3xl border border-dashed border-zinc-200 bg-white/70 p-10 text-center text-sm text-zinc-500">
-            Add ingredients to reveal recipes tailored to your kitchen.
+            {pantryItems.length
+              ? "No recipe fits your dietary profile and nutrition goals with your pantry."
+              : "Add ingredients to reveal recipes tailored to your kitchen."}
           </div>
         )}
       </section>
+
+      <Suspense fallback={null}>
+        <RecipeExplorer
+          recipes={recipes}
+          pantryItems={pantryItems}
+          selectedRecipeIds={selectedRecipeIds}
+          onToggleSelected={toggleSelectedRecipe}
+          onStartCooking={(recipe) =>
+            setCookSession(
+              startCookSession(recipe, servingsByRecipe[recipe.id] ?? recipe.baseServings)
+            )
+          }
+        />
+      </Suspense>
+
+      {shoppingSelections.length > 0 && (
+        <ShoppingListPanel
+          selections={shoppingSelections}
+          pantryItems={pantryItems}
+          onRemove={toggleSelectedRecipe}
+        />
+      )}
+
+      <Cookbook userRecipes={userRecipes} onChange={setUserRecipes} />
+
+      {cookSession && cookingRecipe && (
+        <CookMode
+          recipe={cookingRecipe}
+          session={cookSession}
+          onChange={setCookSession}
+          onClose={() => setCookSession(null)}
+        />
+      )}
+
+      <MealPlanner recipes={recipes} pantryItems={pantryItems} dietary={preferences.dietary} />
     </div>
   );
 };
@@ -0,0 +1,92 @@
+"use client";
+
+import { DEFAULT_SCORE_WEIGHTS, ScoreWeights } from "@/lib/recommendations";
+import { RotateCcw, SlidersHorizontal } from "lucide-react";
+
+const WEIGHT_FIELDS: { key: keyof ScoreWeights; label: string; hint: string; max: number }[] = [
+  {
+    key: "coverage",
+    label: "Ingredient coverage",
+    hint: "Having each ingredient at all",
+    max: 1,
+  },
+  {
+    key: "quantity",
+    label: "Quantity sufficiency",
+    hint: "Having enough for the servings",
+    max: 1,
+  },
+  {
+    key: "staples",
+    label: "Staples",
+    hint: "Salt, oil, water next to a main ingredient",
+    max: 1,
+  },
+  { key: "swaps", label: "Swaps", hint: "A substitutable ingredient as present", max: 1 },
+  { key: "nutrition", label: "Nutrition goals", hint: "Boost for goals met", max: 2 },
+  {
+    key: "recentlyCooked",
+    label: "Recently cooked",
+    hint: "Penalty for repeating a dish",
+    max: 2,
+  },
+  {
+    key: "favourites",
+    label: "Favourite cuisines",
+    hint: "Boost when someone eating loves it",
+    max: 0.5,
+  },
+  {
+    key: "dislikes",
+    label: "Dislikes",
+    hint: "Penalty per disliked ingredient",
+    max: 0.5,
+  },
+];
+
+const ScoreWeightsPanel = ({
+  weights,
+  onChange,
+}: {
+  weights: ScoreWeights;
+  onChange: (weights: ScoreWeights) => void;
+}) => (
+  <div className="space-y-4 rounded-2xl border border-zinc-100 bg-white/80 p-5 text-sm text-zinc-600">
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <p className="flex items-center gap-2 font-semibold text-zinc-800">
+        <SlidersHorizontal className="h-4 w-4 text-emerald-500" />
+        How recipes are scored
+      </p>
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_SCORE_WEIGHTS)}
+        className="inline-flex items-center gap-1.5 rounded-full border border-zinc-200 px-3 py-1 text-xs font-semibold text-zinc-500 transition hover:border-emerald-200 hover:text-emerald-600"
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+        Reset
+      </button>
+    </div>
+    <div className="grid gap-3 sm:grid-cols-2">
+      {WEIGHT_FIELDS.map((field) => (
+        <label key={field.key} className="flex flex-col gap-1 text-xs">
+          <span className="flex justify-between gap-2">
+            <span className="font-semibold text-zinc-700">{field.label}</span>
+            <span className="font-mono text-zinc-500">{weights[field.key].toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={field.max}
+            step={0.05}
+            value={weights[field.key]}
+            onChange={(event) => onChange({ ...weights, [field.key]: Number(event.target.value) })}
+            className="accent-emerald-500"
+          />
+          <span className="text-zinc-400">{field.hint}</span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+export default ScoreWeightsPanel;
@@ -0,0 +1,222 @@
+"use client";
+
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import {
+  SessionImportMode,
+  SharedSession,
+  applySharedSession,
+  decodeShareLink,
+  encodeShareLink,
+  exportSession,
+  parseSessionBundle,
+} from "@/lib/sessionShare";
+import { Check, Download, FileUp, Link2, Share2 } from "lucide-react";
+
+type PendingImport = { session: SharedSession; source: "link" | "file" };
+
+const SessionSharePanel = ({
+  session,
+  knownRecipeIds,
+  ready,
+  onApply,
+}: {
+  session: SharedSession;
+  knownRecipeIds: string[];
+  // False until the saved pantry has loaded, so a merge never works from an empty pantry.
+  ready: boolean;
+  onApply: (session: SharedSession) => void;
+}) => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<{ tone: "info" | "error"; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A share link carries the snapshot in the hash, whether it opens the app or is pasted into
+  // an open tab; it waits here for merge or replace, and the hash is cleared so a reload
+  // doesn't offer it again.
+  useEffect(() => {
+    const readHash = () => {
+      try {
+        const shared = decodeShareLink(window.location.hash);
+        if (!shared) return;
+        setPending({ session: shared, source: "link" });
+        setMessage(null);
+      } catch (error) {
+        setMessage({
+          tone: "error",
+          text: error instanceof Error ? error.message : "The share link could not be read.",
+        });
+      }
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    };
+    const frame = requestAnimationFrame(readHash);
+    window.addEventListener("hashchange", readHash);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("hashchange", readHash);
+    };
+  }, []);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([exportSession(session)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "pantry-and-plan.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(encodeShareLink(session, window.location.href));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setMessage({ tone: "error", text: "Copying is blocked in this browser." });
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setPending({ session: parseSessionBundle(await file.text()), source: "file" });
+      setMessage(null);
+    } catch (error) {
+      setMessage({
+        tone: "error",
+        text: error instanceof Error ? error.message : "The file could not be read.",
+      });
+    }
+  };
+
+  const handleApply = (mode: SessionImportMode) => {
+    if (!pending) return;
+    const result = applySharedSession(session, pending.session, mode, knownRecipeIds);
+    onApply(result.session);
+    setPending(null);
+    setMessage({
+      tone: "info",
+      text: `${mode === "merge" ? "Merged" : "Replaced with"} ${pending.session.pantry.length} pantry item${
+        pending.session.pantry.length === 1 ? "" : "s"
+      } and ${result.session.recipes.length} recipe${result.session.recipes.length === 1 ? "" : "s"}.${
+        result.unknownRecipes.length
+          ? ` Skipped recipes this device doesn't have: ${result.unknownRecipes.join(", ")}.`
+          : ""
+      }`,
+    });
+  };
+
+  const buttonClass =
+    "inline-flex items-center gap-2 rounded-full border border-emerald-200 px-4 py-2 text-xs font-semibold text-emerald-600 transition hover:bg-emerald-50 disabled:opacity-50";
+  const empty = !session.pantry.length && !session.recipes.length;
+
+  return (
+    <div className="rounded-2xl border border-zinc-100 bg-white/80 p-5">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-900">
+            <Share2 className="h-4 w-4 text-emerald-500" />
+            Share your kitchen
+          </h3>
+          <p className="mt-1 text-xs text-zinc-500">
+            Send what&apos;s in the fridge, the recipes you picked and your dietary profile as a
+            link or a file.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void handleCopyLink()}
+            disabled={empty}
+            className={buttonClass}
+          >
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Link2 className="h-3.5 w-3.5" />}
+            {copied ? "Link copied" : "Copy share link"}
+          </button>
+          <button type="button" onClick={handleExport} disabled={empty} className={buttonClass}>
+            <Download className="h-3.5 w-3.5" />
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className={buttonClass}
+          >
+            <FileUp className="h-3.5 w-3.5" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {pending && (
+        <div className="mt-4 space-y-3 rounded-2xl border border-emerald-100 bg-emerald-50/60 p-4 text-sm">
+          <p className="font-semibold text-zinc-900">
+            {pending.source === "link"
+              ? "Someone shared their kitchen with you"
+              : "Ready to import"}
+          </p>
+          <p className="text-xs text-zinc-600">
+            {pending.session.pantry.length} pantry item
+            {pending.session.pantry.length === 1 ? "" : "s"}
+            {pending.session.pantry.length > 0 &&
+              ` (${pending.session.pantry
+                .slice(0, 6)
+                .map((item) => item.name)
+                .join(", ")}${pending.session.pantry.length > 6 ? ", …" : ""})`}
+            , {pending.session.recipes.length} recipe
+            {pending.session.recipes.length === 1 ? "" : "s"} and a dietary profile. Merge adds them
+            to what you have; replace swaps your pantry, picks and profile for theirs.
+          </p>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <button
+              type="button"
+              onClick={() => handleApply("merge")}
+              disabled={!ready}
+              className="rounded-full bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50"
+            >
+              Merge with mine
+            </button>
+            <button
+              type="button"
+              onClick={() => handleApply("replace")}
+              disabled={!ready}
+              className={buttonClass}
+            >
+              Replace mine
+            </button>
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className="rounded-full px-4 py-2 font-semibold text-zinc-500 transition hover:text-zinc-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={`mt-4 rounded-2xl px-4 py-2 text-xs ${
+            message.tone === "error" ? "bg-red-50 text-red-600" : "bg-emerald-50 text-emerald-700"
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SessionSharePanel;
@@ -0,0 +1,159 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { PantryItem } from "@/lib/recommendations";
+import {
+  ShoppingListFormat,
+  ShoppingSelection,
+  buildShoppingList,
+  formatShoppingList,
+  groupByAisle,
+} from "@/lib/shoppingList";
+import { formatAmount } from "@/lib/units";
+import { ClipboardCopy, Download, ShoppingCart, X } from "lucide-react";
+
+const formatOptions: { id: ShoppingListFormat; label: string; extension: string; mime: string }[] = [
+  { id: "text", label: "Plain text", extension: "txt", mime: "text/plain" },
+  { id: "markdown", label: "Markdown", extension: "md", mime: "text/markdown" },
+  { id: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+];
+
+const ShoppingListPanel = ({
+  selections,
+  pantryItems,
+  onRemove,
+  title = "Shopping list",
+  description = "Combined across your selected recipes, minus what is already in your pantry.",
+}: {
+  selections: ShoppingSelection[];
+  pantryItems: PantryItem[];
+  onRemove?: (recipeId: string) => void;
+  title?: string;
+  description?: string;
+}) => {
+  const [format, setFormat] = useState<ShoppingListFormat>("text");
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+
+  const lines = useMemo(
+    () => buildShoppingList(selections, pantryItems),
+    [selections, pantryItems]
+  );
+  const groups = useMemo(() => groupByAisle(lines), [lines]);
+  const selectedFormat = formatOptions.find((option) => option.id === format) ?? formatOptions[0];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatShoppingList(lines, format));
+      setCopyStatus(`Copied as ${selectedFormat.label.toLowerCase()}.`);
+    } catch {
+      setCopyStatus("Clipboard access was blocked by the browser.");
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([formatShoppingList(lines, format)], { type: selectedFormat.mime });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `shopping-list.${selectedFormat.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="rounded-3xl border border-zinc-100 bg-white/90 p-8 shadow-lg shadow-zinc-100/60 backdrop-blur">
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h2 className="flex items-center gap-2 text-2xl font-semibold text-zinc-900">
+            <ShoppingCart className="h-5 w-5 text-emerald-500" />
+            {title}
+          </h2>
+          <p className="mt-2 text-sm text-zinc-600">{description}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ShoppingListFormat)}
+            className="rounded-full border border-zinc-200 bg-white px-3 py-2 text-xs font-semibold text-zinc-600 focus:border-emerald-500 focus:outline-none"
+            aria-label="Export format"
+          >
+            {formatOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void handleCopy()}
+            disabled={!lines.length}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50"
+          >
+            <ClipboardCopy className="h-3.5 w-3.5" />
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={!lines.length}
+            className="inline-flex items-center gap-2 rounded-full border border-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-600 transition hover:border-emerald-200 hover:text-emerald-600 disabled:opacity-50"
+          >
+            <Download className="h-3.5 w-3.5" />
+            Download
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {selections.map(({ recipe, servings }, index) => (
+          <span
+            key={`${recipe.id}-${index}`}
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-50 px-3 py-1 text-xs font-medium text-emerald-700"
+          >
+            {recipe.name} · {servings} servings
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(recipe.id)}
+                className="text-emerald-400 transition hover:text-red-500"
+                aria-label={`Remove ${recipe.name} from shopping list`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {groups.length ? (
+        <div className="mt-6 grid gap-6 md:grid-cols-2">
+          {groups.map(({ aisle, lines: group }) => (
+            <div key={aisle} className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">{aisle}</p>
+              <ul className="space-y-1 text-sm text-zinc-700">
+                {group.map((line) => (
+                  <li
+                    key={`${line.name}-${line.unit}`}
+                    className="flex justify-between gap-4"
+                    title={line.recipes.join(", ")}
+                  >
+                    <span className="font-medium">{line.name}</span>
+                    <span className="text-zinc-500">{formatAmount(line.quantity, line.unit)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-6 text-sm text-zinc-500">
+          Your pantry already covers everything in the selected recipes.
+        </p>
+      )}
+
+      {copyStatus && <p className="mt-4 text-xs text-emerald-600">{copyStatus}</p>}
+    </section>
+  );
+};
+
+export default ShoppingListPanel;
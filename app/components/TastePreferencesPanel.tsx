@@ -0,0 +1,120 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import type { HouseholdProfile } from "@/lib/households";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import { Heart, Plus, X } from "lucide-react";
+
+type TastePreferences = Pick<HouseholdProfile, "dislikedIngredients" | "favouriteCuisines">;
+
+// Soft preferences: unlike the dietary profile, nothing here hides a recipe.
+const TastePreferencesPanel = ({
+  profile,
+  cuisines,
+  onChange,
+}: {
+  profile: HouseholdProfile;
+  cuisines: string[];
+  onChange: (preferences: TastePreferences) => void;
+}) => {
+  const [dislike, setDislike] = useState("");
+  const { dislikedIngredients, favouriteCuisines } = profile;
+
+  const toggleCuisine = (cuisine: string) =>
+    onChange({
+      dislikedIngredients,
+      favouriteCuisines: favouriteCuisines.includes(cuisine)
+        ? favouriteCuisines.filter((entry) => entry !== cuisine)
+        : [...favouriteCuisines, cuisine],
+    });
+
+  const handleAddDislike = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = canonicalizeIngredient(dislike);
+    if (name && !dislikedIngredients.includes(name)) {
+      onChange({ favouriteCuisines, dislikedIngredients: [...dislikedIngredients, name] });
+    }
+    setDislike("");
+  };
+
+  const removeDislike = (name: string) =>
+    onChange({
+      favouriteCuisines,
+      dislikedIngredients: dislikedIngredients.filter((entry) => entry !== name),
+    });
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-zinc-100 bg-white/80 p-5 text-sm text-zinc-600">
+      <p className="flex items-center gap-2 font-semibold text-zinc-800">
+        <Heart className="h-4 w-4 text-emerald-500" />
+        {profile.name}&apos;s tastes
+      </p>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Favourite cuisines
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {cuisines.map((cuisine) => {
+            const active = favouriteCuisines.includes(cuisine);
+            return (
+              <button
+                key={cuisine}
+                type="button"
+                onClick={() => toggleCuisine(cuisine)}
+                aria-pressed={active}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                  active
+                    ? "bg-emerald-500 text-white"
+                    : "border border-zinc-200 text-zinc-500 hover:border-emerald-200 hover:text-emerald-600"
+                }`}
+              >
+                {cuisine}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <form onSubmit={handleAddDislike} className="flex gap-2">
+        <input
+          value={dislike}
+          onChange={(event) => setDislike(event.target.value)}
+          placeholder="Would rather not… (e.g. cilantro)"
+          className="flex-1 rounded-full border border-zinc-200 px-4 py-1.5 text-xs focus:border-emerald-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!dislike.trim()}
+          className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-600 transition hover:border-emerald-200 hover:text-emerald-600 disabled:opacity-50"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Dislike
+        </button>
+      </form>
+
+      {dislikedIngredients.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {dislikedIngredients.map((name) => (
+            <span
+              key={name}
+              className="inline-flex items-center gap-2 rounded-full bg-amber-50 px-3 py-1 text-xs font-medium text-amber-700"
+            >
+              {name}
+              <button
+                type="button"
+                onClick={() => removeDislike(name)}
+                className="text-amber-300 transition hover:text-amber-700"
+                aria-label={`Stop disliking ${name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TastePreferencesPanel;
@@ -0,0 +1,91 @@
+"use client";
+
+import type { RankingFactor, Recommendation } from "@/lib/recommendations";
+import { Info } from "lucide-react";
+
+const formatContribution = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const FactorList = ({ factors }: { factors: RankingFactor[] }) => (
+  <ul className="space-y-1">
+    {factors.map((factor) => (
+      <li key={factor.label} className="flex justify-between gap-4">
+        <span>
+          <span className="font-medium text-zinc-800">{factor.label}</span> · {factor.detail}
+        </span>
+        <span className={`font-mono ${factor.contribution < 0 ? "text-red-500" : "text-zinc-500"}`}>
+          {formatContribution(factor.contribution)}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+// Spells out the match score part by part, so it never has to be taken on trust.
+const WhyThisRecipe = ({ recommendation }: { recommendation: Recommendation }) => {
+  const { score, scoreBreakdown, ranking } = recommendation;
+  const { parts, staples, adjustments, total, weights } = scoreBreakdown;
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-indigo-100 bg-indigo-50/40 p-4 text-xs text-zinc-600">
+      <div className="flex items-center justify-between gap-3">
+        <p className="flex items-center gap-1.5 font-semibold uppercase tracking-wide text-indigo-600">
+          <Info className="h-3.5 w-3.5" />
+          Why this recipe?
+        </p>
+        <span className="rounded-full bg-white px-2.5 py-0.5 font-semibold text-indigo-600">
+          {Math.round(score * 100)}% match
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        {parts.map((part) => (
+          <div key={part.label} className="space-y-1">
+            <div className="flex justify-between gap-4">
+              <span>
+                <span className="font-medium text-zinc-800">{part.label}</span> · {part.detail}
+              </span>
+              <span className="font-mono text-zinc-500">
+                {formatContribution(part.contribution)}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-indigo-100">
+              <div
+                className="h-full rounded-full bg-indigo-400"
+                style={{ width: `${Math.round(Math.min(1, part.contribution) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {staples.length > 0 && (
+        <p className="text-zinc-500">
+          {weights.staples > 0
+            ? `Staples count ${Math.round(weights.staples * 100)}% as much: `
+            : "Staples ignored: "}
+          {staples.join(", ")}
+        </p>
+      )}
+
+      {adjustments.length > 0 && (
+        <div className="space-y-1 border-t border-indigo-100 pt-2">
+          <p className="font-semibold text-zinc-700">Preferences</p>
+          <FactorList factors={adjustments} />
+          <p className="flex justify-between gap-4 font-semibold text-zinc-700">
+            <span>Overall</span>
+            <span className="font-mono">{total.toFixed(2)}</span>
+          </p>
+        </div>
+      )}
+
+      {ranking.mode !== "match" && (
+        <div className="space-y-1 border-t border-indigo-100 pt-2">
+          <p className="font-semibold text-zinc-700">How it was sorted</p>
+          <FactorList factors={ranking.factors} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhyThisRecipe;
@@ -0,0 +1,84 @@
+export type Aisle =
+  | "Produce"
+  | "Dairy & Eggs"
+  | "Meat & Seafood"
+  | "Bakery"
+  | "Pantry"
+  | "Spices & Baking"
+  | "Frozen"
+  | "Other";
+
+export const AISLE_ORDER: Aisle[] = [
+  "Produce",
+  "Dairy & Eggs",
+  "Meat & Seafood",
+  "Bakery",
+  "Pantry",
+  "Spices & Baking",
+  "Frozen",
+  "Other",
+];
+
+// Keys are canonical ingredient names; more specific ingredients fall back to their parent's aisle.
+export const INGREDIENT_AISLES: Record<string, Aisle> = {
+  apple: "Produce",
+  avocado: "Produce",
+  banana: "Produce",
+  basil: "Produce",
+  "bell pepper": "Produce",
+  broccoli: "Produce",
+  carrot: "Produce",
+  cilantro: "Produce",
+  cucumber: "Produce",
+  garlic: "Produce",
+  ginger: "Produce",
+  kale: "Produce",
+  lemon: "Produce",
+  lime: "Produce",
+  mushroom: "Produce",
+  onion: "Produce",
+  parsley: "Produce",
+  potato: "Produce",
+  rosemary: "Produce",
+  scallion: "Produce",
+  spinach: "Produce",
+  tomato: "Produce",
+  butter: "Dairy & Eggs",
+  buttermilk: "Dairy & Eggs",
+  cheese: "Dairy & Eggs",
+  egg: "Dairy & Eggs",
+  "heavy cream": "Dairy & Eggs",
+  milk: "Dairy & Eggs",
+  "sour cream": "Dairy & Eggs",
+  yogurt: "Dairy & Eggs",
+  chicken: "Meat & Seafood",
+  "ground beef": "Meat & Seafood",
+  "ground pork": "Meat & Seafood",
+  "ground turkey": "Meat & Seafood",
+  "ground chicken": "Meat & Seafood",
+  "ground lamb": "Meat & Seafood",
+  shrimp: "Meat & Seafood",
+  bread: "Bakery",
+  tortilla: "Bakery",
+  chickpea: "Pantry",
+  "coconut milk": "Pantry",
+  honey: "Pantry",
+  oats: "Pantry",
+  oil: "Pantry",
+  pasta: "Pantry",
+  "peanut butter": "Pantry",
+  rice: "Pantry",
+  "rice noodle": "Pantry",
+  "soy sauce": "Pantry",
+  tamari: "Pantry",
+  "vegetable broth": "Pantry",
+  "baking powder": "Spices & Baking",
+  cinnamon: "Spices & Baking",
+  cumin: "Spices & Baking",
+  "curry powder": "Spices & Baking",
+  flaxseed: "Spices & Baking",
+  flour: "Spices & Baking",
+  salt: "Spices & Baking",
+  sugar: "Spices & Baking",
+  peas: "Frozen",
+};
@@ -0,0 +1,119 @@
+export type IngredientFact =
+  "meat" | "seafood" | "dairy" | "egg" | "gluten" | "peanut" | "tree-nut" | "animal-product";
+
+export const FACT_LABELS: Record<IngredientFact, string> = {
+  meat: "meat",
+  seafood: "fish or shellfish",
+  dairy: "dairy",
+  egg: "egg",
+  gluten: "gluten",
+  peanut: "peanuts",
+  "tree-nut": "tree nuts",
+  "animal-product": "an animal product",
+};
+
+// Canonical ingredient → what it contains. Looked up on the ingredient and then
+// its parents, so "cheddar" inherits from "cheese" unless it has its own entry.
+// An empty list marks an ingredient as known to be free of everything.
+export const INGREDIENT_FACTS: Record<string, IngredientFact[]> = {
+  chicken: ["meat"],
+  beef: ["meat"],
+  "ground beef": ["meat"],
+  pork: ["meat"],
+  bacon: ["meat"],
+  ham: ["meat"],
+  sausage: ["meat"],
+  "chicken broth": ["meat"],
+  gelatin: ["animal-product"],
+  salmon: ["seafood"],
+  tuna: ["seafood"],
+  cod: ["seafood"],
+  shrimp: ["seafood"],
+  anchovy: ["seafood"],
+  "fish sauce": ["seafood"],
+  milk: ["dairy"],
+  buttermilk: ["dairy"],
+  butter: ["dairy"],
+  cheese: ["dairy"],
+  yogurt: ["dairy"],
+  "sour cream": ["dairy"],
+  "heavy cream": ["dairy"],
+  cream: ["dairy"],
+  ghee: ["dairy"],
+  egg: ["egg"],
+  mayonnaise: ["egg"],
+  honey: ["animal-product"],
+  flour: ["gluten"],
+  bread: ["gluten"],
+  breadcrumb: ["gluten"],
+  pasta: ["gluten"],
+  tortilla: ["gluten"],
+  "corn tortilla": [],
+  couscous: ["gluten"],
+  barley: ["gluten"],
+  // Oats are usually processed alongside wheat unless sold as certified gluten-free.
+  oats: ["gluten"],
+  "soy sauce": ["gluten"],
+  tamari: [],
+  "rice noodle": [],
+  peanut: ["peanut"],
+  "peanut butter": ["peanut"],
+  // Nut butters have their own entries so the "butter" keyword doesn't count them as dairy.
+  "nut butter": ["tree-nut", "peanut"],
+  "almond butter": ["tree-nut"],
+  "cashew butter": ["tree-nut"],
+  "hazelnut butter": ["tree-nut"],
+  "pecan butter": ["tree-nut"],
+  "pistachio butter": ["tree-nut"],
+  "walnut butter": ["tree-nut"],
+  "macadamia butter": ["tree-nut"],
+  almond: ["tree-nut"],
+  "almond milk": ["tree-nut"],
+  "almond flour": ["tree-nut"],
+  cashew: ["tree-nut"],
+  walnut: ["tree-nut"],
+  pecan: ["tree-nut"],
+  pistachio: ["tree-nut"],
+  hazelnut: ["tree-nut"],
+  macadamia: ["tree-nut"],
+  "pine nut": ["tree-nut"],
+  "coconut milk": [],
+  "coconut cream": [],
+  "cream of tartar": [],
+  "peanut oil": ["peanut"],
+  "oat milk": ["gluten"],
+  "soy milk": [],
+};
+
+// Words that give an ingredient away when its full name is not in the table,
+// e.g. "smoked bacon" or "toasted walnut".
+export const FACT_KEYWORDS: Record<string, IngredientFact[]> = {
+  almond: ["tree-nut"],
+  anchovy: ["seafood"],
+  bacon: ["meat"],
+  beef: ["meat"],
+  bread: ["gluten"],
+  butter: ["dairy"],
+  cashew: ["tree-nut"],
+  cheese: ["dairy"],
+  chicken: ["meat"],
+  chorizo: ["meat"],
+  cream: ["dairy"],
+  egg: ["egg"],
+  fish: ["seafood"],
+  hazelnut: ["tree-nut"],
+  lamb: ["meat"],
+  milk: ["dairy"],
+  // "Mixed nuts" and other unnamed nuts often include peanuts.
+  nut: ["tree-nut", "peanut"],
+  peanut: ["peanut"],
+  pecan: ["tree-nut"],
+  pistachio: ["tree-nut"],
+  pork: ["meat"],
+  prawn: ["seafood"],
+  salmon: ["seafood"],
+  shrimp: ["seafood"],
+  turkey: ["meat"],
+  walnut: ["tree-nut"],
+  wheat: ["gluten"],
+};
@@ -0,0 +1,64 @@
+// Grams per millilitre, used to move between volume and mass measurements.
+// Keys are canonical ingredient names (see canonicalizeIngredient).
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  flour: 0.53,
+  sugar: 0.85,
+  "brown sugar": 0.93,
+  butter: 0.96,
+  milk: 1.03,
+  buttermilk: 1.03,
+  yogurt: 1.04,
+  "sour cream": 1.01,
+  cream: 1.0,
+  water: 1.0,
+  "vegetable broth": 1.0,
+  "coconut milk": 0.97,
+  "olive oil": 0.91,
+  oil: 0.92,
+  honey: 1.42,
+  "soy sauce": 1.15,
+  "peanut butter": 1.08,
+  oats: 0.34,
+  rice: 0.85,
+  "arborio rice": 0.85,
+  chickpea: 0.69,
+  cheddar: 0.47,
+  parmesan: 0.42,
+  cheese: 0.45,
+  spinach: 0.13,
+  salt: 1.2,
+  "baking powder": 0.9,
+  cumin: 0.43,
+  cinnamon: 0.53,
+  "curry powder": 0.42,
+  ginger: 0.6,
+  rosemary: 0.2,
+};
+
+// Grams per counted unit ("piece" unless stated otherwise) for produce and packaged goods.
+export const INGREDIENT_UNIT_WEIGHTS: Record<string, Record<string, number>> = {
+  apple: { piece: 180 },
+  avocado: { piece: 150 },
+  banana: { piece: 120 },
+  "bell pepper": { piece: 160 },
+  broccoli: { piece: 350, head: 350 },
+  carrot: { piece: 70 },
+  "chicken breast": { piece: 200 },
+  chickpea: { can: 240 },
+  cilantro: { bunch: 30 },
+  basil: { bunch: 30 },
+  "coconut milk": { can: 400 },
+  cucumber: { piece: 300 },
+  egg: { piece: 50 },
+  garlic: { piece: 40, clove: 5, head: 40 },
+  lemon: { piece: 100 },
+  lime: { piece: 65 },
+  mushroom: { piece: 18 },
+  onion: { piece: 150 },
+  potato: { piece: 210 },
+  scallion: { piece: 15, bunch: 100 },
+  tomato: { piece: 120 },
+  tortilla: { piece: 40 },
+  butter: { stick: 113 },
+  bread: { piece: 500, slice: 30 },
+};
@@ -0,0 +1,63 @@
+// Class names of the local grocery classifier → canonical ingredient names.
+// Classes missing here (juices, packaging, background) are never reported.
+export const GROCERY_LABEL_MAP: Record<string, string> = {
+  "Golden-Delicious": "apple",
+  "Granny-Smith": "granny smith",
+  "Pink-Lady": "apple",
+  "Red-Delicious": "apple",
+  "Royal-Gala": "gala apple",
+  Avocado: "avocado",
+  Banana: "banana",
+  Kiwi: "kiwi",
+  Lemon: "lemon",
+  Lime: "lime",
+  Mango: "mango",
+  Nectarine: "nectarine",
+  Orange: "orange",
+  Papaya: "papaya",
+  "Passion-Fruit": "passion fruit",
+  Peach: "peach",
+  Anjou: "pear",
+  Conference: "pear",
+  Kaiser: "pear",
+  Pineapple: "pineapple",
+  Plum: "plum",
+  Pomegranate: "pomegranate",
+  "Red-Grapefruit": "grapefruit",
+  Satsumas: "satsuma",
+  Asparagus: "asparagus",
+  Aubergine: "eggplant",
+  Cabbage: "cabbage",
+  Carrots: "carrot",
+  Cucumber: "cucumber",
+  Garlic: "garlic",
+  Ginger: "ginger",
+  Leek: "leek",
+  "Brown-Cap-Mushroom": "mushroom",
+  "Yellow-Onion": "onion",
+  "Red-Onion": "red onion",
+  "Green-Bell-Pepper": "green bell pepper",
+  "Orange-Bell-Pepper": "bell pepper",
+  "Red-Bell-Pepper": "red bell pepper",
+  "Yellow-Bell-Pepper": "bell pepper",
+  "Floury-Potato": "potato",
+  "Solid-Potato": "potato",
+  "Sweet-Potato": "sweet potato",
+  "Red-Beet": "beet",
+  "Beef-Tomato": "tomato",
+  "Regular-Tomato": "tomato",
+  "Vine-Tomato": "tomato",
+  Zucchini: "zucchini",
+  Lettuce: "lettuce",
+  Broccoli: "broccoli",
+  Spinach: "spinach",
+  Milk: "milk",
+  "Oat-Milk": "oat milk",
+  "Soy-Milk": "soy milk",
+  "Sour-Cream": "sour cream",
+  Yoghurt: "yogurt",
+  Oatghurt: "oat yogurt",
+  Soyghurt: "soy yogurt",
+  Cheddar: "cheddar",
+  Eggs: "egg",
+};
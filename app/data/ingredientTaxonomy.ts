@@ -0,0 +1,72 @@
+// Canonical ingredient name → alternative names that mean the same thing.
+export const INGREDIENT_SYNONYMS: Record<string, string[]> = {
+  scallion: ["green onion", "spring onion", "salad onion"],
+  cilantro: ["coriander", "coriander leaf", "chinese parsley"],
+  "bell pepper": ["pepper", "capsicum", "sweet pepper"],
+  zucchini: ["courgette"],
+  eggplant: ["aubergine"],
+  chickpea: ["garbanzo", "garbanzo bean"],
+  arugula: ["rocket"],
+  "baking soda": ["bicarbonate of soda", "bicarb"],
+  "powdered sugar": ["icing sugar", "confectioners sugar"],
+  cornstarch: ["cornflour", "corn starch"],
+  shrimp: ["prawn"],
+  "heavy cream": ["double cream", "whipping cream"],
+  "ground beef": ["minced beef", "beef mince"],
+  "vegetable broth": ["vegetable stock", "veggie stock"],
+  "chicken broth": ["chicken stock"],
+  yogurt: ["yoghurt"],
+  "rice noodle": ["rice vermicelli", "rice stick"],
+  "soy sauce": ["shoyu", "soya sauce"],
+};
+
+// Specific ingredient → the broader ingredient it can stand in for.
+export const INGREDIENT_PARENTS: Record<string, string> = {
+  cheddar: "cheese",
+  parmesan: "cheese",
+  mozzarella: "cheese",
+  feta: "cheese",
+  "goat cheese": "cheese",
+  "roma tomato": "tomato",
+  "cherry tomato": "tomato",
+  "plum tomato": "tomato",
+  "red onion": "onion",
+  "yellow onion": "onion",
+  "white onion": "onion",
+  shallot: "onion",
+  "chicken breast": "chicken",
+  "chicken thigh": "chicken",
+  "arborio rice": "rice",
+  "basmati rice": "rice",
+  "jasmine rice": "rice",
+  "brown rice": "rice",
+  spaghetti: "pasta",
+  penne: "pasta",
+  fusilli: "pasta",
+  linguine: "pasta",
+  "greek yogurt": "yogurt",
+  "granny smith": "apple",
+  "gala apple": "apple",
+  "russet potato": "potato",
+  "sweet potato": "potato",
+  "baby spinach": "spinach",
+  "red bell pepper": "bell pepper",
+  "green bell pepper": "bell pepper",
+  "button mushroom": "mushroom",
+  "cremini mushroom": "mushroom",
+  "portobello mushroom": "mushroom",
+  "whole milk": "milk",
+  "skim milk": "milk",
+  "all-purpose flour": "flour",
+  "bread flour": "flour",
+  "extra virgin olive oil": "olive oil",
+  "olive oil": "oil",
+  "vegetable oil": "oil",
+  "unsalted butter": "butter",
+  "salted butter": "butter",
+  "brown sugar": "sugar",
+  "cane sugar": "sugar",
+  "rolled oats": "oats",
+  "flour tortilla": "tortilla",
+  "corn tortilla": "tortilla",
+};
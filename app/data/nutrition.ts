@@ -0,0 +1,68 @@
+export type Nutrients = {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  fiber: number;
+  // Milligrams; everything else apart from calories is in grams.
+  sodium: number;
+};
+
+// Per 100 g, from standard food composition tables. Keys are canonical ingredient
+// names (see canonicalizeIngredient); dry goods are listed uncooked.
+export const NUTRIENTS_PER_100G: Record<string, Nutrients> = {
+  apple: { calories: 52, protein: 0.3, fat: 0.2, carbs: 13.8, fiber: 2.4, sodium: 1 },
+  avocado: { calories: 160, protein: 2, fat: 14.7, carbs: 8.5, fiber: 6.7, sodium: 7 },
+  "baking powder": { calories: 53, protein: 0, fat: 0, carbs: 28, fiber: 0.2, sodium: 10600 },
+  banana: { calories: 89, protein: 1.1, fat: 0.3, carbs: 22.8, fiber: 2.6, sodium: 1 },
+  basil: { calories: 23, protein: 3.2, fat: 0.6, carbs: 2.7, fiber: 1.6, sodium: 4 },
+  "bell pepper": { calories: 31, protein: 1, fat: 0.3, carbs: 6, fiber: 2.1, sodium: 4 },
+  bread: { calories: 265, protein: 9, fat: 3.2, carbs: 49, fiber: 2.7, sodium: 491 },
+  broccoli: { calories: 34, protein: 2.8, fat: 0.4, carbs: 6.6, fiber: 2.6, sodium: 33 },
+  "brown sugar": { calories: 380, protein: 0.1, fat: 0, carbs: 98, fiber: 0, sodium: 28 },
+  butter: { calories: 717, protein: 0.9, fat: 81, carbs: 0.1, fiber: 0, sodium: 11 },
+  buttermilk: { calories: 40, protein: 3.3, fat: 0.9, carbs: 4.8, fiber: 0, sodium: 105 },
+  carrot: { calories: 41, protein: 0.9, fat: 0.2, carbs: 9.6, fiber: 2.8, sodium: 69 },
+  cheddar: { calories: 403, protein: 24.9, fat: 33.1, carbs: 1.3, fiber: 0, sodium: 621 },
+  cheese: { calories: 350, protein: 25, fat: 27, carbs: 2, fiber: 0, sodium: 620 },
+  "chicken breast": { calories: 120, protein: 22.5, fat: 2.6, carbs: 0, fiber: 0, sodium: 45 },
+  chickpea: { calories: 139, protein: 7, fat: 2.8, carbs: 22.5, fiber: 6.4, sodium: 240 },
+  cilantro: { calories: 23, protein: 2.1, fat: 0.5, carbs: 3.7, fiber: 2.8, sodium: 46 },
+  cinnamon: { calories: 247, protein: 4, fat: 1.2, carbs: 81, fiber: 53, sodium: 10 },
+  "coconut milk": { calories: 197, protein: 2, fat: 21.3, carbs: 2.8, fiber: 0, sodium: 13 },
+  cream: { calories: 340, protein: 2.8, fat: 36, carbs: 2.8, fiber: 0, sodium: 38 },
+  cucumber: { calories: 15, protein: 0.7, fat: 0.1, carbs: 3.6, fiber: 0.5, sodium: 2 },
+  cumin: { calories: 375, protein: 17.8, fat: 22.3, carbs: 44, fiber: 10.5, sodium: 168 },
+  "curry powder": { calories: 325, protein: 14, fat: 14, carbs: 56, fiber: 53, sodium: 52 },
+  egg: { calories: 143, protein: 12.6, fat: 9.5, carbs: 0.7, fiber: 0, sodium: 142 },
+  flour: { calories: 364, protein: 10.3, fat: 1, carbs: 76, fiber: 2.7, sodium: 2 },
+  garlic: { calories: 149, protein: 6.4, fat: 0.5, carbs: 33, fiber: 2.1, sodium: 17 },
+  ginger: { calories: 80, protein: 1.8, fat: 0.8, carbs: 18, fiber: 2, sodium: 13 },
+  honey: { calories: 304, protein: 0.3, fat: 0, carbs: 82, fiber: 0.2, sodium: 4 },
+  lemon: { calories: 29, protein: 1.1, fat: 0.3, carbs: 9.3, fiber: 2.8, sodium: 2 },
+  lime: { calories: 30, protein: 0.7, fat: 0.2, carbs: 10.5, fiber: 2.8, sodium: 2 },
+  milk: { calories: 61, protein: 3.2, fat: 3.3, carbs: 4.8, fiber: 0, sodium: 43 },
+  mushroom: { calories: 22, protein: 3.1, fat: 0.3, carbs: 3.3, fiber: 1, sodium: 5 },
+  oats: { calories: 389, protein: 16.9, fat: 6.9, carbs: 66, fiber: 10.6, sodium: 2 },
+  oil: { calories: 884, protein: 0, fat: 100, carbs: 0, fiber: 0, sodium: 0 },
+  "olive oil": { calories: 884, protein: 0, fat: 100, carbs: 0, fiber: 0, sodium: 2 },
+  onion: { calories: 40, protein: 1.1, fat: 0.1, carbs: 9.3, fiber: 1.7, sodium: 4 },
+  parmesan: { calories: 431, protein: 38, fat: 29, carbs: 4.1, fiber: 0, sodium: 1600 },
+  "peanut butter": { calories: 588, protein: 25, fat: 50, carbs: 20, fiber: 6, sodium: 430 },
+  potato: { calories: 77, protein: 2, fat: 0.1, carbs: 17, fiber: 2.2, sodium: 6 },
+  rice: { calories: 360, protein: 6.6, fat: 0.6, carbs: 80, fiber: 1.3, sodium: 5 },
+  "rice noodle": { calories: 364, protein: 6, fat: 0.6, carbs: 80, fiber: 1.6, sodium: 182 },
+  rosemary: { calories: 131, protein: 3.3, fat: 5.9, carbs: 20.7, fiber: 14.1, sodium: 26 },
+  salt: { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sodium: 38758 },
+  scallion: { calories: 32, protein: 1.8, fat: 0.2, carbs: 7.3, fiber: 2.6, sodium: 16 },
+  "sour cream": { calories: 198, protein: 2.4, fat: 19.4, carbs: 4.6, fiber: 0, sodium: 80 },
+  "soy sauce": { calories: 53, protein: 8.1, fat: 0.6, carbs: 4.9, fiber: 0.8, sodium: 5493 },
+  spaghetti: { calories: 371, protein: 13, fat: 1.5, carbs: 75, fiber: 3.2, sodium: 6 },
+  spinach: { calories: 23, protein: 2.9, fat: 0.4, carbs: 3.6, fiber: 2.2, sodium: 79 },
+  sugar: { calories: 387, protein: 0, fat: 0, carbs: 100, fiber: 0, sodium: 1 },
+  tomato: { calories: 18, protein: 0.9, fat: 0.2, carbs: 3.9, fiber: 1.2, sodium: 5 },
+  tortilla: { calories: 306, protein: 8, fat: 8, carbs: 50, fiber: 3.5, sodium: 600 },
+  "vegetable broth": { calories: 6, protein: 0.3, fat: 0.1, carbs: 1, fiber: 0, sodium: 330 },
+  water: { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sodium: 0 },
+  yogurt: { calories: 61, protein: 3.5, fat: 3.3, carbs: 4.7, fiber: 0, sodium: 46 },
+};
@@ -0,0 +1,48 @@
+import type { Aisle } from "@/data/aisles";
+
+// Typical days an ingredient keeps in its usual storage once bought.
+export const AISLE_SHELF_LIFE_DAYS: Record<Aisle, number> = {
+  Produce: 7,
+  "Dairy & Eggs": 10,
+  "Meat & Seafood": 2,
+  Bakery: 4,
+  Pantry: 180,
+  "Spices & Baking": 365,
+  Frozen: 120,
+  Other: 30,
+};
+
+// Canonical ingredient overrides for items that differ a lot from their aisle.
+export const INGREDIENT_SHELF_LIFE_DAYS: Record<string, number> = {
+  apple: 30,
+  avocado: 4,
+  banana: 5,
+  basil: 4,
+  berry: 3,
+  broccoli: 5,
+  butter: 60,
+  carrot: 21,
+  cheese: 21,
+  cilantro: 5,
+  cucumber: 7,
+  egg: 28,
+  garlic: 60,
+  lemon: 21,
+  lime: 14,
+  milk: 7,
+  mushroom: 5,
+  onion: 30,
+  potato: 30,
+  scallion: 7,
+  spinach: 5,
+  tomato: 6,
+  tortilla: 14,
+  yogurt: 14,
+};
+
+// Multiplier applied to the typical shelf life for where the item is kept.
+export const STORAGE_SHELF_LIFE_FACTOR = {
+  fridge: 1,
+  freezer: 6,
+  shelf: 1,
+} as const;
@@ -0,0 +1,120 @@
+// Shortened product words printed on till receipts → full ingredient words.
+export const RECEIPT_ABBREVIATIONS: Record<string, string> = {
+  appl: "apple",
+  aple: "apple",
+  avo: "avocado",
+  avoc: "avocado",
+  bnna: "banana",
+  bnn: "banana",
+  basl: "basil",
+  brst: "breast",
+  broc: "broccoli",
+  brocc: "broccoli",
+  brd: "bread",
+  brth: "broth",
+  btr: "butter",
+  bttr: "butter",
+  bttrmlk: "buttermilk",
+  btrmlk: "buttermilk",
+  carr: "carrot",
+  crt: "carrot",
+  chdr: "cheddar",
+  ched: "cheddar",
+  chedd: "cheddar",
+  chkpea: "chickpea",
+  chk: "chicken",
+  chkn: "chicken",
+  chrry: "cherry",
+  chs: "cheese",
+  chse: "cheese",
+  cil: "cilantro",
+  cilan: "cilantro",
+  cocnt: "coconut",
+  ccnt: "coconut",
+  crm: "cream",
+  cuc: "cucumber",
+  cuke: "cucumber",
+  flr: "flour",
+  garl: "garlic",
+  grlc: "garlic",
+  gngr: "ginger",
+  grn: "green",
+  hny: "honey",
+  lmn: "lemon",
+  lme: "lime",
+  mlk: "milk",
+  mush: "mushroom",
+  mshrm: "mushroom",
+  nddl: "noodle",
+  onn: "onion",
+  onin: "onion",
+  parm: "parmesan",
+  pep: "pepper",
+  pepr: "pepper",
+  pnt: "peanut",
+  pot: "potato",
+  pota: "potato",
+  rce: "rice",
+  sce: "sauce",
+  scal: "scallion",
+  sgr: "sugar",
+  spag: "spaghetti",
+  spin: "spinach",
+  spnch: "spinach",
+  stk: "stock",
+  swt: "sweet",
+  thgh: "thigh",
+  tom: "tomato",
+  toma: "tomato",
+  tort: "tortilla",
+  veg: "vegetable",
+  whl: "whole",
+  yel: "yellow",
+  ylw: "yellow",
+  ygt: "yogurt",
+  yog: "yogurt",
+  yogh: "yogurt",
+};
+
+// Marketing, grading and packaging words that say nothing about the ingredient.
+export const RECEIPT_NOISE_WORDS = new Set([
+  "bag",
+  "bnls",
+  "boneless",
+  "bulk",
+  "ea",
+  "each",
+  "family",
+  "fresh",
+  "frsh",
+  "grade",
+  "jumbo",
+  "large",
+  "lg",
+  "lrg",
+  "loose",
+  "med",
+  "medium",
+  "org",
+  "organic",
+  "pk",
+  "pkg",
+  "pack",
+  "premium",
+  "select",
+  "sknls",
+  "skinless",
+  "sm",
+  "small",
+  "value",
+  "xl",
+]);
+
+// Lines that are about the sale rather than an item bought.
+export const RECEIPT_BOILERPLATE: RegExp[] = [
+  /\b(sub\s*total|total|tax|vat|balance|change|cash|visa|mastercard|amex|debit|credit|tender|payment|approved|auth|terminal|cashier|register|receipt|invoice|thank|welcome|tel|phone|member|loyalty|points|savings|saved|coupon|discount|refund|survey)\b/i,
+  /\bitems?\s+(sold|purchased)\b/i,
+  /www\.|https?:|\w@[a-z]+\.[a-z]{2,}/i,
+  /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/,
+  /\b\d{1,2}:\d{2}\b/,
+];
@@ -0,0 +1,297 @@
+export type RecipeIngredient = {
+  name: string;
+  quantity: number;
+  unit: string;
+};
+
+export type Recipe = {
+  id: string;
+  name: string;
+  cuisine: string;
+  description: string;
+  tags: string[];
+  baseServings: number;
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+};
+
+export const RECIPES: Recipe[] = [
+  {
+    id: "green-goddess-bowl",
+    name: "Green Goddess Chickpea Bowl",
+    cuisine: "Mediterranean",
+    description: "Crisp greens, creamy avocado and lemony chickpeas tossed in a bright lime dressing.",
+    tags: ["vegan", "gluten-free", "quick"],
+    baseServings: 2,
+    ingredients: [
+      { name: "spinach", quantity: 2, unit: "cups" },
+      { name: "avocado", quantity: 1, unit: "pcs" },
+      { name: "lime", quantity: 1, unit: "pcs" },
+      { name: "chickpeas", quantity: 1, unit: "cups" },
+      { name: "cucumber", quantity: 1, unit: "pcs" },
+      { name: "olive oil", quantity: 2, unit: "tbsp" },
+      { name: "salt", quantity: 1, unit: "pinch" },
+    ],
+    instructions: [
+      "Rinse the chickpeas and pat them dry.",
+      "Whisk lime juice, olive oil and salt into a dressing.",
+      "Slice the cucumber and avocado.",
+      "Toss spinach, chickpeas and cucumber with the dressing and top with avocado.",
+    ],
+  },
+  {
+    id: "shakshuka",
+    name: "Smoky Shakshuka",
+    cuisine: "Middle Eastern",
+    description: "Eggs gently poached in a spiced tomato and pepper sauce, made for mopping up.",
+    tags: ["vegetarian", "gluten-free", "one-pan"],
+    baseServings: 2,
+    ingredients: [
+      { name: "egg", quantity: 4, unit: "pcs" },
+      { name: "tomato", quantity: 4, unit: "pcs" },
+      { name: "onion", quantity: 1, unit: "pcs" },
+      { name: "bell pepper", quantity: 1, unit: "pcs" },
+      { name: "garlic", quantity: 2, unit: "cloves" },
+      { name: "olive oil", quantity: 2, unit: "tbsp" },
+      { name: "cumin", quantity: 1, unit: "tsp" },
+      { name: "salt", quantity: 1, unit: "pinch" },
+    ],
+    instructions: [
+      "Sauté the onion and bell pepper in olive oil for 5 minutes.",
+      "Add garlic and cumin and cook for 1 minute until fragrant.",
+      "Stir in chopped tomatoes and simmer for 10 minutes.",
+      "Make wells in the sauce, crack in the eggs, cover and cook for 6 minutes.",
+    ],
+  },
+  {
+    id: "broccoli-cheddar-soup",
+    name: "Broccoli Cheddar Soup",
+    cuisine: "American",
+    description: "A velvety, comforting soup with tender broccoli and sharp melted cheddar.",
+    tags: ["vegetarian", "comfort"],
+    baseServings: 4,
+    ingredients: [
+      { name: "broccoli", quantity: 300, unit: "g" },
+      { name: "cheddar", quantity: 1, unit: "cups" },
+      { name: "milk", quantity: 2, unit: "cups" },
+      { name: "butter", quantity: 2, unit: "tbsp" },
+      { name: "flour", quantity: 2, unit: "tbsp" },
+      { name: "onion", quantity: 1, unit: "pcs" },
+      { name: "carrot", quantity: 1, unit: "pcs" },
+      { name: "salt", quantity: 1, unit: "pinch" },
+    ],
+    instructions: [
+      "Melt the butter and soften the onion for 4 minutes.",
+      "Whisk in the flour, then slowly pour in the milk.",
+      "Add broccoli and grated carrot and simmer for 15 minutes.",
+      "Stir in the cheddar until melted and season with salt.",
+    ],
+  },
+  {
+    id: "buttermilk-pancakes",
+    name: "Fluffy Buttermilk Pancakes",
+    cuisine: "American",
+    description: "Tall, tender pancakes with crisp edges for a slow weekend breakfast.",
+    tags: ["vegetarian", "breakfast"],
+    baseServings: 4,
+    ingredients: [
+      { name: "flour", quantity: 2, unit: "cups" },
+      { name: "buttermilk", quantity: 2, unit: "cups" },
+      { name: "egg", quantity: 2, unit: "pcs" },
+      { name: "butter", quantity: 3, unit: "tbsp" },
+      { name: "sugar", quantity: 2, unit: "tbsp" },
+      { name: "baking powder", quantity: 2, unit: "tsp" },
+      { name: "salt", quantity: 1, unit: "pinch" },
+    ],
+    instructions: [
+      "Whisk flour, sugar, baking powder and salt together.",
+      "Beat the eggs with buttermilk and melted butter.",
+      "Fold the wet ingredients into the dry and rest the batter for 5 minutes.",
+      "Cook ladlefuls on a hot griddle for 2 minutes per side.",
+    ],
+  },
+  {
+    id: "chicken-tacos",
+    name: "Charred Chicken Tacos",
+    cuisine: "Mexican",
+    description: "Lime-marinated chicken with fresh pico de gallo and cool sour cream.",
+    tags: ["high-protein", "crowd-pleaser"],
+    baseServings: 4,
+    ingredients: [
+      { name: "chicken breast", quantity: 500, unit: "g" },
+      { name: "tortilla", quantity: 8, unit: "pcs" },
+      { name: "lime", quantity: 2, unit: "pcs" },
+      { name: "avocado", quantity: 1, unit: "pcs" },
+      { name: "tomato", quantity: 2, unit: "pcs" },
+      { name: "onion", quantity: 1, unit: "pcs" },
+      { name: "cilantro", quantity: 1, unit: "bunch" },
+      { name: "sour cream", quantity: 0.5, unit: "cups" },
+      { name: "salt", quantity: 1, unit: "pinch" },
+    ],
+    instructions: [
+      "Marinate the chicken in lime juice and salt for 20 minutes.",
+      "Dice tomato, onion and cilantro into a quick pico de gallo.",
+      "Grill the chicken for 6 minutes per side, then slice.",
+      "Warm the tortillas and fill with chicken, pico, avocado and sour cream.",
+    ],
+  },
+  {
+    id: "peanut-noodles",
+    name: "Sesame Peanut Noodles",
+    cuisine: "Thai",
+    description: "Slurpable rice noodles in a punchy peanut-lime sauce with crunchy vegetables.",
+    tags: ["vegan", "quick"],
+    baseServings: 2,
+    ingredients: [
+      { name: "rice noodles", quantity: 250, unit: "g" },
+      { name: "peanut butter", quantity: 3, unit: "tbsp" },
+      { name: "soy sauce", quantity: 2, unit: "tbsp" },
+      { name: "lime", quantity: 1, unit: "pcs" },
+      { name: "carrot", quantity: 2, unit: "pcs" },
+      { name: "cucumber", quantity: 1, unit: "pcs" },
+      { name: "scallion", quantity: 3, unit: "pcs" },
+      { name: "garlic", quantity: 2, unit: "cloves" },
+    ],
+    instructions: [
+      "Soak the rice noodles in hot water for 8 minutes, then drain.",
+      "Whisk peanut butter, soy sauce, lime juice and grated garlic with a splash of water.",
+      "Julienne the carrot and cucumber and slice the scallions.",
+      "Toss noodles, vegetables and sauce together.",
+    ],
+  },
+  {
+    id: "mushroom-risotto",
+    name: "Creamy Mushroom Risotto",
+    cuisine: "Italian",
+    description: "Slow-stirred arborio rice with golden mushrooms and a parmesan finish.",
+    tags: ["vegetarian", "gluten-free", "comfort"],
+    baseServings: 4,
+    ingredients: [
+      { name: "arborio rice", quantity: 1.5, unit: "cups" },
+      { name: "mushroom", quantity: 250, unit: "g" },
+      { name: "onion", quantity: 1, unit: "pcs" },
+      { name: "garlic", quantity: 2, unit: "cloves" },
+      { name: "vegetable broth", quantity: 4, unit: "cups" },
+      { name: "parmesan", quantity: 0.5, unit: "cups" },
+      { name: "butter", quantity: 2, unit: "tbsp" },
+      { name: "olive oil", quantity: 1, unit: "tbsp" },
+    ],
+    instructions: [
+      "Brown the mushrooms in olive oil for 6 minutes and set aside.",
+      "Soften onion and garlic in butter, then toast the rice for 2 minutes.",
+      "Add warm broth a ladle at a time, stirring for 18 minutes.",
+      "Fold in the mushrooms and parmesan and rest for 2 minutes.",
+    ],
+  },
+  {
+    id: "banana-oat-smoothie",
+    name: "Banana Oat Smoothie",
+    cuisine: "American",
+    description: "A thick, naturally sweet breakfast smoothie that keeps you full.",
+    tags: ["vegetarian", "breakfast", "quick"],
+    baseServings: 2,
+    ingredients: [
+      { name: "banana", quantity: 2, unit: "pcs" },
+      { name: "yogurt", quantity: 1, unit: "cups" },
+      { name: "milk", quantity: 1, unit: "cups" },
+      { name: "oats", quantity: 0.5, unit: "cups" },
+      { name: "honey", quantity: 1, unit: "tbsp" },
+    ],
+    instructions: [
+      "Add everything to a blender.",
+      "Blend for 1 minute until completely smooth.",
+      "Pour into chilled glasses and serve.",
+    ],
+  },
+  {
+    id: "roasted-root-tray",
+    name: "Rosemary Roasted Root Tray",
+    cuisine: "Mediterranean",
+    description: "Crispy potatoes and sweet carrots roasted with whole garlic and herbs.",
+    tags: ["vegan", "gluten-free", "one-pan"],
+    baseServings: 4,
+    ingredients: [
+      { name: "potato", quantity: 4, unit: "pcs" },
+      { name: "carrot", quantity: 3, unit: "pcs" },
+      { name: "onion", quantity: 1, unit: "pcs" },
+      { name: "garlic", quantity: 4, unit: "cloves" },
+      { name: "olive oil", quantity: 3, unit: "tbsp" },
+      { name: "rosemary", quantity: 1, unit: "tbsp" },
+      { name: "salt", quantity: 1, unit: "tsp" },
+    ],
+    instructions: [
+      "Heat the oven to 220°C.",
+      "Cut potatoes, carrots and onion into chunks and toss with oil, rosemary and salt.",
+      "Roast with the garlic cloves for 35 minutes, turning halfway.",
+    ],
+  },
+  {
+    id: "apple-crumble",
+    name: "Spiced Apple Crumble",
+    cuisine: "British",
+    description: "Soft cinnamon apples under a buttery, golden oat crumble.",
+    tags: ["vegetarian", "dessert"],
+    baseServings: 6,
+    ingredients: [
+      { name: "apple", quantity: 4, unit: "pcs" },
+      { name: "flour", quantity: 1, unit: "cups" },
+      { name: "oats", quantity: 0.5, unit: "cups" },
+      { name: "butter", quantity: 0.5, unit: "cups" },
+      { name: "sugar", quantity: 0.5, unit: "cups" },
+      { name: "cinnamon", quantity: 1, unit: "tsp" },
+    ],
+    instructions: [
+      "Heat the oven to 190°C.",
+      "Slice the apples and toss with cinnamon and half the sugar.",
+      "Rub butter into flour, oats and remaining sugar to form a crumble.",
+      "Scatter over the apples and bake for 30 minutes.",
+    ],
+  },
+  {
+    id: "tomato-basil-pasta",
+    name: "Fresh Tomato Basil Pasta",
+    cuisine: "Italian",
+    description: "Juicy tomatoes collapsed into garlicky olive oil with torn basil.",
+    tags: ["vegetarian", "quick"],
+    baseServings: 4,
+    ingredients: [
+      { name: "spaghetti", quantity: 400, unit: "g" },
+      { name: "tomato", quantity: 5, unit: "pcs" },
+      { name: "garlic", quantity: 3, unit: "cloves" },
+      { name: "basil", quantity: 1, unit: "bunch" },
+      { name: "olive oil", quantity: 3, unit: "tbsp" },
+      { name: "parmesan", quantity: 0.25, unit: "cups" },
+      { name: "salt", quantity: 1, unit: "tsp" },
+    ],
+    instructions: [
+      "Boil the spaghetti in salted water for 9 minutes.",
+      "Warm the garlic in olive oil, add chopped tomatoes and cook for 5 minutes.",
+      "Toss the drained pasta with the sauce, basil and parmesan.",
+    ],
+  },
+  {
+    id: "chickpea-spinach-curry",
+    name: "Chickpea Spinach Curry",
+    cuisine: "Indian",
+    description: "A fragrant coconut curry that turns pantry cans into a weeknight favourite.",
+    tags: ["vegan", "gluten-free", "meal-prep"],
+    baseServings: 4,
+    ingredients: [
+      { name: "chickpeas", quantity: 2, unit: "cans" },
+      { name: "coconut milk", quantity: 1, unit: "cans" },
+      { name: "spinach", quantity: 3, unit: "cups" },
+      { name: "tomato", quantity: 2, unit: "pcs" },
+      { name: "onion", quantity: 1, unit: "pcs" },
+      { name: "garlic", quantity: 3, unit: "cloves" },
+      { name: "ginger", quantity: 1, unit: "tbsp" },
+      { name: "curry powder", quantity: 2, unit: "tbsp" },
+      { name: "rice", quantity: 1.5, unit: "cups" },
+    ],
+    instructions: [
+      "Start the rice and let it cook for 15 minutes.",
+      "Fry onion, garlic and ginger until golden, about 6 minutes.",
+      "Stir in curry powder, tomatoes, chickpeas and coconut milk and simmer for 12 minutes.",
+      "Wilt in the spinach and serve over rice.",
+    ],
+  },
+];
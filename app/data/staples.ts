@@ -0,0 +1,4 @@
+// Basics nearly every kitchen has. A recipe is no worse a match for lacking a pinch of salt,
+// so these count for little in the match score. More specific names ("olive oil" under
+// "oil") are staples too.
+export const STAPLE_INGREDIENTS = ["salt", "black pepper", "oil", "water", "cooking spray"];
@@ -0,0 +1,148 @@
+export type SubstitutionPart = {
+  name: string;
+  quantity: number;
+  unit: string;
+};
+
+// `per` is the amount of the original ingredient the replacement quantities stand in for.
+export type Substitution = {
+  ingredient: string;
+  per: { quantity: number; unit: string };
+  replacements: SubstitutionPart[];
+  notes: string;
+};
+
+export const SUBSTITUTIONS: Substitution[] = [
+  {
+    ingredient: "buttermilk",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [
+      { name: "milk", quantity: 1, unit: "cup" },
+      { name: "lemon", quantity: 0.5, unit: "piece" },
+    ],
+    notes: "Stir the lemon juice into the milk and let it thicken for 5 minutes.",
+  },
+  {
+    ingredient: "buttermilk",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [
+      { name: "yogurt", quantity: 0.75, unit: "cup" },
+      { name: "milk", quantity: 0.25, unit: "cup" },
+    ],
+    notes: "Whisk until smooth; gives an extra tangy batter.",
+  },
+  {
+    ingredient: "egg",
+    per: { quantity: 1, unit: "piece" },
+    replacements: [
+      { name: "flaxseed", quantity: 1, unit: "tbsp" },
+      { name: "water", quantity: 3, unit: "tbsp" },
+    ],
+    notes: "Mix ground flax with water and rest 5 minutes until gel-like. Best for baking.",
+  },
+  {
+    ingredient: "egg",
+    per: { quantity: 1, unit: "piece" },
+    replacements: [{ name: "banana", quantity: 0.5, unit: "piece" }],
+    notes: "Mash well. Adds sweetness, so keep it to pancakes and bakes.",
+  },
+  {
+    ingredient: "sour cream",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [{ name: "yogurt", quantity: 1, unit: "cup" }],
+    notes: "Greek yogurt is closest in thickness.",
+  },
+  {
+    ingredient: "heavy cream",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [
+      { name: "milk", quantity: 0.75, unit: "cup" },
+      { name: "butter", quantity: 0.25, unit: "cup" },
+    ],
+    notes: "Melt the butter into the milk. Will not whip.",
+  },
+  {
+    ingredient: "milk",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [
+      { name: "yogurt", quantity: 0.5, unit: "cup" },
+      { name: "water", quantity: 0.5, unit: "cup" },
+    ],
+    notes: "Thin the yogurt with water before adding.",
+  },
+  {
+    ingredient: "butter",
+    per: { quantity: 1, unit: "tbsp" },
+    replacements: [{ name: "olive oil", quantity: 0.75, unit: "tbsp" }],
+    notes: "Fine for sautéing; crumbles and pastry lose some flakiness.",
+  },
+  {
+    ingredient: "lime",
+    per: { quantity: 1, unit: "piece" },
+    replacements: [{ name: "lemon", quantity: 1, unit: "piece" }],
+    notes: "Slightly less floral but the same acidity.",
+  },
+  {
+    ingredient: "lemon",
+    per: { quantity: 1, unit: "piece" },
+    replacements: [{ name: "lime", quantity: 1.5, unit: "piece" }],
+    notes: "Limes are smaller, so use a little extra.",
+  },
+  {
+    ingredient: "cilantro",
+    per: { quantity: 1, unit: "bunch" },
+    replacements: [{ name: "parsley", quantity: 1, unit: "bunch" }],
+    notes: "Add a squeeze of lime to brighten the flavour.",
+  },
+  {
+    ingredient: "scallion",
+    per: { quantity: 1, unit: "piece" },
+    replacements: [{ name: "onion", quantity: 0.15, unit: "piece" }],
+    notes: "Slice very thinly; use raw onion sparingly.",
+  },
+  {
+    ingredient: "spinach",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [{ name: "kale", quantity: 1, unit: "cup" }],
+    notes: "Strip the stems and cook a couple of minutes longer.",
+  },
+  {
+    ingredient: "vegetable broth",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [
+      { name: "water", quantity: 1, unit: "cup" },
+      { name: "salt", quantity: 0.25, unit: "tsp" },
+    ],
+    notes: "Add extra aromatics to make up for the lost depth.",
+  },
+  {
+    ingredient: "honey",
+    per: { quantity: 1, unit: "tbsp" },
+    replacements: [{ name: "sugar", quantity: 1.25, unit: "tbsp" }],
+    notes: "Dissolve in a splash of warm liquid first.",
+  },
+  {
+    ingredient: "soy sauce",
+    per: { quantity: 1, unit: "tbsp" },
+    replacements: [{ name: "tamari", quantity: 1, unit: "tbsp" }],
+    notes: "Tamari is usually gluten-free.",
+  },
+  {
+    ingredient: "rice noodles",
+    per: { quantity: 100, unit: "g" },
+    replacements: [{ name: "spaghetti", quantity: 100, unit: "g" }],
+    notes: "Cook the pasta to the packet time before tossing with sauce.",
+  },
+  {
+    ingredient: "chicken breast",
+    per: { quantity: 250, unit: "g" },
+    replacements: [{ name: "chickpeas", quantity: 1, unit: "can" }],
+    notes: "Roast the chickpeas with the same seasoning for a vegetarian swap.",
+  },
+  {
+    ingredient: "parmesan",
+    per: { quantity: 1, unit: "cup" },
+    replacements: [{ name: "cheddar", quantity: 1, unit: "cup" }],
+    notes: "Use an aged, sharp cheddar.",
+  },
+];
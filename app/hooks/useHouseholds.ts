@@ -0,0 +1,79 @@
+import { Dispatch, SetStateAction, useCallback, useMemo } from "react";
+import type { DietaryProfile } from "@/lib/dietary";
+import {
+  DEFAULT_HOUSEHOLDS,
+  HouseholdProfile,
+  activeProfile,
+  combinePreferences,
+  dinersOf,
+  loadHouseholds,
+  saveHouseholds,
+  updateProfile,
+} from "@/lib/households";
+import type { PantryItem } from "@/lib/recommendations";
+import { usePersistedState } from "@/hooks/usePersistedState";
+
+// Household profiles, with setters for the active profile's pantry and dietary profile that
+// behave like plain state setters, so the rest of the page doesn't need to know about profiles.
+export const useHouseholds = () => {
+  const [households, setHouseholds, storage] = usePersistedState(
+    DEFAULT_HOUSEHOLDS,
+    loadHouseholds,
+    saveHouseholds
+  );
+
+  const updateActive = useCallback(
+    (update: (profile: HouseholdProfile) => HouseholdProfile) =>
+      setHouseholds((current) => updateProfile(current, activeProfile(current).id, update)),
+    [setHouseholds]
+  );
+
+  const setPantryItems = useCallback<Dispatch<SetStateAction<PantryItem[]>>>(
+    (action) =>
+      updateActive((profile) => ({
+        ...profile,
+        pantry: typeof action === "function" ? action(profile.pantry) : action,
+      })),
+    [updateActive]
+  );
+
+  const setDietaryProfile = useCallback<Dispatch<SetStateAction<DietaryProfile>>>(
+    (action) =>
+      updateActive((profile) => ({
+        ...profile,
+        dietary: typeof action === "function" ? action(profile.dietary) : action,
+      })),
+    [updateActive]
+  );
+
+  // For changes that belong to a particular profile, such as undoing a meal it cooked. A profile
+  // that has since been removed falls back to the active one.
+  const setPantryOf = useCallback(
+    (id: string | undefined, update: (pantry: PantryItem[]) => PantryItem[]) =>
+      setHouseholds((current) => {
+        const target =
+          current.profiles.find((profile) => profile.id === id) ?? activeProfile(current);
+        return updateProfile(current, target.id, (profile) => ({
+          ...profile,
+          pantry: update(profile.pantry),
+        }));
+      }),
+    [setHouseholds]
+  );
+
+  const diners = useMemo(() => dinersOf(households), [households]);
+  const preferences = useMemo(() => combinePreferences(diners), [diners]);
+
+  return {
+    households,
+    setHouseholds,
+    profile: activeProfile(households),
+    updateActive,
+    setPantryItems,
+    setPantryOf,
+    setDietaryProfile,
+    diners,
+    preferences,
+    storage,
+  };
+};
@@ -0,0 +1,10 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { ModelStatus, getModelStatus, subscribeModelStatus } from "@/lib/visionWorker";
+
+const SERVER_STATUS: ModelStatus = { state: "idle", loaded: 0, fraction: null };
+
+// Download and load state of a provider's model in the vision worker.
+export const useModelStatus = (providerId: string) => {
+  const getSnapshot = useCallback(() => getModelStatus(providerId), [providerId]);
+  return useSyncExternalStore(subscribeModelStatus, getSnapshot, () => SERVER_STATUS);
+};
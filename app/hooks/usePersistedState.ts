@@ -0,0 +1,43 @@
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+
+// Keeps state in sync with an async store. Nothing is written back until the
+// saved value has loaded, so a slow read can't be clobbered by the initial value.
+export const usePersistedState = <T>(
+  initialValue: T,
+  load: () => Promise<T | undefined>,
+  save: (value: T) => Promise<void>
+): [T, Dispatch<SetStateAction<T>>, { hydrated: boolean; error: string | null }] => {
+  const [value, setValue] = useState<T>(initialValue);
+  const [hydrated, setHydrated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    load()
+      .then((stored) => {
+        if (!cancelled && stored !== undefined) setValue(stored);
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Could not load saved data.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // The loader only runs once per mount.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    save(value).catch((saveError: unknown) => {
+      setError(saveError instanceof Error ? saveError.message : "Could not save changes.");
+    });
+  }, [hydrated, save, value]);
+
+  return [value, setValue, { hydrated, error }];
+};
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Detection } from "@/lib/detections";
+import {
+  QueuedPhoto,
+  detectPhoto,
+  fileFingerprint,
+  isPhotoActive,
+  queuePhoto,
+} from "@/lib/photoQueue";
+import type { VisionProvider } from "@/lib/vision";
+
+// Runs photos through the vision provider one at a time, since they all share one model.
+// Photos added while the queue is running join the end of it.
+export const usePhotoQueue = (provider: VisionProvider) => {
+  const [photos, setPhotos] = useState<QueuedPhoto[]>([]);
+  const photosRef = useRef<QueuedPhoto[]>([]);
+  const waitingRef = useRef<QueuedPhoto[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const runningRef = useRef(false);
+
+  const commit = useCallback((update: (current: QueuedPhoto[]) => QueuedPhoto[]) => {
+    photosRef.current = update(photosRef.current);
+    setPhotos(photosRef.current);
+  }, []);
+
+  const updatePhoto = useCallback(
+    (id: string, changes: Partial<QueuedPhoto>) =>
+      commit((current) =>
+        current.map((photo) => (photo.id === id ? { ...photo, ...changes } : photo))
+      ),
+    [commit]
+  );
+
+  const run = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    try {
+      for (let photo = waitingRef.current.shift(); photo; photo = waitingRef.current.shift()) {
+        const { id } = photo;
+        const controller = new AbortController();
+        controllersRef.current.set(id, controller);
+        try {
+          const result = await detectPhoto(photo, provider, controller.signal, (status, progress) =>
+            updatePhoto(id, { status, progress })
+          );
+          updatePhoto(id, { ...result, status: "done", progress: 1 });
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            updatePhoto(id, {
+              status: "failed",
+              progress: 1,
+              error: error instanceof Error ? error.message : "Vision analysis failed.",
+            });
+          }
+        } finally {
+          controllersRef.current.delete(id);
+        }
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, [provider, updatePhoto]);
+
+  // Returns how many files were skipped because they are already in the queue.
+  const enqueue = useCallback(
+    (files: File[]) => {
+      const known = new Set(photosRef.current.map((photo) => photo.fingerprint));
+      const fresh = files.filter((file) => {
+        const fingerprint = fileFingerprint(file);
+        if (known.has(fingerprint)) return false;
+        known.add(fingerprint);
+        return true;
+      });
+      const queued = fresh.map((file, index) => queuePhoto(file, URL.createObjectURL(file), index));
+      commit((current) => [...current, ...queued]);
+      waitingRef.current.push(...queued);
+      void run();
+      return files.length - fresh.length;
+    },
+    [commit, run]
+  );
+
+  const cancel = useCallback(
+    (id: string) => {
+      waitingRef.current = waitingRef.current.filter((photo) => photo.id !== id);
+      controllersRef.current.get(id)?.abort();
+      updatePhoto(id, { status: "cancelled", progress: 1 });
+    },
+    [updatePhoto]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      const photo = photosRef.current.find((entry) => entry.id === id);
+      if (!photo) return;
+      if (isPhotoActive(photo)) cancel(id);
+      URL.revokeObjectURL(photo.imageUrl);
+      commit((current) => current.filter((entry) => entry.id !== id));
+    },
+    [cancel, commit]
+  );
+
+  // Keeps what the user accepted, rejected or relabelled, so the photo can be added with the rest.
+  const saveReview = useCallback(
+    (id: string, detections: Detection[], threshold: number) =>
+      updatePhoto(id, { detections, threshold }),
+    [updatePhoto]
+  );
+
+  const clear = useCallback(() => {
+    waitingRef.current = [];
+    controllersRef.current.forEach((controller) => controller.abort());
+    photosRef.current.forEach((photo) => URL.revokeObjectURL(photo.imageUrl));
+    commit(() => []);
+  }, [commit]);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    const current = photosRef;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      current.current.forEach((photo) => URL.revokeObjectURL(photo.imageUrl));
+    };
+  }, []);
+
+  return {
+    photos,
+    busy: photos.some(isPhotoActive),
+    enqueue,
+    cancel,
+    remove,
+    saveReview,
+    clear,
+  };
+};
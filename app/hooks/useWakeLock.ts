@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+
+// Keeps the screen on while `active`. Browsers drop the lock when the tab is hidden,
+// so it is requested again whenever the page becomes visible.
+export const useWakeLock = (active: boolean) => {
+  const [locked, setLocked] = useState(false);
+
+  useEffect(() => {
+    if (!active || typeof navigator === "undefined" || !("wakeLock" in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const request = async () => {
+      try {
+        const next = await navigator.wakeLock.request("screen");
+        if (cancelled) {
+          await next.release();
+          return;
+        }
+        sentinel = next;
+        setLocked(true);
+        next.addEventListener("release", () => setLocked(false));
+      } catch {
+        // Denied (e.g. battery saver); the screen just follows its normal timeout.
+        setLocked(false);
+      }
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible" && (!sentinel || sentinel.released)) {
+        void request();
+      }
+    };
+
+    void request();
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", handleVisibility);
+      void sentinel?.release();
+      setLocked(false);
+    };
+  }, [active]);
+
+  return locked;
+};
@@ -0,0 +1,76 @@
+import type { ModelSpec } from "@/lib/modelCache";
+import type { VisionEngine } from "@/lib/vision";
+
+// COCO-SSD only has a handful of food classes; everything else it sees is ignored.
+export const COCO_LABEL_MAP: Record<string, string> = {
+  apple: "apple",
+  banana: "banana",
+  orange: "orange",
+  broccoli: "broccoli",
+  carrot: "carrot",
+};
+
+// Pinned to the weights @tensorflow-models/coco-ssd 2.2.3 loads for lite_mobilenet_v2.
+export const COCO_SSD_MODEL: ModelSpec = {
+  id: "coco-ssd",
+  version: "ssdlite_mobilenet_v2@2.2.3",
+  baseUrl: "https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/",
+};
+
+type CocoSsdModule = typeof import("@tensorflow-models/coco-ssd");
+
+type VisionModel = Awaited<ReturnType<CocoSsdModule["load"]>>;
+
+let modelPromise: Promise<VisionModel> | null = null;
+
+const loadVisionModel = async () => {
+  if (!modelPromise) {
+    modelPromise = import("@tensorflow-models/coco-ssd")
+      .then(async (mod) => {
+        await import("@tensorflow/tfjs");
+        return mod.load({
+          base: "lite_mobilenet_v2",
+          modelUrl: `${COCO_SSD_MODEL.baseUrl}model.json`,
+        });
+      })
+      .catch((error: unknown) => {
+        modelPromise = null;
+        throw new Error(
+          `COCO-SSD could not be downloaded${error instanceof Error ? `: ${error.message}` : "."}`
+        );
+      });
+  }
+  return modelPromise;
+};
+
+// Runs inside the vision worker; see lib/vision.worker.ts.
+export const cocoSsdEngine: VisionEngine = {
+  model: COCO_SSD_MODEL,
+  load: async () => {
+    await loadVisionModel();
+  },
+  detect: async (image, { maxResults = 20, minScore = 0.5 } = {}) => {
+    const model = await loadVisionModel();
+    const tf = await import("@tensorflow/tfjs");
+    const pixels = tf.browser.fromPixels(image);
+    try {
+      const predictions = await model.detect(pixels, maxResults, minScore);
+      return predictions.flatMap((prediction) => {
+        const ingredient = COCO_LABEL_MAP[prediction.class];
+        return ingredient ? [{ ...prediction, class: ingredient }] : [];
+      });
+    } finally {
+      pixels.dispose();
+    }
+  },
+  release: async () => {
+    const pending = modelPromise;
+    modelPromise = null;
+    if (!pending) return;
+    try {
+      (await pending).dispose();
+    } catch {
+      // A model that failed to load has nothing to release.
+    }
+  },
+};
@@ -0,0 +1,155 @@
+import type { Recipe, RecipeIngredient } from "@/data/recipes";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import { Migrations, loadVersioned, saveVersioned } from "@/lib/storage";
+
+export type StepDuration = {
+  // The phrase the duration was read from, e.g. "10 minutes".
+  text: string;
+  seconds: number;
+};
+
+export type CookTimer = {
+  id: string;
+  label: string;
+  step: number;
+  durationSeconds: number;
+  // Epoch milliseconds while running; null while paused.
+  endsAt: number | null;
+  // Seconds left when paused.
+  remainingSeconds: number;
+  // Set once the alarm has sounded, so a reload doesn't ring it again.
+  finished: boolean;
+};
+
+export type CookSession = {
+  recipeId: string;
+  servings: number;
+  step: number;
+  timers: CookTimer[];
+  startedAt: string;
+};
+
+const SESSION_KEY = "cook-session";
+const SESSION_SCHEMA_VERSION = 1;
+const migrations: Migrations = {};
+
+export const loadCookSession = () =>
+  loadVersioned<CookSession | null>(SESSION_KEY, SESSION_SCHEMA_VERSION, migrations);
+
+export const saveCookSession = (session: CookSession | null) =>
+  saveVersioned(SESSION_KEY, SESSION_SCHEMA_VERSION, session);
+
+export const startCookSession = (
+  recipe: Recipe,
+  servings: number,
+  now = new Date()
+): CookSession => ({
+  recipeId: recipe.id,
+  servings,
+  step: 0,
+  timers: [],
+  startedAt: now.toISOString(),
+});
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  "forty-five": 45,
+  sixty: 60,
+};
+
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^(h|hrs?|hours?)$/, 3600],
+  [/^(m|mins?|minutes?)$/, 60],
+  [/^(s|secs?|seconds?)$/, 1],
+];
+
+// Longest words first, so "forty-five" isn't read as "forty".
+const NUMBER = `\\d+(?:[.,]\\d+)?|${Object.keys(WORD_NUMBERS)
+  .sort((a, b) => b.length - a.length)
+  .join("|")}`;
+// "10 minutes", "8-10 min", "1 to 2 hours", "an hour", "90s". Single-letter units only count
+// right after a digit, so "2 m of string" isn't a timer.
+const DURATION = new RegExp(
+  `\\b(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?(\\s*(?:hours?|hrs?|minutes?|mins?|seconds?|secs?)|(?<=\\d)[hms])\\b`,
+  "gi"
+);
+
+const toNumber = (token: string) =>
+  WORD_NUMBERS[token.toLowerCase()] ?? Number.parseFloat(token.replace(",", "."));
+
+// Ranges start a timer for the lower bound, so the cook checks early rather than late.
+export const detectDurations = (step: string): StepDuration[] =>
+  [...step.matchAll(DURATION)].flatMap((match) => {
+    const amount = toNumber(match[1]);
+    const unit = UNIT_SECONDS.find(([pattern]) => pattern.test(match[3].trim().toLowerCase()));
+    if (!unit || !Number.isFinite(amount) || amount <= 0) return [];
+    return [{ text: match[0], seconds: Math.round(amount * unit[1]) }];
+  });
+
+const mentions = (text: string, name: string) => {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}(e?s)?\\b`, "i").test(text);
+};
+
+// Ingredients a step names, scaled to the servings being cooked.
+export const stepIngredients = (
+  step: string,
+  recipe: Recipe,
+  servings: number
+): RecipeIngredient[] => {
+  const multiplier = servings / recipe.baseServings;
+  return recipe.ingredients
+    .filter(
+      (ingredient) =>
+        mentions(step, ingredient.name) || mentions(step, canonicalizeIngredient(ingredient.name))
+    )
+    .map((ingredient) => ({ ...ingredient, quantity: ingredient.quantity * multiplier }));
+};
+
+export const createTimer = (duration: StepDuration, step: number, now = Date.now()): CookTimer => ({
+  id: `${step}-${duration.text}-${now}`,
+  label: `Step ${step + 1}: ${duration.text}`,
+  step,
+  durationSeconds: duration.seconds,
+  endsAt: now + duration.seconds * 1000,
+  remainingSeconds: duration.seconds,
+  finished: false,
+});
+
+export const timerRemaining = (timer: CookTimer, now = Date.now()) =>
+  timer.endsAt === null
+    ? timer.remainingSeconds
+    : Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+
+export const pauseTimer = (timer: CookTimer, now = Date.now()): CookTimer => ({
+  ...timer,
+  endsAt: null,
+  remainingSeconds: timerRemaining(timer, now),
+});
+
+export const resumeTimer = (timer: CookTimer, now = Date.now()): CookTimer => ({
+  ...timer,
+  endsAt: now + timer.remainingSeconds * 1000,
+});
+
+export const formatTimer = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+};
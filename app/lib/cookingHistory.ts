@@ -0,0 +1,85 @@
+import type { Recipe } from "@/data/recipes";
+import type { PantryDeduction } from "@/lib/pantry";
+import type { PantryItem } from "@/lib/recommendations";
+import { Migrations, loadVersioned, saveVersioned } from "@/lib/storage";
+
+export type CookingHistoryEntry = {
+  id: string;
+  recipeId: string;
+  recipeName: string;
+  servings: number;
+  cookedAt: string;
+  // The household profile whose pantry was cooked from; unset for entries from before profiles.
+  profileId?: string;
+  deductions: PantryDeduction[];
+  // Snapshots of items the deductions used up, so undo can bring them back.
+  removedItems: PantryItem[];
+};
+
+const HISTORY_KEY = "cooking-history";
+const HISTORY_SCHEMA_VERSION = 1;
+const HISTORY_LIMIT = 50;
+const migrations: Migrations = {};
+
+// A dish cooked today is pushed down by this much; the penalty fades out over a week.
+export const RECENTLY_COOKED_PENALTY = 0.3;
+const PENALTY_WINDOW_DAYS = 7;
+
+export const loadHistory = () =>
+  loadVersioned<CookingHistoryEntry[]>(HISTORY_KEY, HISTORY_SCHEMA_VERSION, migrations);
+
+export const saveHistory = (entries: CookingHistoryEntry[]) =>
+  saveVersioned(HISTORY_KEY, HISTORY_SCHEMA_VERSION, entries.slice(0, HISTORY_LIMIT));
+
+export const createHistoryEntry = (
+  recipe: Recipe,
+  servings: number,
+  deductions: PantryDeduction[],
+  pantry: PantryItem[],
+  profileId?: string,
+  now = new Date()
+): CookingHistoryEntry => {
+  const removed = new Set(
+    deductions.filter((deduction) => deduction.removesItem).map((deduction) => deduction.pantryName)
+  );
+  return {
+    id: `${recipe.id}-${now.getTime()}`,
+    recipeId: recipe.id,
+    recipeName: recipe.name,
+    servings,
+    cookedAt: now.toISOString(),
+    ...(profileId && { profileId }),
+    deductions,
+    removedItems: pantry.filter((item) => removed.has(item.name)),
+  };
+};
+
+// Adds deducted amounts back onto whatever the pantry holds now, so edits made
+// after cooking are kept.
+export const revertHistoryEntry = (pantry: PantryItem[], entry: CookingHistoryEntry) => {
+  const restored = new Map<string, number>();
+  entry.deductions.forEach(({ pantryName, amount }) => {
+    if (amount !== undefined) restored.set(pantryName, (restored.get(pantryName) ?? 0) + amount);
+  });
+  const next = pantry.map((item) => {
+    const amount = restored.get(item.name);
+    if (amount === undefined || item.quantity === undefined) return item;
+    restored.delete(item.name);
+    return { ...item, quantity: Number.parseFloat((item.quantity + amount).toFixed(3)) };
+  });
+  entry.removedItems.forEach((item) => {
+    if (!next.some((current) => current.name === item.name)) next.push(item);
+  });
+  return next;
+};
+
+export const recentlyCookedPenalty = (
+  recipeId: string,
+  history: CookingHistoryEntry[],
+  now = new Date()
+) => {
+  const latest = history.find((entry) => entry.recipeId === recipeId);
+  if (!latest) return 0;
+  const daysAgo = (now.getTime() - new Date(latest.cookedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return RECENTLY_COOKED_PENALTY * Math.max(0, 1 - daysAgo / PENALTY_WINDOW_DAYS);
+};
@@ -0,0 +1,165 @@
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+
+// [x, y, width, height] in the image's natural pixel size.
+export type BoundingBox = [number, number, number, number];
+
+export type DetectionDecision = "pending" | "accepted" | "rejected";
+
+export type Detection = {
+  id: string;
+  label: string;
+  // What the model called it, kept so relabelled boxes can show the original guess.
+  detectedLabel: string;
+  score: number;
+  bbox: BoundingBox;
+  decision: DetectionDecision;
+  // The batch photo the box was found in; unset for single photos and live scans.
+  photoId?: string;
+};
+
+export type VisionReview = {
+  id: string;
+  imageUrl: string;
+  width: number;
+  height: number;
+  detections: Detection[];
+  threshold: number;
+};
+
+export type RawPrediction = {
+  class: string;
+  score: number;
+  bbox: BoundingBox | number[];
+};
+
+// The model is asked for everything above this so the threshold can be lowered during review.
+export const MIN_DETECTION_SCORE = 0.2;
+export const DEFAULT_DETECTION_THRESHOLD = 0.4;
+
+export const createDetections = (
+  predictions: RawPrediction[],
+  allowedLabels: Set<string>
+): Detection[] =>
+  predictions
+    .map((prediction) => ({ ...prediction, label: prediction.class.toLowerCase() }))
+    .filter(({ label }) => allowedLabels.has(label))
+    .sort((a, b) => b.score - a.score)
+    .map(({ label, score, bbox }, index) => {
+      const [x = 0, y = 0, width = 0, height = 0] = bbox;
+      return {
+        id: `${label}-${index}`,
+        label,
+        detectedLabel: label,
+        score,
+        bbox: [x, y, width, height],
+        decision: "pending",
+      };
+    });
+
+export const detectionsAbove = (detections: Detection[], threshold: number) =>
+  detections.filter((detection) => detection.score >= threshold);
+
+export const averageScore = (detections: Detection[]) =>
+  detections.length
+    ? detections.reduce((total, detection) => total + detection.score, 0) / detections.length
+    : 0;
+
+// Every accepted box is one item, so three apple boxes become three apples.
+export const confirmedPantryItems = (detections: Detection[], threshold: number): PantryItem[] => {
+  const counts = new Map<string, number>();
+  detectionsAbove(detections, threshold)
+    .filter((detection) => detection.decision === "accepted")
+    .forEach((detection) => {
+      const name = canonicalizeIngredient(detection.label);
+      if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+    });
+  return [...counts].map(([name, quantity]) => ({ name, quantity }));
+};
+
+// An object followed across live video frames so it is only counted once.
+export type TrackedObject = {
+  id: string;
+  label: string;
+  bbox: BoundingBox;
+  bestScore: number;
+  hits: number;
+  lastSeen: number;
+};
+
+// Same-class boxes overlapping at least this much with a recent track are the same object.
+const TRACK_MIN_OVERLAP = 0.3;
+// A track missing for longer than this no longer absorbs new boxes.
+const TRACK_TIMEOUT_MS = 2000;
+// Boxes seen in a single frame are treated as flicker until they show up again.
+export const MIN_TRACK_HITS = 2;
+
+export const intersectionOverUnion = (a: BoundingBox, b: BoundingBox) => {
+  const width = Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]);
+  const height = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]);
+  if (width <= 0 || height <= 0) return 0;
+  const overlap = width * height;
+  return overlap / (a[2] * a[3] + b[2] * b[3] - overlap);
+};
+
+// Matches each box to the best-overlapping live track of the same ingredient, or starts a new one.
+export const trackDetections = (
+  tracks: TrackedObject[],
+  detections: Detection[],
+  now: number
+): TrackedObject[] => {
+  const next = tracks.filter(
+    (track) => track.hits >= MIN_TRACK_HITS || now - track.lastSeen <= TRACK_TIMEOUT_MS
+  );
+  const claimed = new Set<string>();
+
+  detections.forEach((detection) => {
+    const label = canonicalizeIngredient(detection.label);
+    let best: { index: number; overlap: number } | null = null;
+    next.forEach((track, index) => {
+      if (track.label !== label || claimed.has(track.id)) return;
+      if (now - track.lastSeen > TRACK_TIMEOUT_MS) return;
+      const overlap = intersectionOverUnion(track.bbox, detection.bbox);
+      if (overlap >= TRACK_MIN_OVERLAP && (!best || overlap > best.overlap)) {
+        best = { index, overlap };
+      }
+    });
+
+    if (best) {
+      const { index } = best;
+      const track = next[index];
+      next[index] = {
+        ...track,
+        bbox: detection.bbox,
+        bestScore: Math.max(track.bestScore, detection.score),
+        hits: track.hits + 1,
+        lastSeen: now,
+      };
+      claimed.add(track.id);
+      return;
+    }
+    const track: TrackedObject = {
+      id: `${label}-${now}-${next.length}`,
+      label,
+      bbox: detection.bbox,
+      bestScore: detection.score,
+      hits: 1,
+      lastSeen: now,
+    };
+    next.push(track);
+    claimed.add(track.id);
+  });
+
+  return next;
+};
+
+export const confirmedTracks = (tracks: TrackedObject[]) =>
+  tracks.filter((track) => track.hits >= MIN_TRACK_HITS);
+
+export const seenSoFar = (tracks: TrackedObject[]): PantryItem[] => {
+  const counts = new Map<string, number>();
+  confirmedTracks(tracks).forEach((track) =>
+    counts.set(track.label, (counts.get(track.label) ?? 0) + 1)
+  );
+  return [...counts].map(([name, quantity]) => ({ name, quantity }));
+};
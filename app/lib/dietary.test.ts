@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { IngredientFact } from "@/data/allergens";
+import { ingredientFacts } from "@/lib/dietary";
+
+describe("ingredientFacts", () => {
+  const FACTS: [string, IngredientFact[]][] = [
+    ["butter", ["dairy"]],
+    ["salted butter", ["dairy"]],
+    ["almond butter", ["tree-nut"]],
+    ["mixed nut butter", ["tree-nut", "peanut"]],
+    ["roasted cashew butter", ["tree-nut"]],
+    ["sunflower seed butter", []],
+    ["pumpkin seed butter", []],
+  ];
+
+  FACTS.forEach(([name, facts]) => {
+    it(`tags "${name}"`, () => {
+      assert.deepEqual([...ingredientFacts(name)].sort(), [...facts].sort());
+    });
+  });
+});
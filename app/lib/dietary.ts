@@ -0,0 +1,113 @@
+import { FACT_KEYWORDS, FACT_LABELS, INGREDIENT_FACTS, IngredientFact } from "@/data/allergens";
+import type { Recipe } from "@/data/recipes";
+import { canonicalizeIngredient, ingredientAncestors } from "@/lib/ingredients";
+import { Migrations, loadVersioned } from "@/lib/storage";
+
+export type DietaryRestriction = "vegetarian" | "vegan" | "gluten-free" | "dairy-free" | "nut-free";
+
+export const DIETARY_RESTRICTIONS: { id: DietaryRestriction; label: string }[] = [
+  { id: "vegetarian", label: "Vegetarian" },
+  { id: "vegan", label: "Vegan" },
+  { id: "gluten-free", label: "Gluten-free" },
+  { id: "dairy-free", label: "Dairy-free" },
+  { id: "nut-free", label: "Nut-free" },
+];
+
+const FORBIDDEN_FACTS: Record<DietaryRestriction, IngredientFact[]> = {
+  vegetarian: ["meat", "seafood"],
+  vegan: ["meat", "seafood", "dairy", "egg", "animal-product"],
+  "gluten-free": ["gluten"],
+  "dairy-free": ["dairy"],
+  "nut-free": ["peanut", "tree-nut"],
+};
+
+export type DietaryProfile = {
+  restrictions: DietaryRestriction[];
+  // Anything the household will not eat; excluding "cheese" also rules out "parmesan".
+  excludedIngredients: string[];
+  // "exclude" drops recipes that break the profile, "flag" keeps them with the reason shown.
+  onConflict: "exclude" | "flag";
+};
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = {
+  restrictions: [],
+  excludedIngredients: [],
+  onConflict: "exclude",
+};
+
+export type DietaryConflict = {
+  ingredient: string;
+  reason: string;
+};
+
+const NUT_FACTS: IngredientFact[] = ["peanut", "tree-nut"];
+
+// "Mixed nut butter" or "sunflower seed butter" is a spread, so its "butter" isn't dairy.
+const isSpreadButter = (word: string, previous?: string) =>
+  word === "butter" &&
+  previous !== undefined &&
+  (previous === "seed" || (FACT_KEYWORDS[previous] ?? []).some((fact) => NUT_FACTS.includes(fact)));
+
+export const ingredientFacts = (name: string): IngredientFact[] => {
+  const canonical = canonicalizeIngredient(name);
+  const known = [canonical, ...ingredientAncestors(canonical)]
+    .map((candidate) => INGREDIENT_FACTS[candidate])
+    .find((facts) => facts !== undefined);
+  if (known) return known;
+  const words = canonical.split(" ").map((word) => canonicalizeIngredient(word));
+  const facts = words.flatMap((word, index) =>
+    isSpreadButter(word, words[index - 1]) ? [] : (FACT_KEYWORDS[word] ?? [])
+  );
+  return [...new Set(facts)];
+};
+
+export const recipeFacts = (recipe: Recipe) => [
+  ...new Set(recipe.ingredients.flatMap((ingredient) => ingredientFacts(ingredient.name))),
+];
+
+// The entry in `names` that covers `ingredient`, directly or through a more general name.
+const listedIn = (ingredient: string, names: string[]) => {
+  const canonical = canonicalizeIngredient(ingredient);
+  const lineage = [canonical, ...ingredientAncestors(canonical)];
+  return names.find((name) => lineage.includes(canonicalizeIngredient(name)));
+};
+
+// Recipe ingredients that fall under any of `names`, e.g. "parmesan" under a dislike of "cheese".
+export const ingredientsListedIn = (recipe: Recipe, names: string[]) =>
+  names.length
+    ? recipe.ingredients
+        .map((ingredient) => ingredient.name)
+        .filter((ingredient) => listedIn(ingredient, names))
+    : [];
+
+export const dietaryConflicts = (recipe: Recipe, profile: DietaryProfile): DietaryConflict[] =>
+  recipe.ingredients.flatMap((ingredient) => {
+    const excluded = listedIn(ingredient.name, profile.excludedIngredients);
+    if (excluded) {
+      return [{ ingredient: ingredient.name, reason: `on your exclusion list (${excluded})` }];
+    }
+    const facts = ingredientFacts(ingredient.name);
+    const broken = profile.restrictions.find((restriction) =>
+      FORBIDDEN_FACTS[restriction].some((fact) => facts.includes(fact))
+    );
+    if (!broken) return [];
+    const fact = facts.find((entry) => FORBIDDEN_FACTS[broken].includes(entry))!;
+    const label = DIETARY_RESTRICTIONS.find((entry) => entry.id === broken)?.label ?? broken;
+    return [
+      {
+        ingredient: ingredient.name,
+        reason: `contains ${FACT_LABELS[fact]}, not ${label.toLowerCase()}`,
+      },
+    ];
+  });
+
+export const isProfileActive = (profile: DietaryProfile) =>
+  profile.restrictions.length > 0 || profile.excludedIngredients.length > 0;
+
+const PROFILE_KEY = "dietary-profile";
+const PROFILE_SCHEMA_VERSION = 1;
+const migrations: Migrations = {};
+
+// Profiles are saved with their household now; this only reads the profile stored before that.
+export const loadDietaryProfile = () =>
+  loadVersioned<DietaryProfile>(PROFILE_KEY, PROFILE_SCHEMA_VERSION, migrations);
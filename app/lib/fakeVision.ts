@@ -0,0 +1,48 @@
+import type { RawPrediction } from "@/lib/detections";
+import type { VisionProvider } from "@/lib/vision";
+
+export type FakeVisionOptions = {
+  // Fixed predictions, or one set per call (the call index starts at 0) to script video frames.
+  predictions: RawPrediction[] | ((call: number) => RawPrediction[]);
+  labels?: string[];
+  // Makes load and detect reject, to exercise error handling.
+  loadError?: string;
+};
+
+// A provider that never touches TensorFlow, for tests and offline demos.
+export const createFakeVisionProvider = ({
+  predictions,
+  labels,
+  loadError,
+}: FakeVisionOptions): VisionProvider & { calls: () => number; released: () => boolean } => {
+  let calls = 0;
+  let released = false;
+
+  const load = async () => {
+    if (loadError) throw new Error(loadError);
+    released = false;
+  };
+
+  return {
+    id: "fake",
+    label: "Fake detector",
+    description: "Returns scripted predictions without loading a model.",
+    labels:
+      labels ??
+      (Array.isArray(predictions)
+        ? [...new Set(predictions.map((prediction) => prediction.class))].sort()
+        : []),
+    load,
+    detect: async (_input, { maxResults, minScore = 0 } = {}) => {
+      await load();
+      const frame = Array.isArray(predictions) ? predictions : predictions(calls);
+      calls += 1;
+      return frame.filter((prediction) => prediction.score >= minScore).slice(0, maxResults);
+    },
+    release: async () => {
+      released = true;
+    },
+    calls: () => calls,
+    released: () => released,
+  };
+};
@@ -0,0 +1,134 @@
+import { GROCERY_LABEL_MAP } from "@/data/groceryLabels";
+import type { RawPrediction } from "@/lib/detections";
+import type { ModelSpec } from "@/lib/modelCache";
+import type { VisionEngine } from "@/lib/vision";
+import type { Tensor } from "@tensorflow/tfjs";
+
+type Tf = typeof import("@tensorflow/tfjs");
+type LayersModel = Awaited<ReturnType<Tf["loadLayersModel"]>>;
+
+// Served from public/models/grocery: a Teachable Machine style export with
+// model.json, its weight shards and metadata.json listing the class order.
+export const GROCERY_MODEL_URL = "/models/grocery";
+const INPUT_SIZE = 224;
+
+// Bump the version when the files in public/models/grocery are replaced.
+export const GROCERY_MODEL: ModelSpec = {
+  id: "grocery-classifier",
+  version: "1",
+  baseUrl: `${GROCERY_MODEL_URL}/`,
+};
+
+type GroceryModel = {
+  tf: Tf;
+  model: LayersModel;
+  classes: string[];
+};
+
+let groceryPromise: Promise<GroceryModel> | null = null;
+
+const fail = (problem: string): never => {
+  throw new Error(
+    `Grocery model ${problem}. Check the files in public${GROCERY_MODEL_URL} or switch back to COCO-SSD in vision settings.`
+  );
+};
+
+// Goes through TF.js's fetch so metadata.json is cached alongside the weights.
+const loadClasses = async (tf: Tf) => {
+  const response = await tf.util.fetch(`${GROCERY_MODEL_URL}/metadata.json`).catch(() => null);
+  if (!response?.ok) return fail(`not found at ${GROCERY_MODEL_URL}/metadata.json`);
+  const metadata: unknown = await response.json().catch(() => null);
+  const labels = (metadata as { labels?: unknown } | null)?.labels;
+  if (!Array.isArray(labels) || !labels.every((label) => typeof label === "string")) {
+    return fail('metadata.json is corrupt: expected a "labels" array of class names');
+  }
+  return labels as string[];
+};
+
+const loadGroceryModel = async (): Promise<GroceryModel> => {
+  const tf = await import("@tensorflow/tfjs");
+  const classes = await loadClasses(tf);
+  const model = await tf
+    .loadLayersModel(`${GROCERY_MODEL_URL}/model.json`)
+    .catch((error: unknown) =>
+      fail(
+        `could not be read${error instanceof Error ? ` (${error.message})` : ""}; model.json or a weight file is missing or corrupt`
+      )
+    );
+  const shape = model.outputs[0]?.shape ?? [];
+  const outputs = shape[shape.length - 1];
+  if (outputs !== classes.length) {
+    model.dispose();
+    fail(`has ${outputs ?? "no"} outputs but metadata.json lists ${classes.length} classes`);
+  }
+  return { tf, model, classes };
+};
+
+const getGroceryModel = () => {
+  if (!groceryPromise) {
+    groceryPromise = loadGroceryModel().catch((error: unknown) => {
+      groceryPromise = null;
+      throw error;
+    });
+  }
+  return groceryPromise;
+};
+
+const classify = async (
+  { tf, model, classes }: GroceryModel,
+  input: ImageBitmap
+): Promise<number[]> => {
+  const scores = tf.tidy(() => {
+    const pixels = tf.browser
+      .fromPixels(input)
+      .resizeBilinear([INPUT_SIZE, INPUT_SIZE])
+      .toFloat()
+      .div(127.5)
+      .sub(1)
+      .expandDims(0);
+    return model.predict(pixels) as Tensor;
+  });
+  const values = Array.from(await scores.data());
+  scores.dispose();
+  return values.slice(0, classes.length);
+};
+
+export const GROCERY_LABELS = [...new Set(Object.values(GROCERY_LABEL_MAP))].sort();
+
+// Runs inside the vision worker; see lib/vision.worker.ts.
+export const groceryEngine: VisionEngine = {
+  model: GROCERY_MODEL,
+  load: async () => {
+    await getGroceryModel();
+  },
+  detect: async (input, { maxResults = 3, minScore = 0.5 } = {}) => {
+    const loaded = await getGroceryModel();
+    const scores = await classify(loaded, input);
+    const { width, height } = input;
+    const best = new Map<string, number>();
+    scores.forEach((score, index) => {
+      const ingredient = GROCERY_LABEL_MAP[loaded.classes[index]];
+      if (ingredient && score >= minScore && score > (best.get(ingredient) ?? 0)) {
+        best.set(ingredient, score);
+      }
+    });
+    return [...best]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, maxResults)
+      .map(([ingredient, score]): RawPrediction => ({
+        class: ingredient,
+        score,
+        bbox: [0, 0, width, height],
+      }));
+  },
+  release: async () => {
+    const pending = groceryPromise;
+    groceryPromise = null;
+    if (!pending) return;
+    try {
+      (await pending).model.dispose();
+    } catch {
+      // A model that failed to load has nothing to release.
+    }
+  },
+};
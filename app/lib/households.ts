@@ -0,0 +1,136 @@
+import { DietaryProfile, EMPTY_DIETARY_PROFILE, loadDietaryProfile } from "@/lib/dietary";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import { loadPantry } from "@/lib/pantryStorage";
+import type { PantryItem } from "@/lib/recommendations";
+import { Migrations, loadVersioned, saveVersioned } from "@/lib/storage";
+
+// A household or a regular diner. Each profile keeps its own pantry; restrictions and
+// exclusions are hard rules, dislikes and favourite cuisines only nudge the ranking.
+export type HouseholdProfile = {
+  id: string;
+  name: string;
+  pantry: PantryItem[];
+  dietary: DietaryProfile;
+  dislikedIngredients: string[];
+  favouriteCuisines: string[];
+};
+
+export type Households = {
+  profiles: HouseholdProfile[];
+  // The profile being edited; its pantry is the one cooked from.
+  activeId: string;
+  // Everyone eating. Empty means just the active profile.
+  cookingFor: string[];
+};
+
+// What recipes are scored against when cooking for one or more profiles.
+export type DinerPreferences = {
+  dietary: DietaryProfile;
+  dislikedIngredients: string[];
+  favouriteCuisines: string[];
+};
+
+export const createProfile = (
+  name: string,
+  existing: HouseholdProfile[] = [],
+  now = new Date()
+): HouseholdProfile => {
+  const base = `profile-${now.getTime()}`;
+  let id = base;
+  for (let suffix = 2; existing.some((profile) => profile.id === id); suffix += 1) {
+    id = `${base}-${suffix}`;
+  }
+  return {
+    id,
+    name: name.trim() || "Household",
+    pantry: [],
+    dietary: EMPTY_DIETARY_PROFILE,
+    dislikedIngredients: [],
+    favouriteCuisines: [],
+  };
+};
+
+const DEFAULT_PROFILE: HouseholdProfile = {
+  ...createProfile("Home", [], new Date(0)),
+  id: "home",
+};
+
+export const DEFAULT_HOUSEHOLDS: Households = {
+  profiles: [DEFAULT_PROFILE],
+  activeId: DEFAULT_PROFILE.id,
+  cookingFor: [],
+};
+
+export const activeProfile = (households: Households) =>
+  households.profiles.find((profile) => profile.id === households.activeId) ??
+  households.profiles[0];
+
+export const updateProfile = (
+  households: Households,
+  id: string,
+  update: (profile: HouseholdProfile) => HouseholdProfile
+): Households => ({
+  ...households,
+  profiles: households.profiles.map((profile) => (profile.id === id ? update(profile) : profile)),
+});
+
+// The last profile can't be removed; there always has to be a pantry to cook from.
+export const removeProfile = (households: Households, id: string): Households => {
+  if (households.profiles.length <= 1) return households;
+  const profiles = households.profiles.filter((profile) => profile.id !== id);
+  return {
+    profiles,
+    activeId: households.activeId === id ? profiles[0].id : households.activeId,
+    cookingFor: households.cookingFor.filter((entry) => entry !== id),
+  };
+};
+
+export const dinersOf = (households: Households) => {
+  const diners = households.profiles.filter((profile) =>
+    households.cookingFor.includes(profile.id)
+  );
+  return diners.length ? diners : [activeProfile(households)];
+};
+
+const union = <T>(lists: T[][]) => [...new Set(lists.flat())];
+
+// Cooking for a group means everyone's rules at once: every restriction and exclusion applies,
+// recipes that break them are hidden if any diner hides them, and all dislikes count.
+export const combinePreferences = (profiles: HouseholdProfile[]): DinerPreferences => ({
+  dietary: {
+    restrictions: union(profiles.map((profile) => profile.dietary.restrictions)),
+    excludedIngredients: union(
+      profiles.map((profile) => profile.dietary.excludedIngredients.map(canonicalizeIngredient))
+    ),
+    onConflict: profiles.some((profile) => profile.dietary.onConflict === "exclude")
+      ? "exclude"
+      : "flag",
+  },
+  dislikedIngredients: union(
+    profiles.map((profile) => profile.dislikedIngredients.map(canonicalizeIngredient))
+  ),
+  favouriteCuisines: union(profiles.map((profile) => profile.favouriteCuisines)),
+});
+
+const HOUSEHOLDS_KEY = "households";
+const HOUSEHOLDS_SCHEMA_VERSION = 1;
+const migrations: Migrations = {};
+
+// Before profiles existed there was one pantry and one dietary profile; they become "Home".
+const loadLegacyHousehold = async (): Promise<Households | undefined> => {
+  const [pantry, dietary] = await Promise.all([loadPantry(), loadDietaryProfile()]);
+  if (!pantry && !dietary) return undefined;
+  return {
+    ...DEFAULT_HOUSEHOLDS,
+    profiles: [
+      { ...DEFAULT_PROFILE, pantry: pantry ?? [], dietary: dietary ?? EMPTY_DIETARY_PROFILE },
+    ],
+  };
+};
+
+export const loadHouseholds = async () =>
+  (await loadVersioned<Households>(HOUSEHOLDS_KEY, HOUSEHOLDS_SCHEMA_VERSION, migrations)) ??
+  loadLegacyHousehold();
+
+export const saveHouseholds = (households: Households) =>
+  saveVersioned(HOUSEHOLDS_KEY, HOUSEHOLDS_SCHEMA_VERSION, households);
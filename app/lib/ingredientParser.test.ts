@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ParsedIngredient,
+  needsReview,
+  parseIngredientText,
+  splitIngredientEntries,
+} from "@/lib/ingredientParser";
+
+type Expected = Partial<Pick<ParsedIngredient, "quantity" | "unit" | "name" | "notes">> & {
+  unmeasured?: boolean;
+  review?: boolean;
+  error?: boolean;
+};
+
+const range = (min: number, max = min) => ({ min, max });
+
+// Each row is a line as typed and the fields it should parse to; fields left out aren't checked.
+const CASES: [string, Expected][] = [
+  // Fractions
+  ["½ cup sugar", { quantity: range(0.5), unit: "cup", name: "sugar" }],
+  ["¾ tsp salt", { quantity: range(0.75), unit: "tsp", name: "salt" }],
+  ["1/4 cup milk", { quantity: range(0.25), unit: "cup", name: "milk" }],
+  ["1 1/2 cups flour", { quantity: range(1.5), unit: "cup", name: "flour" }],
+  ["1½ cups flour", { quantity: range(1.5), unit: "cup", name: "flour" }],
+  ["1 and a half cups rice", { quantity: range(1.5), unit: "cup", name: "rice" }],
+  ["1,5 kg potatoes", { quantity: range(1.5), unit: "kg", name: "potato" }],
+  // Ranges
+  ["2-3 cloves garlic", { quantity: range(2, 3), unit: "clove", name: "garlic" }],
+  ["2 to 3 tbsp olive oil", { quantity: range(2, 3), unit: "tbsp", name: "olive oil" }],
+  ["3 or 4 carrots", { quantity: range(3, 4), name: "carrot" }],
+  // Words for amounts
+  ["a dozen eggs", { quantity: range(1), unit: "dozen", name: "egg" }],
+  ["a bunch of cilantro", { quantity: range(1), unit: "bunch", name: "cilantro" }],
+  ["two onions", { quantity: range(2), name: "onion" }],
+  ["half a lemon", { quantity: range(0.5), name: "lemon" }],
+  ["a pinch of salt", { quantity: range(1), unit: "pinch", name: "salt" }],
+  ["a couple of tomatoes", { quantity: range(2), name: "tomato" }],
+  // Packs and containers
+  ["3 x 400g cans chopped tomatoes", { quantity: range(1200), unit: "g", name: "tomato" }],
+  ["2 × 400 g tins of chickpeas", { quantity: range(800), unit: "g", name: "chickpea" }],
+  ["1 (14 oz) can coconut milk", { quantity: range(14), unit: "oz", name: "coconut milk" }],
+  ["2 (6-ounce) salmon fillets", { quantity: range(12), unit: "oz" }],
+  ["1 can coconut milk", { quantity: range(1), unit: "can", name: "coconut milk" }],
+  ["1 can (400g) coconut milk", { quantity: range(400), unit: "g", name: "coconut milk" }],
+  ["2 jars (500 g each) passata", { quantity: range(1000), unit: "g" }],
+  // Notes
+  ["1 onion, diced", { quantity: range(1), name: "onion", notes: ["diced"] }],
+  ["2 large onions, finely chopped", { name: "onion", notes: ["large", "finely chopped"] }],
+  [
+    "200 g spinach (washed)",
+    { quantity: range(200), unit: "g", name: "spinach", notes: ["washed"] },
+  ],
+  ["1 tsp ground cumin", { unit: "tsp", name: "cumin", notes: ["ground"] }],
+  ["1 1/2 lbs ground beef", { quantity: range(1.5), unit: "lb", name: "ground beef", notes: [] }],
+  ["1 lb minced beef", { name: "ground beef", review: false }],
+  ["1 lb ground pork", { name: "ground pork", notes: [], review: false }],
+  ["½ cup chopped peanuts", { name: "peanut", notes: ["chopped"], review: false }],
+  ["freshly ground black pepper", { name: "black pepper", notes: ["freshly ground"] }],
+  ["salt to taste", { name: "salt", unmeasured: true, review: false }],
+  // Amounts at the end
+  ["eggs 12", { quantity: range(12), name: "egg" }],
+  ["flour 500 g", { quantity: range(500), unit: "g", name: "flour" }],
+  // Lines to flag or reject
+  ["3 cloves", { error: true }],
+  ["2 cups", { error: true }],
+  ["1 cup zzyzx root", { review: true }],
+  ["some basil", { review: true }],
+];
+
+describe("parseIngredientText", () => {
+  CASES.forEach(([line, expected]) => {
+    it(`reads "${line}"`, () => {
+      const parsed = parseIngredientText(line);
+      const { review, error, ...fields } = expected;
+      Object.entries(fields).forEach(([key, value]) => {
+        assert.deepEqual(parsed[key as keyof ParsedIngredient], value, key);
+      });
+      if (review !== undefined) assert.equal(needsReview(parsed), review, "review");
+      if (error !== undefined) assert.equal(Boolean(parsed.error), error, "error");
+      if (!error) assert.equal(parsed.error, undefined, parsed.error);
+    });
+  });
+});
+
+describe("splitIngredientEntries", () => {
+  const SPLITS: [string, string[]][] = [
+    ["2 onions, diced, 3 carrots", ["2 onions, diced", "3 carrots"]],
+    ["1,5 kg flour; 2 eggs", ["1,5 kg flour", "2 eggs"]],
+    ["- 1 cup rice\n• 2 tomatoes", ["1 cup rice", "2 tomatoes"]],
+    ["1 (14 oz, drained) can beans", ["1 (14 oz, drained) can beans"]],
+    ["1 onion, to taste", ["1 onion, to taste"]],
+  ];
+
+  SPLITS.forEach(([text, entries]) => {
+    it(`splits ${JSON.stringify(text)}`, () => {
+      assert.deepEqual(splitIngredientEntries(text), entries);
+    });
+  });
+});
@@ -0,0 +1,520 @@
+import { KNOWN_INGREDIENTS, canonicalizeIngredient, findBestMatch } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+import { parseUnit } from "@/lib/units";
+
+// An amount as written; `min` and `max` differ only for ranges such as "2-3" or "2 to 3".
+export type QuantityRange = {
+  min: number;
+  max: number;
+};
+
+export type ParsedIngredient = {
+  // The line as typed, kept for review.
+  source: string;
+  quantity?: QuantityRange;
+  unit?: string;
+  // Canonical ingredient name, e.g. "tomato" for "ripe tomatoes".
+  name: string;
+  // Size and preparation notes: "diced", "finely chopped", "400g".
+  notes: string[];
+  // "Salt to taste" and similar lines that deliberately have no amount.
+  unmeasured: boolean;
+  // 0–1: how sure the parser is that it read the line as meant.
+  confidence: number;
+  // Why confidence was lowered, most serious first.
+  issues: string[];
+  // Set when the line can't be used at all, e.g. it has no ingredient name.
+  error?: string;
+};
+
+// Lines scoring below this are flagged for the user to check before they are used.
+export const REVIEW_CONFIDENCE = 0.7;
+
+export const needsReview = (parsed: ParsedIngredient) =>
+  Boolean(parsed.error) || parsed.confidence < REVIEW_CONFIDENCE;
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25,
+  "½": 0.5,
+  "¾": 0.75,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅛": 0.125,
+  "⅜": 0.375,
+  "⅝": 0.625,
+  "⅞": 0.875,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  half: 0.5,
+};
+
+// Amounts people write without committing to a number.
+const VAGUE_AMOUNTS: Record<string, number> = {
+  couple: 2,
+  few: 3,
+  several: 3,
+};
+
+// Size and preparation words that describe how to treat an ingredient, not which one it is.
+const PREP_WORDS = new Set([
+  "large",
+  "medium",
+  "small",
+  "ripe",
+  "fresh",
+  "freshly",
+  "finely",
+  "roughly",
+  "coarsely",
+  "thinly",
+  "thickly",
+  "lightly",
+  "chopped",
+  "diced",
+  "minced",
+  "sliced",
+  "grated",
+  "crushed",
+  "peeled",
+  "ground",
+  "packed",
+  "heaping",
+  "level",
+  "softened",
+  "melted",
+  "beaten",
+  "rinsed",
+  "drained",
+  "halved",
+  "quartered",
+  "cubed",
+  "shredded",
+  "trimmed",
+  "boneless",
+  "skinless",
+]);
+
+// Phrases after a comma that continue the previous ingredient instead of starting a new one.
+const NOTE_STARTERS = new Set([
+  ...PREP_WORDS,
+  "to",
+  "for",
+  "as",
+  "at",
+  "cut",
+  "plus",
+  "about",
+  "divided",
+  "optional",
+  "room",
+  "or",
+  "and",
+  "if",
+  "seeds",
+  "stems",
+  "skin",
+]);
+
+// Packaging between a pack size and the ingredient: "3 x 400g cans of tomatoes".
+const CONTAINER_WORDS = new Set([
+  "can",
+  "cans",
+  "tin",
+  "tins",
+  "jar",
+  "jars",
+  "pack",
+  "packs",
+  "packet",
+  "packets",
+  "bag",
+  "bags",
+  "bottle",
+  "bottles",
+  "carton",
+  "cartons",
+  "tub",
+  "tubs",
+  "box",
+  "boxes",
+]);
+
+const KNOWN_NAMES = new Set(KNOWN_INGREDIENTS);
+
+const UNMEASURED = /\b(to taste|as needed|for serving|for garnish|optional)\b/gi;
+const LIST_MARKER = /^[\s\-*•·▢☐]+/;
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join("");
+const MAX_NAME_WORDS = 4;
+
+type Token =
+  | { kind: "number"; text: string; value: number; fraction: boolean }
+  | { kind: "word"; text: string; lower: string }
+  | { kind: "note" | "dash" | "times"; text: string };
+
+const TOKEN = new RegExp(
+  [
+    `\\((?<note>[^)]*)\\)?`,
+    `(?<number>\\d+(?:[.,]\\d+)?(?:\\/\\d+)?|[${FRACTION_CHARS}])`,
+    `(?<dash>[-–—])`,
+    `(?<times>×)`,
+    `(?<word>[\\p{L}'’]+(?:-[\\p{L}'’]+)*\\.?)`,
+  ].join("|"),
+  "gu"
+);
+
+const readNumber = (text: string) => {
+  if (UNICODE_FRACTIONS[text] !== undefined) return UNICODE_FRACTIONS[text];
+  const [numerator, denominator] = text.replace(",", ".").split("/");
+  return denominator === undefined
+    ? Number.parseFloat(numerator)
+    : Number(numerator) / Number(denominator);
+};
+
+// Anything that isn't a number, word, bracketed note or separator (stray dots, asterisks)
+// is dropped here.
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(TOKEN)].map((match): Token => {
+    const groups = match.groups ?? {};
+    if (groups.note !== undefined) return { kind: "note", text: groups.note.trim() };
+    if (groups.number !== undefined) {
+      return {
+        kind: "number",
+        text: groups.number,
+        value: readNumber(groups.number),
+        fraction: /[/]/.test(groups.number) || groups.number in UNICODE_FRACTIONS,
+      };
+    }
+    if (groups.dash !== undefined) return { kind: "dash", text: groups.dash };
+    if (groups.times !== undefined) return { kind: "times", text: groups.times };
+    return { kind: "word", text: match[0], lower: match[0].toLowerCase() };
+  });
+
+// Splits on commas and semicolons outside brackets, leaving decimal commas ("1,5 kg") alone.
+const splitTopLevel = (text: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  [...text].forEach((char, index) => {
+    if (char === "(") depth += 1;
+    else if (char === ")") depth = Math.max(0, depth - 1);
+    else if (
+      depth === 0 &&
+      (char === ";" ||
+        (char === "," && !(/\d/.test(text[index - 1] ?? "") && /\d/.test(text[index + 1] ?? ""))))
+    ) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  });
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+const isNote = (segment: string) => {
+  if (new RegExp(`^[\\d${FRACTION_CHARS}]`).test(segment)) return false;
+  const first = segment.toLowerCase().match(/^[\p{L}'’-]+/u)?.[0] ?? "";
+  return NOTE_STARTERS.has(first);
+};
+
+// Splits pasted text into one entry per ingredient. Lines are always separate; within a line,
+// commas separate ingredients unless what follows reads as a note, so "2 onions, diced, 3
+// carrots" is two entries.
+export const splitIngredientEntries = (text: string) =>
+  text.split(/\r?\n/).flatMap((line) =>
+    splitTopLevel(line.replace(LIST_MARKER, "")).reduce<string[]>((entries, segment) => {
+      if (entries.length && isNote(segment)) {
+        entries[entries.length - 1] += `, ${segment}`;
+      } else {
+        entries.push(segment);
+      }
+      return entries;
+    }, [])
+  );
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  token?.kind === "word" && words.includes(token.lower);
+
+// What one container holds, written in brackets: "(14 oz)", "(400g)", "(14-ounce)", "(400g each)".
+const readPackSize = (text: string) => {
+  const [amount, unitToken, ...extra] = tokenize(text).filter(
+    (token) => token.kind !== "dash" && !isWord(token, "each")
+  );
+  if (amount?.kind !== "number" || unitToken?.kind !== "word" || extra.length) return null;
+  const unit = parseUnit(unitToken.text);
+  return unit ? { value: amount.value, unit } : null;
+};
+
+// Reads one ingredient line with a small recursive-descent grammar:
+//
+//   line     := amount? pack? size? unit? "of"? container? size? name notes*
+//   amount   := number ("and a half")? (("-" | "to" | "or") number)?
+//   number   := digits | fraction | digits fraction | number word | "a"? vague word
+//   pack     := ("x" | "×") amount
+//   size     := "(" amount unit ")"
+//   notes    := "(" text ")" | "," text | preparation words inside the name
+export const parseIngredientText = (line: string): ParsedIngredient => {
+  const source = line.trim();
+  const notes: string[] = [];
+  const issues: { penalty: number; issue: string }[] = [];
+  const flag = (penalty: number, issue: string) => issues.push({ penalty, issue });
+  let unmeasured = false;
+
+  const text = source.replace(LIST_MARKER, "").replace(UNMEASURED, (phrase) => {
+    unmeasured = true;
+    notes.push(phrase.toLowerCase());
+    return " ";
+  });
+  const [head = "", ...tail] = splitTopLevel(text);
+  const tokens = tokenize(head);
+  let index = 0;
+  const peek = (offset = 0): Token | undefined => tokens[index + offset];
+
+  const readValue = (allowArticle: boolean): number | null => {
+    const token = peek();
+    if (token?.kind === "number") {
+      index += 1;
+      const next = peek();
+      if (!token.fraction && next?.kind === "number" && next.fraction) {
+        index += 1;
+        return token.value + next.value;
+      }
+      return token.value;
+    }
+    if (token?.kind !== "word") return null;
+    const article = isWord(token, "a", "an");
+    const vague = VAGUE_AMOUNTS[(article ? peek(1) : token)?.text.toLowerCase() ?? ""];
+    if (vague !== undefined) {
+      flag(0.2, `"${(article ? peek(1) : token)?.text}" is a guess at the amount.`);
+      index += article ? 2 : 1;
+      if (isWord(peek(), "of")) index += 1;
+      return vague;
+    }
+    if (article && !allowArticle) return null;
+    const value = NUMBER_WORDS[token.lower];
+    if (value === undefined) return null;
+    index += 1;
+    // "half a lemon"
+    if (token.lower === "half" && isWord(peek(), "a", "an")) index += 1;
+    return value;
+  };
+
+  const readAmount = (): QuantityRange | null => {
+    const min = readValue(true);
+    if (min === null) return null;
+    let value = min;
+    if (isWord(peek(), "and") && isWord(peek(1), "a") && isWord(peek(2), "half")) {
+      index += 3;
+      value += 0.5;
+    }
+    const separator = peek();
+    if (separator?.kind === "dash" || isWord(separator, "to", "or")) {
+      const start = index;
+      index += 1;
+      const max = readValue(false);
+      if (max !== null && max >= value) return { min: value, max };
+      index = start;
+    }
+    return { min: value, max: value };
+  };
+
+  // A unit only counts when something follows it: "3 cloves" alone has no ingredient.
+  const readUnit = (): string | undefined => {
+    const first = peek();
+    const second = peek(1);
+    if (first?.kind !== "word") return undefined;
+    if (second?.kind === "word" && peek(2)) {
+      const unit = parseUnit(`${first.text} ${second.text}`);
+      if (unit) {
+        index += 2;
+        return unit;
+      }
+    }
+    const unit = parseUnit(first.text);
+    if (!unit || !second) return undefined;
+    index += 1;
+    return unit;
+  };
+
+  let quantity = readAmount() ?? undefined;
+  let quantityText = "";
+  let unit: string | undefined;
+  if (quantity) {
+    const times = peek();
+    if (
+      (times?.kind === "times" || isWord(times, "x")) &&
+      (peek(1)?.kind === "number" || peek(1)?.kind === "word")
+    ) {
+      const start = index;
+      index += 1;
+      const pack = readAmount();
+      if (pack) {
+        quantity = { min: quantity.min * pack.min, max: quantity.max * pack.max };
+      } else {
+        index = start;
+      }
+    }
+    quantityText = tokens
+      .slice(0, index)
+      .map((token) => token.text)
+      .join(" ");
+    // "1 (14 oz) can coconut milk": the bracket comes out before the unit and container, and a
+    // size in it is what gets measured.
+    const bracket = peek();
+    const packSize = bracket?.kind === "note" ? readPackSize(bracket.text) : null;
+    if (bracket?.kind === "note") {
+      index += 1;
+      if (!packSize && bracket.text) notes.push(bracket.text.toLowerCase());
+    }
+    if (packSize) {
+      quantity = { min: quantity.min * packSize.value, max: quantity.max * packSize.value };
+      unit = packSize.unit;
+    } else {
+      unit = readUnit();
+    }
+  } else if (peek()?.kind === "word" && isWord(peek(1), "of")) {
+    // "pinch of salt", "handful of spinach"
+    unit = readUnit();
+    if (unit) quantity = { min: 1, max: 1 };
+  }
+  if (isWord(peek(), "of")) index += 1;
+  if (quantity && isWord(peek(), ...CONTAINER_WORDS) && peek(1)) {
+    index += 1;
+    if (isWord(peek(), "of")) index += 1;
+  }
+  // "1 can (400g) coconut milk": the size can follow the container as well as come before it.
+  const sizeAfter = peek();
+  const trailingSize =
+    quantity && sizeAfter?.kind === "note" && (!unit || CONTAINER_WORDS.has(unit))
+      ? readPackSize(sizeAfter.text)
+      : null;
+  if (quantity && trailingSize) {
+    index += 1;
+    quantity = { min: quantity.min * trailingSize.value, max: quantity.max * trailingSize.value };
+    unit = trailingSize.unit;
+    if (isWord(peek(), "of")) index += 1;
+  }
+
+  const nameWords: string[] = [];
+  // The name with its preparation words left in, for ingredients such as "ground beef".
+  const spelledWords: string[] = [];
+  const prepNotes: string[] = [];
+  let prep: string[] = [];
+  const endPrep = () => {
+    if (prep.length) prepNotes.push(prep.join(" "));
+    prep = [];
+  };
+  const rest = tokens.slice(index);
+  // "eggs 12", "flour 500 g": with no amount up front, take one from the end of the line.
+  const [beforeLast, last] = rest.slice(-2);
+  const trailingUnit = last?.kind === "word" ? parseUnit(last.text) : undefined;
+  if (!quantity && last?.kind === "number" && rest.length > 1) {
+    quantity = { min: last.value, max: last.value };
+    quantityText = last.text;
+    rest.splice(-1);
+    flag(0.1, "Read the amount from the end of the line.");
+  } else if (!quantity && beforeLast?.kind === "number" && trailingUnit && rest.length > 2) {
+    quantity = { min: beforeLast.value, max: beforeLast.value };
+    quantityText = beforeLast.text;
+    unit = trailingUnit;
+    rest.splice(-2);
+    flag(0.1, "Read the amount from the end of the line.");
+  }
+  let strayNumbers = false;
+  rest.forEach((token, position) => {
+    if (token.kind === "note") {
+      endPrep();
+      if (token.text) notes.push(token.text.toLowerCase());
+    } else if (token.kind === "word") {
+      const next = rest[position + 1];
+      if (PREP_WORDS.has(token.lower)) {
+        prep.push(token.lower);
+        spelledWords.push(token.text);
+      } else if (
+        prep.length &&
+        token.lower === "and" &&
+        next?.kind === "word" &&
+        PREP_WORDS.has(next.lower)
+      ) {
+        prep.push("and");
+        spelledWords.push(token.text);
+      } else if (!(token.lower === "of" && !nameWords.length)) {
+        endPrep();
+        nameWords.push(token.text.replace(/\.$/, ""));
+        spelledWords.push(token.text.replace(/\.$/, ""));
+      }
+    } else if (token.kind === "number") {
+      strayNumbers = true;
+      nameWords.push(token.text);
+      spelledWords.push(token.text);
+    }
+  });
+  endPrep();
+
+  // Preparation words become notes unless they are part of a known ingredient's name:
+  // "ground cumin" is cumin, but "ground beef" is its own ingredient.
+  const keepPrep =
+    prepNotes.length > 0 &&
+    nameWords.length > 0 &&
+    KNOWN_NAMES.has(canonicalizeIngredient(spelledWords.join(" ")));
+  if (keepPrep) nameWords.splice(0, nameWords.length, ...spelledWords);
+  else notes.push(...prepNotes);
+  notes.push(...tail.map((note) => note.toLowerCase()));
+
+  const name = canonicalizeIngredient(nameWords.join(" "));
+  const result = (error?: string): ParsedIngredient => {
+    issues.sort((a, b) => b.penalty - a.penalty);
+    const confidence = issues.reduce((total, { penalty }) => total - penalty, 1);
+    return {
+      source,
+      ...(quantity && { quantity }),
+      ...(unit && { unit }),
+      name,
+      notes,
+      unmeasured,
+      confidence: error ? 0 : Number(Math.max(0, confidence).toFixed(2)),
+      issues: [...(error ? [error] : []), ...issues.map(({ issue }) => issue)],
+      ...(error && { error }),
+    };
+  };
+
+  if (quantity && !(Number.isFinite(quantity.min) && quantity.min > 0)) {
+    return result(`Could not read "${quantityText}" as a quantity.`);
+  }
+  // "3 cloves": the only word left is a unit, so there is nothing to measure.
+  if (!name || (quantity && !unit && nameWords.length === 1 && parseUnit(nameWords[0]))) {
+    return result(
+      quantity ? "Found a quantity but no ingredient name." : "No ingredient name found."
+    );
+  }
+  if (!quantity && !unmeasured) flag(0.15, "No quantity given.");
+  if (strayNumbers) flag(0.3, "Found numbers in the ingredient name.");
+  if (nameWords.length > MAX_NAME_WORDS) {
+    flag(0.15, "Long ingredient name; part of it may be a note.");
+  }
+  const match = findBestMatch(name, KNOWN_INGREDIENTS);
+  if (!match) flag(0.35, `Unrecognised ingredient "${name}".`);
+  else if (match.kind === "fuzzy") flag(0.2, `Did you mean "${match.name}"?`);
+  return result();
+};
+
+// A pantry holds at least the lower end of a range.
+export const parsedPantryItem = (parsed: ParsedIngredient): PantryItem => ({
+  name: parsed.name,
+  ...(parsed.quantity && { quantity: Number(parsed.quantity.min.toFixed(3)) }),
+  ...(parsed.unit && { unit: parsed.unit }),
+});
@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compareIngredients } from "@/lib/ingredients";
+
+describe("compareIngredients", () => {
+  const UNRELATED: [string, string][] = [
+    ["butter", "batter"],
+    ["cream", "bream"],
+    ["onion", "union"],
+  ];
+  UNRELATED.forEach(([required, available]) => {
+    it(`doesn't take "${available}" for "${required}"`, () => {
+      assert.equal(compareIngredients(required, available), null);
+    });
+  });
+
+  it("still forgives a typo in a longer name", () => {
+    assert.equal(compareIngredients("broccoli", "brocoli")?.kind, "fuzzy");
+  });
+});
@@ -0,0 +1,176 @@
+import { INGREDIENT_AISLES } from "@/data/aisles";
+import { INGREDIENT_FACTS } from "@/data/allergens";
+import { INGREDIENT_PARENTS, INGREDIENT_SYNONYMS } from "@/data/ingredientTaxonomy";
+import { RECIPES } from "@/data/recipes";
+import { STAPLE_INGREDIENTS } from "@/data/staples";
+
+export type MatchKind = "exact" | "synonym" | "hierarchy" | "fuzzy";
+
+export type IngredientMatch = {
+  name: string;
+  kind: MatchKind;
+  confidence: number;
+};
+
+const INVARIANT_WORDS = new Set([
+  "oats",
+  "hummus",
+  "asparagus",
+  "couscous",
+  "molasses",
+  "grits",
+  "swiss",
+  "brussels",
+  "series",
+  "species",
+]);
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaves: "leaf",
+  loaves: "loaf",
+  halves: "half",
+  cookies: "cookie",
+  knives: "knife",
+  geese: "goose",
+};
+
+const singularize = (word: string) => {
+  if (word.length <= 3 || INVARIANT_WORDS.has(word)) return word;
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("oes")) return word.slice(0, -2);
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+// Case, punctuation and plural folding only; synonyms are resolved by canonicalizeIngredient.
+const foldIngredientName = (name: string) => {
+  const words = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  if (!words.length) return "";
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(" ");
+};
+
+const CANONICAL_BY_ALIAS = new Map<string, string>();
+Object.entries(INGREDIENT_SYNONYMS).forEach(([canonical, aliases]) => {
+  const folded = foldIngredientName(canonical);
+  aliases.forEach((alias) => CANONICAL_BY_ALIAS.set(foldIngredientName(alias), folded));
+});
+
+const PARENT_BY_CHILD = new Map(
+  Object.entries(INGREDIENT_PARENTS).map(([child, parent]) => [
+    foldIngredientName(child),
+    foldIngredientName(parent),
+  ])
+);
+
+export const canonicalizeIngredient = (name: string) => {
+  const folded = foldIngredientName(name);
+  return CANONICAL_BY_ALIAS.get(folded) ?? folded;
+};
+
+// Every ingredient the app has data for, canonicalized; used to recognise parsed names.
+export const KNOWN_INGREDIENTS = [
+  ...new Set(
+    [
+      ...Object.keys(INGREDIENT_AISLES),
+      ...Object.keys(INGREDIENT_FACTS),
+      ...STAPLE_INGREDIENTS,
+      ...Object.keys(INGREDIENT_SYNONYMS),
+      ...Object.keys(INGREDIENT_PARENTS),
+      ...Object.values(INGREDIENT_PARENTS),
+      ...RECIPES.flatMap((recipe) => recipe.ingredients.map((ingredient) => ingredient.name)),
+    ].map(canonicalizeIngredient)
+  ),
+];
+
+const isAlias = (name: string) => CANONICAL_BY_ALIAS.has(foldIngredientName(name));
+
+export const ingredientAncestors = (name: string): string[] => {
+  const ancestors: string[] = [];
+  let current = PARENT_BY_CHILD.get(canonicalizeIngredient(name));
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = PARENT_BY_CHILD.get(current);
+  }
+  return ancestors;
+};
+
+const editDistance = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const FUZZY_THRESHOLD = 0.8;
+// Below this, one letter is too much of the word: "butter" vs "batter", "onion" vs "union".
+const FUZZY_MIN_LENGTH = 7;
+
+export const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  if (!longest) return 1;
+  return 1 - editDistance(a, b) / longest;
+};
+
+// Scores how well a pantry ingredient satisfies a recipe ingredient. A more
+// specific pantry item ("cheddar") satisfies a general requirement ("cheese")
+// with high confidence; the reverse is only a plausible guess.
+export const compareIngredients = (
+  required: string,
+  available: string
+): Omit<IngredientMatch, "name"> | null => {
+  const target = canonicalizeIngredient(required);
+  const candidate = canonicalizeIngredient(available);
+  if (!target || !candidate) return null;
+
+  if (target === candidate) {
+    const viaAlias =
+      foldIngredientName(required) !== foldIngredientName(available) &&
+      (isAlias(required) || isAlias(available));
+    return viaAlias ? { kind: "synonym", confidence: 0.95 } : { kind: "exact", confidence: 1 };
+  }
+
+  const candidateAncestors = ingredientAncestors(candidate);
+  if (candidateAncestors.includes(target)) {
+    return { kind: "hierarchy", confidence: 0.9 - 0.05 * candidateAncestors.indexOf(target) };
+  }
+  if (ingredientAncestors(target).includes(candidate)) {
+    return { kind: "hierarchy", confidence: 0.6 };
+  }
+
+  if (Math.min(target.length, candidate.length) >= FUZZY_MIN_LENGTH) {
+    const score = similarity(target, candidate);
+    if (score >= FUZZY_THRESHOLD) {
+      return { kind: "fuzzy", confidence: Number.parseFloat((score * 0.9).toFixed(2)) };
+    }
+  }
+  return null;
+};
+
+export const findBestMatch = (required: string, candidates: string[]): IngredientMatch | null =>
+  candidates.reduce<IngredientMatch | null>((best, name) => {
+    const match = compareIngredients(required, name);
+    if (!match || (best && best.confidence >= match.confidence)) return best;
+    return { name, ...match };
+  }, null);
@@ -0,0 +1,127 @@
+import type { Recipe } from "@/data/recipes";
+import { DietaryProfile, dietaryConflicts } from "@/lib/dietary";
+import { applyDeductions, previewDeductions } from "@/lib/pantry";
+import { PantryItem, RankingMode, scoreRecipes } from "@/lib/recommendations";
+import type { ShoppingSelection } from "@/lib/shoppingList";
+
+export type MealSlot = "breakfast" | "lunch" | "dinner";
+
+export const MEAL_SLOTS: MealSlot[] = ["breakfast", "lunch", "dinner"];
+
+export type PlannedMeal = {
+  id: string;
+  day: number;
+  meal: MealSlot;
+  recipeId: string | null;
+  servings: number;
+  locked: boolean;
+};
+
+export type PlanOptions = {
+  recipes: Recipe[];
+  pantry: PantryItem[];
+  days: number;
+  meals: MealSlot[];
+  servings: number;
+  rankBy?: RankingMode;
+  // Recipes that break the profile are never planned, even when conflicts are only flagged.
+  dietary?: DietaryProfile;
+  // Existing slots; locked ones are kept as-is and everything else is re-planned.
+  previous?: PlannedMeal[];
+};
+
+export const slotId = (day: number, meal: MealSlot) => `${day}-${meal}`;
+
+const isBreakfast = (recipe: Recipe) => recipe.tags.includes("breakfast");
+const isDessert = (recipe: Recipe) => recipe.tags.includes("dessert");
+
+const suitsMeal = (recipe: Recipe, meal: MealSlot) =>
+  meal === "breakfast" ? isBreakfast(recipe) : !isBreakfast(recipe) && !isDessert(recipe);
+
+const consume = (pantry: PantryItem[], recipe: Recipe, servings: number) =>
+  applyDeductions(pantry, previewDeductions(recipe, servings, pantry));
+
+// Fills each slot in day order, re-scoring against what earlier meals left in
+// the pantry. Cuisines are not repeated on neighbouring days and recipes are
+// only reused once every suitable recipe has been planned.
+export const planMeals = ({
+  recipes: allRecipes,
+  pantry,
+  days,
+  meals,
+  servings,
+  rankBy = "use-it-up",
+  dietary,
+  previous = [],
+}: PlanOptions): PlannedMeal[] => {
+  const recipes = dietary
+    ? allRecipes.filter((recipe) => !dietaryConflicts(recipe, dietary).length)
+    : allRecipes;
+  const recipesById = new Map(allRecipes.map((recipe) => [recipe.id, recipe]));
+  const lockedById = new Map(
+    previous.filter((slot) => slot.locked).map((slot) => [slot.id, slot])
+  );
+  const orderedMeals = MEAL_SLOTS.filter((meal) => meals.includes(meal));
+  const slots: PlannedMeal[] = [];
+  let remaining = pantry;
+
+  const cuisinesOn = (day: number) =>
+    [...slots, ...lockedById.values()]
+      .filter((slot) => slot.day === day && slot.recipeId)
+      .map((slot) => recipesById.get(slot.recipeId!)?.cuisine);
+
+  for (let day = 0; day < days; day += 1) {
+    for (const meal of orderedMeals) {
+      const id = slotId(day, meal);
+      const locked = lockedById.get(id);
+      if (locked) {
+        slots.push(locked);
+        const recipe = locked.recipeId ? recipesById.get(locked.recipeId) : undefined;
+        if (recipe) remaining = consume(remaining, recipe, locked.servings);
+        continue;
+      }
+
+      const planned = new Set(
+        [...slots, ...lockedById.values()].map((slot) => slot.recipeId)
+      );
+      const neighbourCuisines = new Set([...cuisinesOn(day - 1), ...cuisinesOn(day + 1)]);
+      const suitable = recipes.filter((recipe) => suitsMeal(recipe, meal));
+      const fresh = suitable.filter((recipe) => !planned.has(recipe.id));
+      const pool = (fresh.length ? fresh : suitable).filter(
+        (recipe) => !neighbourCuisines.has(recipe.cuisine)
+      );
+      const candidates = pool.length ? pool : fresh.length ? fresh : suitable;
+
+      const servingsById = Object.fromEntries(candidates.map((recipe) => [recipe.id, servings]));
+      const [best] = scoreRecipes(candidates, remaining, { servings: servingsById, rankBy });
+      const recipe = best?.recipe ?? candidates[0];
+
+      slots.push({ id, day, meal, recipeId: recipe?.id ?? null, servings, locked: false });
+      if (recipe) remaining = consume(remaining, recipe, servings);
+    }
+  }
+
+  return slots;
+};
+
+export const planSelections = (slots: PlannedMeal[], recipes: Recipe[]): ShoppingSelection[] =>
+  slots.flatMap((slot) => {
+    const recipe = recipes.find((entry) => entry.id === slot.recipeId);
+    return recipe ? [{ recipe, servings: slot.servings }] : [];
+  });
+
+// Swaps the meals in two slots, keeping each slot's position in the week.
+export const swapSlots = (slots: PlannedMeal[], fromId: string, toId: string) => {
+  const from = slots.find((slot) => slot.id === fromId);
+  const to = slots.find((slot) => slot.id === toId);
+  if (!from || !to || from === to) return slots;
+  return slots.map((slot) => {
+    if (slot.id === fromId) {
+      return { ...slot, recipeId: to.recipeId, servings: to.servings, locked: to.locked };
+    }
+    if (slot.id === toId) {
+      return { ...slot, recipeId: from.recipeId, servings: from.servings, locked: from.locked };
+    }
+    return slot;
+  });
+};
@@ -0,0 +1,99 @@
+// Model weights live in Cache Storage, one cache per model version, so they survive
+// reloads, work offline, and are replaced cleanly when a model is updated. The same
+// caches are read by the vision worker, the page and the service worker.
+
+export type ModelSpec = {
+  id: string;
+  // Bump whenever the hosted files change; caches for other versions are dropped.
+  version: string;
+  // Every file of the model (model.json, weight shards, metadata) sits under this URL.
+  baseUrl: string;
+};
+
+export type DownloadProgress = {
+  loaded: number;
+  // From Content-Length; null when the server doesn't send one.
+  total: number | null;
+};
+
+export type ModelCacheInfo = {
+  cached: boolean;
+  bytes: number;
+};
+
+const MODEL_CACHE_PREFIX = "vision-model:";
+
+const cachesAvailable = () => typeof caches !== "undefined";
+
+export const modelCacheName = (spec: ModelSpec) =>
+  `${MODEL_CACHE_PREFIX}${spec.id}@${spec.version}`;
+
+export const isModelFile = (spec: ModelSpec, url: string) => url.startsWith(spec.baseUrl);
+
+// Deletes caches left behind by older model versions.
+export const pruneModelCaches = async (specs: ModelSpec[]) => {
+  if (!cachesAvailable()) return;
+  const current = new Set(specs.map(modelCacheName));
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(MODEL_CACHE_PREFIX) && !current.has(name))
+      .map((name) => caches.delete(name))
+  );
+};
+
+// Cache-first fetch for a model file. Downloads are streamed so progress can be reported,
+// then stored; failed responses are passed through without being cached.
+export const fetchModelFile = async (
+  spec: ModelSpec,
+  url: string,
+  init?: RequestInit,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<Response> => {
+  if (!cachesAvailable()) return fetch(url, init);
+  const cache = await caches.open(modelCacheName(spec));
+  const cached = await cache.match(url);
+  if (cached) return cached;
+
+  const response = await fetch(url, init);
+  if (!response.ok || !response.body) return response;
+  const total = Number(response.headers.get("content-length")) || null;
+  const reader = response.body.getReader();
+  const chunks: BlobPart[] = [];
+  let loaded = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value);
+    loaded += chunk.value.byteLength;
+    onProgress?.({ loaded, total });
+  }
+  const stored = new Response(new Blob(chunks), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  await cache.put(url, stored.clone());
+  return stored;
+};
+
+export const modelCacheInfo = async (spec: ModelSpec): Promise<ModelCacheInfo> => {
+  const name = modelCacheName(spec);
+  if (!cachesAvailable() || !(await caches.has(name))) return { cached: false, bytes: 0 };
+  const cache = await caches.open(name);
+  const requests = await cache.keys();
+  const sizes = await Promise.all(
+    requests.map(async (request) => (await (await cache.match(request))?.blob())?.size ?? 0)
+  );
+  return {
+    cached: requests.some((request) => request.url.endsWith("model.json")),
+    bytes: sizes.reduce((total, size) => total + size, 0),
+  };
+};
+
+export const clearModelCache = async (spec: ModelSpec) => {
+  if (cachesAvailable()) await caches.delete(modelCacheName(spec));
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
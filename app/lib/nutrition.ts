@@ -0,0 +1,141 @@
+import { NUTRIENTS_PER_100G, Nutrients } from "@/data/nutrition";
+import type { Recipe, RecipeIngredient } from "@/data/recipes";
+import { canonicalizeIngredient, ingredientAncestors } from "@/lib/ingredients";
+import type { RankingFactor } from "@/lib/recommendations";
+import { convertQuantity } from "@/lib/units";
+
+export type Nutrient = keyof Nutrients;
+
+export const NUTRIENTS: { id: Nutrient; label: string; unit: string }[] = [
+  { id: "calories", label: "Calories", unit: "kcal" },
+  { id: "protein", label: "Protein", unit: "g" },
+  { id: "fat", label: "Fat", unit: "g" },
+  { id: "carbs", label: "Carbs", unit: "g" },
+  { id: "fiber", label: "Fiber", unit: "g" },
+  { id: "sodium", label: "Sodium", unit: "mg" },
+];
+
+const EMPTY_NUTRIENTS: Nutrients = {
+  calories: 0,
+  protein: 0,
+  fat: 0,
+  carbs: 0,
+  fiber: 0,
+  sodium: 0,
+};
+
+export type RecipeNutrition = {
+  servings: number;
+  total: Nutrients;
+  perServing: Nutrients;
+  // Ingredients with no table entry or no known weight; the totals leave them out.
+  unknown: string[];
+};
+
+// Falls back to the nearest ancestor, so "baby spinach" uses spinach and "gouda" uses cheese.
+const nutrientsFor = (name: string) =>
+  [canonicalizeIngredient(name), ...ingredientAncestors(name)]
+    .map((candidate) => NUTRIENTS_PER_100G[candidate])
+    .find(Boolean);
+
+const scaleNutrients = (nutrients: Nutrients, factor: number): Nutrients => ({
+  calories: nutrients.calories * factor,
+  protein: nutrients.protein * factor,
+  fat: nutrients.fat * factor,
+  carbs: nutrients.carbs * factor,
+  fiber: nutrients.fiber * factor,
+  sodium: nutrients.sodium * factor,
+});
+
+const addNutrients = (a: Nutrients, b: Nutrients): Nutrients => ({
+  calories: a.calories + b.calories,
+  protein: a.protein + b.protein,
+  fat: a.fat + b.fat,
+  carbs: a.carbs + b.carbs,
+  fiber: a.fiber + b.fiber,
+  sodium: a.sodium + b.sodium,
+});
+
+// Weighs the ingredient through the unit tables, so cups, cloves and cans all count.
+export const ingredientNutrients = (
+  ingredient: RecipeIngredient,
+  quantity = ingredient.quantity
+): Nutrients | null => {
+  const per100g = nutrientsFor(ingredient.name);
+  const grams = convertQuantity(quantity, ingredient.unit, "g", ingredient.name);
+  if (!per100g || grams === null) return null;
+  return scaleNutrients(per100g, grams / 100);
+};
+
+export const recipeNutrition = (
+  recipe: Recipe,
+  servings = recipe.baseServings
+): RecipeNutrition => {
+  const multiplier = servings / recipe.baseServings;
+  const unknown: string[] = [];
+  const total = recipe.ingredients.reduce((sum, ingredient) => {
+    const nutrients = ingredientNutrients(ingredient, ingredient.quantity * multiplier);
+    if (!nutrients) {
+      unknown.push(ingredient.name);
+      return sum;
+    }
+    return addNutrients(sum, nutrients);
+  }, EMPTY_NUTRIENTS);
+  return { servings, total, perServing: scaleNutrients(total, 1 / servings), unknown };
+};
+
+export type NutritionGoal = {
+  nutrient: Nutrient;
+  comparison: "at-most" | "at-least";
+  // Per serving, in the nutrient's unit.
+  amount: number;
+};
+
+export type NutritionTargets = {
+  goals: NutritionGoal[];
+  // "filter" hides recipes missing any goal; "boost" ranks recipes higher per goal met.
+  mode: "filter" | "boost";
+};
+
+export const EMPTY_NUTRITION_TARGETS: NutritionTargets = { goals: [], mode: "boost" };
+
+export type NutritionGoalResult = NutritionGoal & {
+  value: number;
+  met: boolean;
+};
+
+// Added to the ranking key when every goal is met, in proportion otherwise.
+export const NUTRITION_GOAL_BOOST = 0.2;
+
+export const nutrientLabel = (nutrient: Nutrient) =>
+  NUTRIENTS.find((entry) => entry.id === nutrient) ?? NUTRIENTS[0];
+
+export const describeNutritionGoal = ({ nutrient, comparison, amount }: NutritionGoal) => {
+  const { label, unit } = nutrientLabel(nutrient);
+  return `${comparison === "at-most" ? "Under" : "At least"} ${amount} ${unit} ${label.toLowerCase()}`;
+};
+
+export const evaluateNutritionGoals = (
+  perServing: Nutrients,
+  goals: NutritionGoal[]
+): NutritionGoalResult[] =>
+  goals.map((goal) => {
+    const value = perServing[goal.nutrient];
+    return {
+      ...goal,
+      value,
+      met: goal.comparison === "at-most" ? value <= goal.amount : value >= goal.amount,
+    };
+  });
+
+export const nutritionGoalFactor = (results: NutritionGoalResult[]): RankingFactor | null => {
+  if (!results.length) return null;
+  const met = results.filter((result) => result.met);
+  return {
+    label: "Nutrition goals",
+    detail: `${met.length} of ${results.length} met${
+      met.length ? ` (${met.map(describeNutritionGoal).join(", ").toLowerCase()})` : ""
+    }`,
+    contribution: (NUTRITION_GOAL_BOOST * met.length) / results.length,
+  };
+};
@@ -0,0 +1,25 @@
+export type OcrProgress = {
+  status: string;
+  progress: number;
+};
+
+// Runs Tesseract in a web worker; the language data is fetched once and cached by the browser.
+export const recognizeText = async (
+  image: string | File,
+  onProgress?: (progress: OcrProgress) => void
+) => {
+  const { createWorker } = await import("tesseract.js");
+  const worker = await createWorker("eng", undefined, {
+    logger: ({ status, progress }) => onProgress?.({ status, progress }),
+  }).catch((error: unknown) => {
+    throw new Error(
+      `Text recognition could not start${error instanceof Error ? `: ${error.message}` : "."}`
+    );
+  });
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text;
+  } finally {
+    await worker.terminate();
+  }
+};
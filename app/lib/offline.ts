@@ -0,0 +1,7 @@
+// Registers public/sw.js, which serves the app and cached models without a connection.
+// Development builds skip it so stale cached bundles never get in the way of hot reload.
+export const registerServiceWorker = async () => {
+  if (process.env.NODE_ENV !== "production") return null;
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return null;
+  return navigator.serviceWorker.register("/sw.js");
+};
@@ -0,0 +1,124 @@
+import type { Recipe } from "@/data/recipes";
+import { canonicalizeIngredient, findBestMatch } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+import { aisleFor } from "@/lib/shoppingList";
+import { convertQuantity } from "@/lib/units";
+
+export type StorageLocation = "fridge" | "freezer" | "shelf";
+
+export const STORAGE_LOCATIONS: StorageLocation[] = ["fridge", "freezer", "shelf"];
+
+export const EXPIRING_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Produce that keeps best at room temperature.
+const SHELF_PRODUCE = new Set(["banana", "potato", "onion", "garlic", "tomato", "avocado"]);
+
+// Local calendar date as YYYY-MM-DD, which is also what <input type="date"> uses.
+export const todayIso = (now = new Date()) =>
+  new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 10);
+
+export const defaultStorageLocation = (name: string): StorageLocation => {
+  const aisle = aisleFor(name);
+  if (aisle === "Frozen") return "freezer";
+  if (aisle === "Dairy & Eggs" || aisle === "Meat & Seafood") return "fridge";
+  if (aisle === "Produce") return SHELF_PRODUCE.has(canonicalizeIngredient(name)) ? "shelf" : "fridge";
+  return "shelf";
+};
+
+export const daysUntilExpiry = (expiresOn: string | undefined, now = new Date()) => {
+  if (!expiresOn) return null;
+  const expiry = new Date(`${expiresOn}T00:00:00`);
+  const today = new Date(`${todayIso(now)}T00:00:00`);
+  return Math.round((expiry.getTime() - today.getTime()) / DAY_MS);
+};
+
+export type ExpiryStatus = "expired" | "soon" | "fresh" | "unknown";
+
+export const expiryStatus = (expiresOn: string | undefined, now = new Date()): ExpiryStatus => {
+  const days = daysUntilExpiry(expiresOn, now);
+  if (days === null) return "unknown";
+  if (days < 0) return "expired";
+  if (days <= EXPIRING_SOON_DAYS) return "soon";
+  return "fresh";
+};
+
+export const earliestDate = (a?: string, b?: string) => {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+};
+
+export const stampPantryItem = (item: PantryItem, now = new Date()): PantryItem => ({
+  ...item,
+  addedOn: item.addedOn ?? todayIso(now),
+  location: item.location ?? defaultStorageLocation(item.name),
+});
+
+export type PantryDeduction = {
+  ingredient: string;
+  pantryName: string;
+  // In the pantry item's own unit; undefined when the item has no tracked quantity.
+  amount?: number;
+  unit?: string;
+  remaining?: number;
+  removesItem: boolean;
+};
+
+// Deductions only apply to confident matches so "cheese" never eats the cheddar by accident.
+const MIN_DEDUCTION_CONFIDENCE = 0.85;
+
+export const previewDeductions = (
+  recipe: Recipe,
+  servings: number,
+  pantry: PantryItem[]
+): PantryDeduction[] => {
+  const multiplier = servings / recipe.baseServings;
+  const remaining = new Map(pantry.map((item) => [item.name, item.quantity]));
+  const deductions: PantryDeduction[] = [];
+
+  recipe.ingredients.forEach((ingredient) => {
+    const match = findBestMatch(ingredient.name, [...remaining.keys()]);
+    if (!match || match.confidence < MIN_DEDUCTION_CONFIDENCE) return;
+    const item = pantry.find((entry) => entry.name === match.name)!;
+    const available = remaining.get(item.name);
+    if (available === undefined) {
+      deductions.push({ ingredient: ingredient.name, pantryName: item.name, removesItem: false });
+      return;
+    }
+    const amount = convertQuantity(
+      ingredient.quantity * multiplier,
+      ingredient.unit,
+      item.unit,
+      ingredient.name
+    );
+    if (amount === null) return;
+    const used = Math.min(amount, available);
+    const left = available - used;
+    remaining.set(item.name, left);
+    deductions.push({
+      ingredient: ingredient.name,
+      pantryName: item.name,
+      amount: used,
+      unit: item.unit,
+      remaining: left,
+      removesItem: left <= 1e-6,
+    });
+  });
+
+  return deductions;
+};
+
+export const applyDeductions = (pantry: PantryItem[], deductions: PantryDeduction[]) => {
+  const used = new Map<string, number>();
+  deductions.forEach(({ pantryName, amount }) => {
+    if (amount !== undefined) used.set(pantryName, (used.get(pantryName) ?? 0) + amount);
+  });
+  return pantry.flatMap((item) => {
+    const amount = used.get(item.name);
+    if (amount === undefined || item.quantity === undefined) return [item];
+    const quantity = item.quantity - amount;
+    return quantity > 1e-6 ? [{ ...item, quantity: Number.parseFloat(quantity.toFixed(3)) }] : [];
+  });
+};
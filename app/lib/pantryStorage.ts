@@ -0,0 +1,23 @@
+import { defaultStorageLocation, todayIso } from "@/lib/pantry";
+import type { PantryItem } from "@/lib/recommendations";
+import { Migrations, loadVersioned } from "@/lib/storage";
+
+const PANTRY_KEY = "pantry";
+
+// v1: { name, quantity?, unit? }[]
+// v2: adds addedOn, expiresOn and location to every item.
+export const PANTRY_SCHEMA_VERSION = 2;
+
+const migrations: Migrations = {
+  1: (data) =>
+    (data as PantryItem[]).map((item) => ({
+      ...item,
+      addedOn: item.addedOn ?? todayIso(),
+      location: item.location ?? defaultStorageLocation(item.name),
+    })),
+};
+
+// Pantries are saved with their household profile now; this only reads the pantry stored before
+// that, so it can be moved into the first profile.
+export const loadPantry = () =>
+  loadVersioned<PantryItem[]>(PANTRY_KEY, PANTRY_SCHEMA_VERSION, migrations);
@@ -0,0 +1,33 @@
+import {
+  AISLE_SHELF_LIFE_DAYS,
+  INGREDIENT_SHELF_LIFE_DAYS,
+  STORAGE_SHELF_LIFE_FACTOR,
+} from "@/data/perishability";
+import { canonicalizeIngredient, ingredientAncestors } from "@/lib/ingredients";
+import { daysUntilExpiry, todayIso } from "@/lib/pantry";
+import type { PantryItem } from "@/lib/recommendations";
+import { aisleFor } from "@/lib/shoppingList";
+
+// Days until urgency halves; items this close to spoiling count half as much as expiring today.
+const URGENCY_HALF_LIFE_DAYS = 3;
+
+export const shelfLifeDays = (name: string) => {
+  const canonical = canonicalizeIngredient(name);
+  const known = [canonical, ...ingredientAncestors(canonical)]
+    .map((candidate) => INGREDIENT_SHELF_LIFE_DAYS[candidate])
+    .find((days) => days !== undefined);
+  return known ?? AISLE_SHELF_LIFE_DAYS[aisleFor(canonical)];
+};
+
+// Prefers the user's expiry date and otherwise estimates one from when the item was added.
+export const estimateDaysLeft = (item: PantryItem, now = new Date()) => {
+  const explicit = daysUntilExpiry(item.expiresOn, now);
+  if (explicit !== null) return { daysLeft: explicit, estimated: false };
+  const addedOn = item.addedOn ?? todayIso(now);
+  const age = -(daysUntilExpiry(addedOn, now) ?? 0);
+  const life = shelfLifeDays(item.name) * STORAGE_SHELF_LIFE_FACTOR[item.location ?? "fridge"];
+  return { daysLeft: Math.round(life - age), estimated: true };
+};
+
+export const urgency = (daysLeft: number) =>
+  daysLeft <= 0 ? 1 : URGENCY_HALF_LIFE_DAYS / (URGENCY_HALF_LIFE_DAYS + daysLeft);
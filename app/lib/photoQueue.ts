@@ -0,0 +1,169 @@
+import {
+  DEFAULT_DETECTION_THRESHOLD,
+  Detection,
+  MIN_DETECTION_SCORE,
+  confirmedPantryItems,
+  createDetections,
+  detectionsAbove,
+  intersectionOverUnion,
+} from "@/lib/detections";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+import type { VisionProvider } from "@/lib/vision";
+
+export type PhotoStatus =
+  "queued" | "loading-model" | "reading" | "detecting" | "done" | "failed" | "cancelled";
+
+export type QueuedPhoto = {
+  id: string;
+  // The file name, so the user can tell "fridge.jpg" from "counter.jpg".
+  name: string;
+  // Name, size and modified time; the same file picked twice is only queued once.
+  fingerprint: string;
+  imageUrl: string;
+  status: PhotoStatus;
+  // 0 to 1, advanced per stage since the models report no finer progress.
+  progress: number;
+  width: number;
+  height: number;
+  detections: Detection[];
+  // The confidence threshold last chosen while reviewing this photo.
+  threshold: number;
+  error?: string;
+};
+
+export const PHOTO_STATUS_LABELS: Record<PhotoStatus, string> = {
+  queued: "Waiting",
+  "loading-model": "Loading model",
+  reading: "Reading photo",
+  detecting: "Detecting",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STAGE_PROGRESS: Partial<Record<PhotoStatus, number>> = {
+  "loading-model": 0.15,
+  reading: 0.35,
+  detecting: 0.6,
+};
+
+export const isPhotoActive = (photo: QueuedPhoto) =>
+  photo.status !== "done" && photo.status !== "failed" && photo.status !== "cancelled";
+
+export const fileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+export const queuePhoto = (
+  file: File,
+  imageUrl: string,
+  index: number,
+  now = Date.now()
+): QueuedPhoto => ({
+  id: `photo-${now}-${index}`,
+  name: file.name || `Photo ${index + 1}`,
+  fingerprint: fileFingerprint(file),
+  imageUrl,
+  status: "queued",
+  progress: 0,
+  width: 0,
+  height: 0,
+  detections: [],
+  threshold: DEFAULT_DETECTION_THRESHOLD,
+});
+
+// Boxes of the same ingredient overlapping at least this much are one object seen twice.
+const DUPLICATE_OVERLAP = 0.5;
+
+// At the low review threshold detectors often stack several boxes on one object; keep the best.
+export const dedupeDetections = (detections: Detection[]): Detection[] =>
+  [...detections]
+    .sort((a, b) => b.score - a.score)
+    .reduce<Detection[]>((kept, detection) => {
+      const label = canonicalizeIngredient(detection.label);
+      const duplicate = kept.some(
+        (entry) =>
+          canonicalizeIngredient(entry.label) === label &&
+          intersectionOverUnion(entry.bbox, detection.bbox) >= DUPLICATE_OVERLAP
+      );
+      return duplicate ? kept : [...kept, detection];
+    }, []);
+
+const loadImage = (imageUrl: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image"));
+    image.src = imageUrl;
+  });
+
+// Runs one photo through the provider. Inference can't be interrupted, so an abort takes
+// effect at the next stage and whatever the model returned is thrown away.
+export const detectPhoto = async (
+  photo: QueuedPhoto,
+  provider: VisionProvider,
+  signal: AbortSignal,
+  onStage: (status: PhotoStatus, progress: number) => void
+): Promise<Pick<QueuedPhoto, "width" | "height" | "detections">> => {
+  const stage = (status: PhotoStatus) => {
+    signal.throwIfAborted();
+    onStage(status, STAGE_PROGRESS[status] ?? 0);
+  };
+  stage("loading-model");
+  await provider.load();
+  stage("reading");
+  const image = await loadImage(photo.imageUrl);
+  stage("detecting");
+  const predictions = await provider.detect(image, {
+    maxResults: 50,
+    minScore: MIN_DETECTION_SCORE,
+  });
+  signal.throwIfAborted();
+  const detections = dedupeDetections(createDetections(predictions, new Set(provider.labels)));
+  return {
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    detections: detections.map((detection) => ({
+      ...detection,
+      id: `${photo.id}:${detection.id}`,
+      photoId: photo.id,
+    })),
+  };
+};
+
+export type DetectionSource = {
+  photoId: string;
+  photoName: string;
+  count: number;
+};
+
+export type MergedDetection = {
+  name: string;
+  quantity: number;
+  sources: DetectionSource[];
+};
+
+export const acceptedCount = (photo: QueuedPhoto) =>
+  detectionsAbove(photo.detections, photo.threshold).filter(
+    (detection) => detection.decision === "accepted"
+  ).length;
+
+// One entry per ingredient across every finished photo, keeping which photos it came from.
+// Only boxes accepted in review count, at the threshold chosen for that photo. Photos are
+// taken of different spots, so counts from separate photos add up.
+export const mergePhotoDetections = (photos: QueuedPhoto[]): MergedDetection[] => {
+  const merged = new Map<string, MergedDetection>();
+  photos
+    .filter((photo) => photo.status === "done")
+    .forEach((photo) => {
+      confirmedPantryItems(photo.detections, photo.threshold).forEach(({ name, quantity = 0 }) => {
+        const entry = merged.get(name) ?? { name, quantity: 0, sources: [] };
+        entry.quantity += quantity;
+        entry.sources.push({ photoId: photo.id, photoName: photo.name, count: quantity });
+        merged.set(name, entry);
+      });
+    });
+  return [...merged.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const mergedPantryItems = (merged: MergedDetection[]): PantryItem[] =>
+  merged.map(({ name, quantity }) => ({ name, quantity }));
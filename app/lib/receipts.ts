@@ -0,0 +1,189 @@
+import {
+  RECEIPT_ABBREVIATIONS,
+  RECEIPT_BOILERPLATE,
+  RECEIPT_NOISE_WORDS,
+} from "@/data/receiptTerms";
+import { KNOWN_INGREDIENTS, canonicalizeIngredient, findBestMatch } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+import { parseUnit, splitUnit } from "@/lib/units";
+
+export type ReceiptLine = {
+  id: string;
+  // The OCR text the line came from, shown during review.
+  source: string;
+  name: string;
+  quantity?: number;
+  unit?: string;
+  confidence: number;
+  include: boolean;
+};
+
+// Lines matched less confidently than this start unticked in the review list.
+export const RECEIPT_MATCH_CONFIDENCE = 0.8;
+
+const PRICE = /-?[$£€]?\s?\d+[.,]\d{2}/;
+const TRAILING_PRICE = new RegExp(`\\s+${PRICE.source}\\s*[A-Z*]{0,2}$`);
+// Captures the count printed before the price, as in "BANANAS 2 @ 0.59".
+const UNIT_PRICE = new RegExp(
+  `\\s*(?:(?<![\\d.,])\\b(\\d+)\\s*)?@\\s*${PRICE.source}(\\s*/\\s*[a-z]+)?`,
+  "i"
+);
+const WEIGHED = /^(\d+(?:[.,]\d+)?)\s*(kg|g|lbs?|oz)\b/i;
+const MULTI_BUY = /^(\d+)\s*(?:x|@)\s+/i;
+const COUNT_ONLY = new RegExp(`^(\\d+)\\s*@\\s*${PRICE.source}`);
+const PACK_SIZE = /\b(\d+(?:[.,]\d+)?)\s*(kg|g|ml|l|lbs?|oz|gal|ct|pk|dz|doz)\b/i;
+const DOZEN = /\b(?:dz|doz|dozen)\b/i;
+const LITRES_PER_GALLON = 3.785;
+const TRAILING_COUNT = /\s+x\s*(\d+)$/i;
+const CODE = /\b\d{4,}\b/g;
+
+const toNumber = (value: string) => Number.parseFloat(value.replace(",", "."));
+
+const isBoilerplate = (line: string) =>
+  !/[a-z]{2,}/i.test(line) || RECEIPT_BOILERPLATE.some((pattern) => pattern.test(line));
+
+const expandName = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => RECEIPT_ABBREVIATIONS[word] ?? word)
+    .filter((word) => word.length > 1 && !RECEIPT_NOISE_WORDS.has(word))
+    .join(" ");
+
+// Confidence lost for every word of the product name that had to be ignored.
+const DROPPED_WORD_PENALTY = 0.1;
+const UNMATCHED_CONFIDENCE = 0.4;
+
+// Tries every run of words (and two-word runs reversed, as tills print "TOM ROMA"),
+// so "whole milk gal" still lands on "whole milk" and "chdr chs" on "cheddar".
+const resolveName = (name: string) => {
+  const words = name.split(" ");
+  let best = { name: canonicalizeIngredient(name), confidence: UNMATCHED_CONFIDENCE };
+  for (let length = words.length; length > 0; length -= 1) {
+    for (let start = 0; start + length <= words.length; start += 1) {
+      const span = words.slice(start, start + length);
+      const candidates = length === 2 ? [span, [...span].reverse()] : [span];
+      candidates.forEach((candidate) => {
+        const match = findBestMatch(candidate.join(" "), KNOWN_INGREDIENTS);
+        if (!match) return;
+        const confidence = match.confidence - (words.length - length) * DROPPED_WORD_PENALTY;
+        if (confidence > best.confidence) best = { name: match.name, confidence };
+      });
+    }
+  }
+  return best;
+};
+
+type Measure = { quantity?: number; unit?: string };
+
+// Pulls counts, weights and pack sizes off a line, returning what is left of the product name.
+const takeMeasure = (line: string, priceCount?: number): Measure & { rest: string } => {
+  let rest = line.replace(/^[\s\-*•·[\]☐]+/, "");
+  let count = priceCount;
+  let measure: Measure = {};
+
+  const multi = rest.match(MULTI_BUY);
+  if (multi) {
+    count = Number.parseInt(multi[1], 10);
+    rest = rest.slice(multi[0].length);
+  }
+  const trailing = rest.match(TRAILING_COUNT);
+  if (trailing) {
+    count = Number.parseInt(trailing[1], 10);
+    rest = rest.slice(0, trailing.index);
+  }
+
+  const weighed = rest.match(WEIGHED);
+  const pack = weighed ?? rest.match(PACK_SIZE);
+  if (pack) {
+    const unit = pack[2].toLowerCase();
+    const amount = toNumber(pack[1]);
+    measure =
+      unit === "ct" || unit === "pk"
+        ? { quantity: amount }
+        : unit === "gal"
+          ? { quantity: Number.parseFloat((amount * LITRES_PER_GALLON).toFixed(2)), unit: "l" }
+          : { quantity: amount, unit: parseUnit(unit) };
+    rest = rest.replace(pack[0], " ");
+  } else if (DOZEN.test(rest)) {
+    measure = { quantity: 1, unit: "dozen" };
+    rest = rest.replace(DOZEN, " ");
+  } else {
+    const leading = rest.match(/^(\d+(?:[.,]\d+)?)\s*(.+)$/);
+    if (leading) {
+      const { unit, rest: name } = splitUnit(leading[2]);
+      measure = { quantity: toNumber(leading[1]), unit };
+      rest = name;
+    }
+  }
+
+  if (count !== undefined) {
+    measure = {
+      quantity: count * (measure.unit ? (measure.quantity ?? 1) : 1),
+      unit: measure.unit,
+    };
+  }
+  return { ...measure, rest };
+};
+
+export const parseReceiptText = (text: string): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const priced = PRICE.test(text);
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    let line = raw.replace(/\s+/g, " ").trim();
+    if (!line) return;
+
+    // "1.32 lb @ 0.59/lb  0.78" or "2 @ 1.29" on its own line measures the item above it.
+    const previous = lines[lines.length - 1];
+    const weightOnly = line.replace(TRAILING_PRICE, "").replace(UNIT_PRICE, "").trim();
+    const weight = weightOnly.match(WEIGHED);
+    if (previous && weight && weight[0].length === weightOnly.length) {
+      previous.quantity = toNumber(weight[1]);
+      previous.unit = parseUnit(weight[2].toLowerCase());
+      previous.source = `${previous.source} / ${line}`;
+      return;
+    }
+    const count = line.match(COUNT_ONLY);
+    if (count && !/[a-z]{2,}/i.test(line)) {
+      if (previous && !previous.unit) {
+        previous.quantity = Number.parseInt(count[1], 10);
+        previous.source = `${previous.source} / ${line}`;
+      }
+      return;
+    }
+
+    if (isBoilerplate(line)) return;
+    const unitPrice = line.match(UNIT_PRICE);
+    line = line.replace(UNIT_PRICE, "");
+    while (TRAILING_PRICE.test(line)) line = line.replace(TRAILING_PRICE, "");
+    line = line.replace(CODE, " ").trim();
+
+    const priceCount = unitPrice?.[1] ? Number.parseInt(unitPrice[1], 10) : undefined;
+    const { quantity, unit, rest } = takeMeasure(line, priceCount);
+    const expanded = expandName(rest);
+    if (!expanded) return;
+    const { name, confidence } = resolveName(expanded);
+    // On a receipt, unrecognised lines above the first item are the store's name and address.
+    if (!name || (priced && confidence < RECEIPT_MATCH_CONFIDENCE && !lines.length)) return;
+
+    lines.push({
+      id: `${index}-${name}`,
+      source: raw.trim(),
+      name,
+      quantity,
+      unit,
+      confidence,
+      include: confidence >= RECEIPT_MATCH_CONFIDENCE,
+    });
+  });
+
+  return lines;
+};
+
+export const receiptPantryItems = (lines: ReceiptLine[]): PantryItem[] =>
+  lines
+    .filter((line) => line.include && line.name.trim())
+    .map(({ name, quantity, unit }) => ({ name: name.trim(), quantity, unit }));
@@ -0,0 +1,467 @@
+import type { Recipe, RecipeIngredient } from "@/data/recipes";
+import { needsReview, parseIngredientText } from "@/lib/ingredientParser";
+import { canonicalizeIngredient, ingredientAncestors } from "@/lib/ingredients";
+import { DEFAULT_UNIT, convertQuantity, formatQuantity, parseUnit } from "@/lib/units";
+
+// Where an import went wrong; `line` is 1-based in the pasted text.
+export type RecipeImportIssue = {
+  line: number;
+  text: string;
+  message: string;
+};
+
+export type RecipeImportResult =
+  | {
+      ok: true;
+      recipe: Recipe;
+      format: "json-ld" | "text";
+      // Lines that imported with a guess, e.g. "salt to taste" becoming a pinch.
+      warnings: RecipeImportIssue[];
+    }
+  | { ok: false; issues: RecipeImportIssue[] };
+
+// Seasonings added by taste rather than measured; only these default to a pinch.
+const PINCH_SEASONINGS = new Set([
+  "salt",
+  "sea salt",
+  "kosher salt",
+  "black pepper",
+  "white pepper",
+  "cayenne",
+  "chili flake",
+  "red pepper flake",
+  "paprika",
+  "nutmeg",
+  "cinnamon",
+  "cumin",
+  "oregano",
+]);
+
+const isSeasoning = (name: string) =>
+  [name, ...ingredientAncestors(name)].some((entry) => PINCH_SEASONINGS.has(entry));
+
+type LineResult = { ingredient: RecipeIngredient; warning?: string } | { error: string };
+
+// Recipe lines go through the shared ingredient parser; lines it is unsure of still import,
+// with the parser's doubt passed on as a warning.
+export const parseIngredientLine = (line: string): LineResult => {
+  const parsed = parseIngredientText(line);
+  if (parsed.error) return { error: parsed.error };
+  const { name, quantity, unit } = parsed;
+  const doubt = needsReview(parsed) ? parsed.issues[0] : undefined;
+
+  if (!quantity) {
+    // "Salt to taste" has no amount; a pinch keeps it from counting as a missing staple.
+    // Anything else ("lime wedges, for serving") is taken as one piece.
+    return parsed.unmeasured && isSeasoning(name)
+      ? { ingredient: { name, quantity: 1, unit: "pinch" }, warning: doubt }
+      : {
+          ingredient: { name, quantity: 1, unit: DEFAULT_UNIT },
+          warning: doubt ?? `No quantity given; assuming one ${name}.`,
+        };
+  }
+  // A recipe needs the upper end of a range to be sure there is enough.
+  const range =
+    quantity.max > quantity.min
+      ? `Used the upper end of ${formatQuantity(quantity.min)}–${formatQuantity(quantity.max)}.`
+      : undefined;
+  return {
+    ingredient: { name, quantity: Number(quantity.max.toFixed(3)), unit: unit ?? DEFAULT_UNIT },
+    warning: doubt ?? range,
+  };
+};
+
+// Recipes are matched and listed by ingredient name, so a second line for the same ingredient
+// ("butter, melted" and "butter, for greasing") is added to the first row instead of repeating it.
+const addIngredientRow = (
+  ingredients: RecipeIngredient[],
+  firstLines: Map<string, number>,
+  ingredient: RecipeIngredient,
+  line: number
+): { warning?: string } | { error: string } => {
+  const existing = ingredients.find((row) => row.name === ingredient.name);
+  if (!existing) {
+    ingredients.push(ingredient);
+    firstLines.set(ingredient.name, line);
+    return {};
+  }
+  const amount = convertQuantity(
+    ingredient.quantity,
+    ingredient.unit,
+    existing.unit,
+    ingredient.name
+  );
+  const first = firstLines.get(ingredient.name);
+  if (amount === null) {
+    return {
+      error: `${ingredient.name} is already listed on line ${first}, in a unit this amount can't be converted to.`,
+    };
+  }
+  existing.quantity = Number((existing.quantity + amount).toFixed(3));
+  return { warning: `Added to the ${ingredient.name} on line ${first}.` };
+};
+
+export const slugifyRecipeName = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Checks a candidate against the `Recipe` shape, reporting every problem rather than the first.
+export const validateRecipe = (candidate: Partial<Recipe>): string[] => {
+  const problems: string[] = [];
+  if (!candidate.id?.trim()) problems.push("The recipe needs an id.");
+  if (!candidate.name?.trim()) problems.push("The recipe needs a name.");
+  if (typeof candidate.cuisine !== "string") problems.push("Cuisine must be text.");
+  if (typeof candidate.description !== "string") problems.push("Description must be text.");
+  if (!Array.isArray(candidate.tags) || candidate.tags.some((tag) => typeof tag !== "string")) {
+    problems.push("Tags must be a list of text.");
+  }
+  if (!Number.isInteger(candidate.baseServings) || (candidate.baseServings ?? 0) < 1) {
+    problems.push("Servings must be a whole number of at least 1.");
+  }
+  if (!candidate.ingredients?.length) {
+    problems.push("The recipe needs at least one ingredient.");
+  } else {
+    const firstIndex = new Map<string, number>();
+    candidate.ingredients.forEach((ingredient, index) => {
+      if (!ingredient.name?.trim()) problems.push(`Ingredient ${index + 1} has no name.`);
+      const key = canonicalizeIngredient(ingredient.name ?? "");
+      const first = firstIndex.get(key);
+      if (key && first !== undefined) {
+        problems.push(
+          `Ingredient ${index + 1} repeats ${key} from ingredient ${first + 1}; combine them.`
+        );
+      } else if (key) {
+        firstIndex.set(key, index);
+      }
+      if (!Number.isFinite(ingredient.quantity) || ingredient.quantity < 0) {
+        problems.push(`Ingredient ${index + 1} needs a quantity of zero or more.`);
+      }
+      if (!parseUnit(ingredient.unit ?? "")) {
+        problems.push(`Ingredient ${index + 1} has an unknown unit "${ingredient.unit}".`);
+      }
+    });
+  }
+  if (!candidate.instructions?.length || candidate.instructions.some((step) => !step.trim())) {
+    problems.push("The recipe needs at least one instruction step.");
+  }
+  return problems;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  apos: "'",
+  quot: '"',
+  lt: "<",
+  gt: ">",
+  nbsp: " ",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+};
+
+const decodeHtml = (text: string) =>
+  text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&([a-z0-9]+);/gi, (match, name: string) => ENTITIES[name.toLowerCase()] ?? match)
+    .replace(/\s+/g, " ")
+    .trim();
+
+const lineAt = (source: string, index: number) =>
+  index < 0 ? 1 : source.slice(0, index).split("\n").length;
+
+type JsonLdNode = Record<string, unknown>;
+
+const isRecipeNode = (node: JsonLdNode) => {
+  const type = node["@type"];
+  return Array.isArray(type) ? type.includes("Recipe") : type === "Recipe";
+};
+
+const findRecipeNode = (value: unknown): JsonLdNode | undefined => {
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = findRecipeNode(entry);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (!value || typeof value !== "object") return undefined;
+  const node = value as JsonLdNode;
+  if (isRecipeNode(node)) return node;
+  return findRecipeNode(node["@graph"]);
+};
+
+const asText = (value: unknown): string =>
+  typeof value === "string"
+    ? decodeHtml(value)
+    : Array.isArray(value)
+      ? value.map(asText).filter(Boolean).join(", ")
+      : typeof value === "number"
+        ? String(value)
+        : "";
+
+const asList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(asText) : asText(value).split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+// recipeInstructions may be one string, a list of strings, HowToSteps, or HowToSections of steps.
+const instructionSteps = (value: unknown): string[] => {
+  if (typeof value === "string") {
+    return value
+      .replace(/<\/(p|li)>|<br\s*\/?>/gi, "\n")
+      .split(/\n+/)
+      .map((step) => decodeHtml(step).replace(/^(step\s*)?\d+[.):]\s*/i, ""))
+      .filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(instructionSteps);
+  if (value && typeof value === "object") {
+    const node = value as JsonLdNode;
+    if (node.itemListElement) return instructionSteps(node.itemListElement);
+    return instructionSteps(node.text ?? node.name);
+  }
+  return [];
+};
+
+const servingsFrom = (value: unknown) => {
+  const match = asText(value).match(/\d+/);
+  return match ? Number.parseInt(match[0], 10) : undefined;
+};
+
+const finish = (
+  recipe: Recipe,
+  format: "json-ld" | "text",
+  issues: RecipeImportIssue[],
+  warnings: RecipeImportIssue[],
+  recipeLine: number
+): RecipeImportResult => {
+  // Recipes that don't say how many they serve are assumed to feed two, like most built-ins.
+  if (!recipe.baseServings) {
+    recipe.baseServings = 2;
+    warnings.push({ line: recipeLine, text: "", message: "No servings given; assuming 2." });
+  }
+  const problems = issues.length
+    ? []
+    : validateRecipe(recipe).map((message) => ({ line: recipeLine, text: "", message }));
+  const all = [...issues, ...problems];
+  return all.length ? { ok: false, issues: all } : { ok: true, recipe, format, warnings };
+};
+
+const importJsonLd = (source: string): RecipeImportResult | undefined => {
+  const scripts = [
+    ...source.matchAll(
+      /<script[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi
+    ),
+  ];
+  if (!scripts.length) return undefined;
+
+  const issues: RecipeImportIssue[] = [];
+  let node: JsonLdNode | undefined;
+  for (const script of scripts) {
+    const start = (script.index ?? 0) + script[0].indexOf(script[1]);
+    try {
+      node = findRecipeNode(JSON.parse(script[1]));
+    } catch (error) {
+      issues.push({
+        line: lineAt(source, start),
+        text: script[1].trim().split("\n")[0].slice(0, 80),
+        message: `This JSON-LD block is not valid JSON${
+          error instanceof Error ? `: ${error.message}` : "."
+        }`,
+      });
+    }
+    if (node) break;
+  }
+  if (!node) {
+    return {
+      ok: false,
+      issues: issues.length
+        ? issues
+        : [
+            {
+              line: 1,
+              text: "",
+              message: "The page has JSON-LD but none of it describes a Recipe.",
+            },
+          ],
+    };
+  }
+
+  const warnings: RecipeImportIssue[] = [];
+  const ingredients: RecipeIngredient[] = [];
+  const firstLines = new Map<string, number>();
+  const rawIngredients = Array.isArray(node.recipeIngredient)
+    ? node.recipeIngredient
+    : Array.isArray(node.ingredients)
+      ? node.ingredients
+      : [];
+  rawIngredients.forEach((raw) => {
+    const text = asText(raw);
+    const line = lineAt(source, source.indexOf(JSON.stringify(raw).slice(1, -1)));
+    const parsed = parseIngredientLine(text);
+    if ("error" in parsed) {
+      issues.push({ line, text, message: parsed.error });
+      return;
+    }
+    const row = addIngredientRow(ingredients, firstLines, parsed.ingredient, line);
+    if ("error" in row) {
+      issues.push({ line, text, message: row.error });
+      return;
+    }
+    if (parsed.warning) warnings.push({ line, text, message: parsed.warning });
+    if (row.warning) warnings.push({ line, text, message: row.warning });
+  });
+
+  const name = asText(node.name);
+  const recipe: Recipe = {
+    id: slugifyRecipeName(name),
+    name,
+    cuisine: asList(node.recipeCuisine)[0] ?? "",
+    description: asText(node.description),
+    tags: [...new Set([...asList(node.recipeCategory), ...asList(node.keywords)])]
+      .map((tag) => tag.toLowerCase())
+      .slice(0, 8),
+    baseServings: servingsFrom(node.recipeYield) ?? 0,
+    ingredients,
+    instructions: instructionSteps(node.recipeInstructions),
+  };
+  return finish(recipe, "json-ld", issues, warnings, lineAt(source, scripts[0].index ?? 0));
+};
+
+const SECTION_HEADINGS: Record<string, "ingredients" | "instructions"> = {
+  ingredients: "ingredients",
+  ingredient: "ingredients",
+  "you will need": "ingredients",
+  instructions: "instructions",
+  directions: "instructions",
+  method: "instructions",
+  steps: "instructions",
+  preparation: "instructions",
+};
+
+const METADATA = /^(serves|servings|yield|makes|cuisine|tags|description)\s*:?\s*(.+)$/i;
+
+// Free text: a title line, optional "Serves 4" / "Cuisine: Thai" / "Tags: …" lines,
+// then an "Ingredients" heading and an "Instructions" (or Method, Directions, Steps) heading.
+const importText = (source: string): RecipeImportResult => {
+  const lines = source.split(/\r?\n/);
+  const issues: RecipeImportIssue[] = [];
+  const warnings: RecipeImportIssue[] = [];
+  const recipe: Recipe = {
+    id: "",
+    name: "",
+    cuisine: "",
+    description: "",
+    tags: [],
+    baseServings: 0,
+    ingredients: [],
+    instructions: [],
+  };
+  const description: string[] = [];
+  const firstLines = new Map<string, number>();
+  let section: "header" | "ingredients" | "instructions" = "header";
+  let headingLine = 0;
+
+  lines.forEach((raw, index) => {
+    const text = raw.trim();
+    const line = index + 1;
+    if (!text) return;
+
+    const heading = SECTION_HEADINGS[text.toLowerCase().replace(/[:\s]+$/, "")];
+    if (heading) {
+      section = heading;
+      headingLine ||= line;
+      return;
+    }
+
+    if (section === "ingredients") {
+      const parsed = parseIngredientLine(text);
+      if ("error" in parsed) {
+        issues.push({ line, text, message: parsed.error });
+        return;
+      }
+      const row = addIngredientRow(recipe.ingredients, firstLines, parsed.ingredient, line);
+      if ("error" in row) {
+        issues.push({ line, text, message: row.error });
+        return;
+      }
+      if (parsed.warning) warnings.push({ line, text, message: parsed.warning });
+      if (row.warning) warnings.push({ line, text, message: row.warning });
+      return;
+    }
+
+    if (section === "instructions") {
+      const step = text.replace(/^(step\s*)?\d+[.):]\s*|^[-*•]\s*/i, "").trim();
+      if (step) recipe.instructions.push(step);
+      return;
+    }
+
+    if (!recipe.name) {
+      recipe.name = text.replace(/^#+\s*/, "");
+      return;
+    }
+    const metadata = text.match(METADATA);
+    if (!metadata) {
+      description.push(text);
+      return;
+    }
+    const [, key, value] = metadata;
+    switch (key.toLowerCase()) {
+      case "cuisine":
+        recipe.cuisine = value.trim();
+        break;
+      case "tags":
+        recipe.tags = asList(value).map((tag) => tag.toLowerCase());
+        break;
+      case "description":
+        description.push(value.trim());
+        break;
+      default: {
+        const servings = servingsFrom(value);
+        if (servings) recipe.baseServings = servings;
+        else issues.push({ line, text, message: "Could not read a number of servings." });
+      }
+    }
+  });
+
+  if (!headingLine) {
+    return {
+      ok: false,
+      issues: [
+        {
+          line: 1,
+          text: lines[0]?.trim() ?? "",
+          message:
+            'Add an "Ingredients" heading and an "Instructions" heading so the sections can be told apart.',
+        },
+      ],
+    };
+  }
+
+  recipe.description = description.join(" ");
+  recipe.id = slugifyRecipeName(recipe.name);
+  return finish(recipe, "text", issues, warnings, headingLine);
+};
+
+// Accepts a saved web page (its schema.org Recipe JSON-LD is used) or a plain-text recipe.
+export const importRecipe = (source: string): RecipeImportResult => {
+  if (!source.trim()) {
+    return { ok: false, issues: [{ line: 1, text: "", message: "Paste a recipe to import." }] };
+  }
+  return importJsonLd(source) ?? importText(source);
+};
+
+// Gives an imported recipe an id no other recipe uses, numbering repeats ("soup", "soup-2").
+export const uniqueRecipeId = (id: string, existingIds: Iterable<string>) => {
+  const taken = new Set(existingIds);
+  const base = id || "recipe";
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate); suffix += 1) candidate = `${base}-${suffix}`;
+  return candidate;
+};
@@ -0,0 +1,249 @@
+import type { Recipe } from "@/data/recipes";
+import { canonicalizeIngredient, findBestMatch } from "@/lib/ingredients";
+import { recipeNutrition } from "@/lib/nutrition";
+import type { PantryItem } from "@/lib/recommendations";
+
+export type ExplorerSort = "relevance" | "fewest-missing" | "name" | "calories" | "quickest";
+
+export type ServingsBucket = "1-2" | "3-4" | "5+";
+
+export type MissingBucket = "0" | "1" | "2" | "3+";
+
+export type ExplorerFilters = {
+  query: string;
+  cuisines: string[];
+  tags: string[];
+  missing: MissingBucket[];
+  servings: ServingsBucket[];
+  sort: ExplorerSort;
+  page: number;
+};
+
+export const DEFAULT_EXPLORER_FILTERS: ExplorerFilters = {
+  query: "",
+  cuisines: [],
+  tags: [],
+  missing: [],
+  servings: [],
+  sort: "relevance",
+  page: 1,
+};
+
+export const EXPLORER_SORTS: { id: ExplorerSort; label: string }[] = [
+  { id: "relevance", label: "Best match" },
+  { id: "fewest-missing", label: "Fewest missing" },
+  { id: "name", label: "Name" },
+  { id: "calories", label: "Lightest" },
+  { id: "quickest", label: "Fewest steps" },
+];
+
+export const SERVINGS_BUCKETS: ServingsBucket[] = ["1-2", "3-4", "5+"];
+export const MISSING_BUCKETS: MissingBucket[] = ["0", "1", "2", "3+"];
+
+export const EXPLORER_PAGE_SIZE = 6;
+
+export type ExplorerEntry = {
+  recipe: Recipe;
+  // Search relevance; every recipe scores 0 when there is no query.
+  relevance: number;
+  missingIngredients: string[];
+  caloriesPerServing: number;
+};
+
+export type FacetCount = { value: string; count: number };
+
+export type ExplorerResult = {
+  entries: ExplorerEntry[];
+  total: number;
+  page: number;
+  pageCount: number;
+  facets: {
+    cuisines: FacetCount[];
+    tags: FacetCount[];
+    missing: FacetCount[];
+    servings: FacetCount[];
+  };
+};
+
+// Where a query word is found decides how much it counts; a word found nowhere excludes the recipe.
+const FIELD_WEIGHTS = { name: 3, ingredient: 2, tag: 1.5, cuisine: 1.5, description: 1 };
+
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+export const searchRelevance = (recipe: Recipe, query: string): number | null => {
+  const terms = words(query);
+  if (!terms.length) return 0;
+  const fields: [number, string[]][] = [
+    [FIELD_WEIGHTS.name, words(recipe.name)],
+    [
+      FIELD_WEIGHTS.ingredient,
+      recipe.ingredients.flatMap((ingredient) =>
+        words(`${ingredient.name} ${canonicalizeIngredient(ingredient.name)}`)
+      ),
+    ],
+    [FIELD_WEIGHTS.tag, recipe.tags.flatMap(words)],
+    [FIELD_WEIGHTS.cuisine, words(recipe.cuisine)],
+    [FIELD_WEIGHTS.description, words(recipe.description)],
+  ];
+  let total = 0;
+  for (const term of terms) {
+    const weight = Math.max(
+      0,
+      ...fields.map(([fieldWeight, fieldWords]) =>
+        fieldWords.some((word) => word.startsWith(term)) ? fieldWeight : 0
+      )
+    );
+    if (!weight) return null;
+    total += weight;
+  }
+  return total / terms.length;
+};
+
+export const servingsBucket = (servings: number): ServingsBucket =>
+  servings <= 2 ? "1-2" : servings <= 4 ? "3-4" : "5+";
+
+export const missingBucket = (count: number): MissingBucket =>
+  count >= 3 ? "3+" : (String(count) as MissingBucket);
+
+const missingFrom = (recipe: Recipe, pantryNames: string[]) =>
+  recipe.ingredients
+    .filter((ingredient) => !findBestMatch(ingredient.name, pantryNames))
+    .map((ingredient) => ingredient.name);
+
+type Facet = "cuisines" | "tags" | "missing" | "servings";
+
+const facetValues = (entry: ExplorerEntry): Record<Facet, string[]> => ({
+  cuisines: entry.recipe.cuisine ? [entry.recipe.cuisine] : [],
+  tags: entry.recipe.tags,
+  missing: [missingBucket(entry.missingIngredients.length)],
+  servings: [servingsBucket(entry.recipe.baseServings)],
+});
+
+const matchesFacet = (entry: ExplorerEntry, facet: Facet, selected: string[]) =>
+  !selected.length || facetValues(entry)[facet].some((value) => selected.includes(value));
+
+const countFacet = (entries: ExplorerEntry[], facet: Facet, order?: string[]): FacetCount[] => {
+  const counts = new Map<string, number>(order?.map((value) => [value, 0]));
+  entries.forEach((entry) =>
+    facetValues(entry)[facet].forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+  );
+  const list = [...counts.entries()].map(([value, count]) => ({ value, count }));
+  return order ? list : list.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+const compareEntries = (sort: ExplorerSort) => (a: ExplorerEntry, b: ExplorerEntry) => {
+  const byMissing = a.missingIngredients.length - b.missingIngredients.length;
+  const byName = a.recipe.name.localeCompare(b.recipe.name);
+  switch (sort) {
+    case "fewest-missing":
+      return byMissing || byName;
+    case "name":
+      return byName;
+    case "calories":
+      return a.caloriesPerServing - b.caloriesPerServing || byName;
+    case "quickest":
+      return a.recipe.instructions.length - b.recipe.instructions.length || byName;
+    default:
+      return b.relevance - a.relevance || byMissing || byName;
+  }
+};
+
+// Works without a pantry: every ingredient then counts as missing, so browsing still sorts sensibly.
+export const exploreRecipes = (
+  recipes: Recipe[],
+  pantry: PantryItem[],
+  filters: ExplorerFilters
+): ExplorerResult => {
+  const pantryNames = pantry.map((item) => canonicalizeIngredient(item.name));
+  const searched = recipes.flatMap((recipe) => {
+    const relevance = searchRelevance(recipe, filters.query);
+    if (relevance === null) return [];
+    return [
+      {
+        recipe,
+        relevance,
+        missingIngredients: missingFrom(recipe, pantryNames),
+        caloriesPerServing: recipeNutrition(recipe).perServing.calories,
+      },
+    ];
+  });
+
+  const selected: Record<Facet, string[]> = {
+    cuisines: filters.cuisines,
+    tags: filters.tags,
+    missing: filters.missing,
+    servings: filters.servings,
+  };
+  const facets = Object.keys(selected) as Facet[];
+  // Each facet is counted with every other facet applied, so its own options stay selectable.
+  const filteredExcept = (skip?: Facet) =>
+    searched.filter((entry) =>
+      facets.every((facet) => facet === skip || matchesFacet(entry, facet, selected[facet]))
+    );
+
+  const filtered = filteredExcept().sort(compareEntries(filters.sort));
+  const pageCount = Math.max(1, Math.ceil(filtered.length / EXPLORER_PAGE_SIZE));
+  const page = Math.min(Math.max(1, filters.page), pageCount);
+
+  return {
+    entries: filtered.slice((page - 1) * EXPLORER_PAGE_SIZE, page * EXPLORER_PAGE_SIZE),
+    total: filtered.length,
+    page,
+    pageCount,
+    facets: {
+      cuisines: countFacet(filteredExcept("cuisines"), "cuisines"),
+      tags: countFacet(filteredExcept("tags"), "tags"),
+      missing: countFacet(filteredExcept("missing"), "missing", MISSING_BUCKETS),
+      servings: countFacet(filteredExcept("servings"), "servings", SERVINGS_BUCKETS),
+    },
+  };
+};
+
+const QUERY_KEYS = {
+  query: "q",
+  cuisines: "cuisine",
+  tags: "tag",
+  missing: "missing",
+  servings: "serves",
+  sort: "sort",
+  page: "page",
+} as const;
+
+// Only non-default values are written, so an untouched explorer leaves the URL clean.
+export const filtersToQuery = (filters: ExplorerFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set(QUERY_KEYS.query, filters.query.trim());
+  (["cuisines", "tags", "missing", "servings"] as const).forEach((facet) =>
+    filters[facet].forEach((value) => params.append(QUERY_KEYS[facet], value))
+  );
+  if (filters.sort !== DEFAULT_EXPLORER_FILTERS.sort) params.set(QUERY_KEYS.sort, filters.sort);
+  if (filters.page > 1) params.set(QUERY_KEYS.page, String(filters.page));
+  return params.toString();
+};
+
+const isSort = (value: string | null): value is ExplorerSort =>
+  EXPLORER_SORTS.some((sort) => sort.id === value);
+
+export const filtersFromQuery = (params: URLSearchParams): ExplorerFilters => {
+  const sort = params.get(QUERY_KEYS.sort);
+  const page = Number.parseInt(params.get(QUERY_KEYS.page) ?? "", 10);
+  return {
+    query: params.get(QUERY_KEYS.query) ?? "",
+    cuisines: params.getAll(QUERY_KEYS.cuisines),
+    tags: params.getAll(QUERY_KEYS.tags),
+    missing: params
+      .getAll(QUERY_KEYS.missing)
+      .filter((value): value is MissingBucket => MISSING_BUCKETS.includes(value as MissingBucket)),
+    servings: params
+      .getAll(QUERY_KEYS.servings)
+      .filter((value): value is ServingsBucket =>
+        SERVINGS_BUCKETS.includes(value as ServingsBucket)
+      ),
+    sort: isSort(sort) ? sort : DEFAULT_EXPLORER_FILTERS.sort,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
@@ -0,0 +1,506 @@
+import type { Recipe } from "@/data/recipes";
+import { STAPLE_INGREDIENTS } from "@/data/staples";
+import { CookingHistoryEntry, recentlyCookedPenalty } from "@/lib/cookingHistory";
+import {
+  DietaryConflict,
+  DietaryProfile,
+  dietaryConflicts,
+  ingredientsListedIn,
+} from "@/lib/dietary";
+import {
+  IngredientMatch,
+  canonicalizeIngredient,
+  findBestMatch,
+  ingredientAncestors,
+} from "@/lib/ingredients";
+import {
+  NutritionGoalResult,
+  NutritionTargets,
+  RecipeNutrition,
+  evaluateNutritionGoals,
+  nutritionGoalFactor,
+  recipeNutrition,
+} from "@/lib/nutrition";
+import { StorageLocation, earliestDate } from "@/lib/pantry";
+import { estimateDaysLeft, urgency } from "@/lib/perishability";
+import { ProposedSwap, SWAP_CONFIDENCE, proposeSwap } from "@/lib/substitutions";
+import { convertQuantity, normalizeUnit } from "@/lib/units";
+
+export type PantryItem = {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  // Calendar dates as YYYY-MM-DD.
+  addedOn?: string;
+  expiresOn?: string;
+  location?: StorageLocation;
+};
+
+// Amounts are expressed in the recipe ingredient's unit, already scaled to the requested servings.
+export type IngredientCoverage = {
+  required: number;
+  available?: number;
+  shortfall: number;
+  fraction: number;
+};
+
+export type Recommendation = {
+  recipe: Recipe;
+  // 0–1 match from coverage and quantities, weighted by the score profile.
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  servings: number;
+  matchedIngredients: string[];
+  missingIngredients: string[];
+  coverage: Record<string, IngredientCoverage>;
+  // Which pantry item satisfied each matched ingredient, and how confidently.
+  matches: Record<string, IngredientMatch>;
+  // Substitutions the pantry can cover for ingredients that are missing outright.
+  swaps: Record<string, ProposedSwap>;
+  cookableWithSwaps: boolean;
+  coveredFraction: number;
+  // null when no pantry quantity can be compared with the recipe, so the limit is unknown.
+  servingsPossible: number | null;
+  // Matched pantry items ordered by how soon they spoil.
+  expiringMatches: ExpiringMatch[];
+  wasteRescue: number;
+  // Ingredients that break the dietary profile; only non-empty when conflicts are flagged.
+  dietaryConflicts: DietaryConflict[];
+  // Scaled to `servings`; per-serving figures stay the same as servings change.
+  nutrition: RecipeNutrition;
+  nutritionGoals: NutritionGoalResult[];
+  ranking: RankingBreakdown;
+};
+
+export type ExpiringMatch = {
+  name: string;
+  daysLeft: number;
+  estimated: boolean;
+};
+
+export type RankingMode = "match" | "use-it-up" | "fewest-missing" | "servings";
+
+export type RankingFactor = {
+  label: string;
+  detail: string;
+  contribution: number;
+};
+
+// `key` is what recommendations are sorted by; the factors add up to it.
+export type RankingBreakdown = {
+  mode: RankingMode;
+  key: number;
+  factors: RankingFactor[];
+};
+
+// How much each part of the score counts. Coverage and quantity are relative to each other;
+// the rest scale an ingredient's or an adjustment's usual weight.
+export type ScoreWeights = {
+  // Having each ingredient at all, by how confidently the pantry item matches it.
+  coverage: number;
+  // Having enough of it for the chosen servings.
+  quantity: number;
+  // A staple's weight next to an ordinary ingredient's 1; 0 ignores staples entirely.
+  staples: number;
+  // How much a missing ingredient the pantry can substitute still counts as present.
+  swaps: number;
+  // Scales the boost for meeting nutrition goals (when goals boost rather than filter).
+  nutrition: number;
+  // Scales the penalty for dishes cooked in the last few days.
+  recentlyCooked: number;
+  // Boost for a cuisine someone at the table favours.
+  favourites: number;
+  // Penalty per disliked ingredient in the recipe.
+  dislikes: number;
+};
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  coverage: 0.6,
+  quantity: 0.4,
+  staples: 0,
+  swaps: SWAP_CONFIDENCE,
+  nutrition: 1,
+  recentlyCooked: 1,
+  favourites: 0.1,
+  dislikes: 0.15,
+};
+
+// `parts` add up to the recommendation's score; `total` adds the adjustments on top.
+export type ScoreBreakdown = {
+  parts: RankingFactor[];
+  // Staples in the recipe, which count for `weights.staples` of an ordinary ingredient.
+  staples: string[];
+  // Preference boosts and penalties, applied in every ranking mode.
+  adjustments: RankingFactor[];
+  total: number;
+  weights: ScoreWeights;
+};
+
+export type ScoreOptions = {
+  servings?: Record<string, number>;
+  rankBy?: RankingMode;
+  now?: Date;
+  // Newest first; recipes cooked recently are nudged down the list.
+  history?: CookingHistoryEntry[];
+  dietary?: DietaryProfile;
+  // Per-serving goals such as "under 600 kcal" that hide or boost recipes.
+  nutrition?: NutritionTargets;
+  weights?: ScoreWeights;
+  // Soft preferences: dislikes push a recipe down, favourite cuisines lift it.
+  dislikedIngredients?: string[];
+  favouriteCuisines?: string[];
+};
+
+export const mergePantryItems = (items: PantryItem[]): PantryItem[] => {
+  const merged = new Map<string, PantryItem>();
+
+  items.forEach((item) => {
+    const name = canonicalizeIngredient(item.name);
+    if (!name) return;
+    const unit = normalizeUnit(item.unit);
+    const existing = merged.get(name);
+
+    if (!existing) {
+      merged.set(name, { ...item, name, unit });
+      return;
+    }
+    const dated: PantryItem = {
+      ...existing,
+      addedOn: earliestDate(existing.addedOn, item.addedOn),
+      expiresOn: earliestDate(existing.expiresOn, item.expiresOn),
+      location: existing.location ?? item.location,
+    };
+    if (item.quantity === undefined) {
+      merged.set(name, dated);
+      return;
+    }
+    if (existing.quantity === undefined) {
+      merged.set(name, { ...dated, quantity: item.quantity, unit });
+      return;
+    }
+
+    // Amounts that can't be converted ("200 g" onto "2 pieces") are not merged, so the stock
+    // already on hand is never replaced by the new amount.
+    const converted = convertQuantity(item.quantity, unit, existing.unit, name);
+    merged.set(
+      name,
+      converted === null ? dated : { ...dated, quantity: existing.quantity + converted }
+    );
+  });
+
+  return [...merged.values()];
+};
+
+export const pantryQuantityIn = (
+  item: PantryItem,
+  unit: string,
+  ingredient: string
+): number | undefined => {
+  if (item.quantity === undefined) return undefined;
+  return convertQuantity(item.quantity, item.unit, unit, ingredient) ?? undefined;
+};
+
+const measureCoverage = (required: number, available?: number): IngredientCoverage => {
+  // Items without a comparable quantity are assumed to be on hand in full.
+  if (available === undefined || required <= 0) {
+    return { required, available, shortfall: 0, fraction: 1 };
+  }
+  return {
+    required,
+    available,
+    shortfall: Math.max(0, required - available),
+    fraction: Math.min(1, available / required),
+  };
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeExpiring = (matches: ExpiringMatch[]) =>
+  matches
+    .map(({ name, daysLeft, estimated }) => {
+      const when = daysLeft <= 0 ? "due now" : `${daysLeft}d left`;
+      return `${name} (${estimated ? "≈" : ""}${when})`;
+    })
+    .join(", ");
+
+type ScoredRecipe = Omit<Recommendation, "ranking">;
+
+const STAPLES = new Set(STAPLE_INGREDIENTS.map(canonicalizeIngredient));
+
+const isStaple = (name: string) =>
+  [canonicalizeIngredient(name), ...ingredientAncestors(name)].some((entry) =>
+    STAPLES.has(entry)
+  );
+
+const formatWeight = (weight: number) => `×${Number(weight.toFixed(2))}`;
+
+// Coverage and quantity are weighted averages over the recipe's ingredients, with staples
+// weighted down so a missing pinch of salt no longer costs as much as a missing main protein.
+const breakDownScore = (
+  recipe: Recipe,
+  coverage: Record<string, IngredientCoverage>,
+  matches: Record<string, IngredientMatch>,
+  swaps: Record<string, ProposedSwap>,
+  weights: ScoreWeights
+) => {
+  const staples = recipe.ingredients.map(({ name }) => name).filter(isStaple);
+  const ingredientWeight = (name: string) => (staples.includes(name) ? weights.staples : 1);
+  // A recipe made only of staples still needs something to score.
+  const weigh = recipe.ingredients.some(({ name }) => ingredientWeight(name) > 0)
+    ? ingredientWeight
+    : () => 1;
+  const totalWeight = recipe.ingredients.reduce((total, { name }) => total + weigh(name), 0);
+  const average = (value: (name: string) => number) =>
+    recipe.ingredients.reduce((total, { name }) => total + weigh(name) * value(name), 0) /
+    totalWeight;
+
+  const present = average((name) =>
+    swaps[name] ? weights.swaps : (matches[name]?.confidence ?? 0)
+  );
+  const sufficient = average((name) =>
+    swaps[name] ? weights.swaps : coverage[name].fraction * (matches[name]?.confidence ?? 0)
+  );
+  const shareWeight = weights.coverage + weights.quantity || 1;
+  const parts: RankingFactor[] = [
+    {
+      label: "Ingredient coverage",
+      detail: `${percent(present)} of the recipe on hand, by match confidence (${formatWeight(
+        weights.coverage / shareWeight
+      )})`,
+      contribution: (present * weights.coverage) / shareWeight,
+    },
+    {
+      label: "Quantity sufficiency",
+      detail: `${percent(sufficient)} of the amounts needed (${formatWeight(
+        weights.quantity / shareWeight
+      )})`,
+      contribution: (sufficient * weights.quantity) / shareWeight,
+    },
+  ];
+  return {
+    parts,
+    staples,
+    score: parts.reduce((total, part) => total + part.contribution, 0),
+  };
+};
+
+const rankRecommendation = (
+  recommendation: ScoredRecipe,
+  mode: RankingMode
+): RankingBreakdown => {
+  const { score, scoreBreakdown, missingIngredients, swaps, wasteRescue, expiringMatches } =
+    recommendation;
+  const coverage: RankingFactor = {
+    label: "Match score",
+    detail: `${percent(score)} from ingredient coverage and quantities`,
+    contribution: score,
+  };
+  const swapCount = Object.keys(swaps).length;
+  const factors: RankingFactor[] = [];
+
+  if (mode === "use-it-up") {
+    factors.push(coverage, {
+      label: "Rescues expiring food",
+      detail: expiringMatches.length ? describeExpiring(expiringMatches) : "Nothing close to spoiling",
+      contribution: wasteRescue,
+    });
+  } else if (mode === "fewest-missing") {
+    factors.push(
+      {
+        label: "Missing ingredients",
+        detail: `${missingIngredients.length} to buy${swapCount ? `, ${swapCount} swappable` : ""}`,
+        contribution: -missingIngredients.length,
+      },
+      { ...coverage, detail: `${coverage.detail} (tie-breaker)`, contribution: score * 0.5 }
+    );
+  } else if (mode === "servings") {
+    const servings = recommendation.servingsPossible ?? recommendation.recipe.baseServings;
+    factors.push(
+      {
+        label: "Servings on hand",
+        detail:
+          recommendation.servingsPossible === null
+            ? `Quantities unknown, assuming ${servings}`
+            : `${servings} from current quantities`,
+        contribution: servings,
+      },
+      { ...coverage, detail: `${coverage.detail} (tie-breaker)`, contribution: score * 0.5 }
+    );
+  } else {
+    factors.push(...scoreBreakdown.parts);
+    if (swapCount) {
+      factors.push({
+        label: "Swaps available",
+        detail: `${swapCount} missing ingredient${swapCount > 1 ? "s" : ""} can be substituted`,
+        contribution: 0,
+      });
+    }
+  }
+
+  factors.push(...scoreBreakdown.adjustments);
+
+  return {
+    mode,
+    key: factors.reduce((total, factor) => total + factor.contribution, 0),
+    factors,
+  };
+};
+
+// Flagged recipes always sit below ones that fit the dietary profile.
+const compareRecommendations = (a: Recommendation, b: Recommendation) =>
+  Number(a.dietaryConflicts.length > 0) - Number(b.dietaryConflicts.length > 0) ||
+  b.ranking.key - a.ranking.key ||
+  b.score - a.score ||
+  Number(b.cookableWithSwaps) - Number(a.cookableWithSwaps) ||
+  a.missingIngredients.length - b.missingIngredients.length;
+
+export const scoreRecipes = (
+  recipes: Recipe[],
+  pantry: PantryItem[],
+  options: ScoreOptions = {}
+): Recommendation[] => {
+  if (!pantry.length) return [];
+  const now = options.now ?? new Date();
+  const rankBy = options.rankBy ?? "match";
+  const weights = options.weights ?? DEFAULT_SCORE_WEIGHTS;
+  const pantryByName = new Map(pantry.map((item) => [canonicalizeIngredient(item.name), item]));
+  const pantryNames = [...pantryByName.keys()];
+
+  return recipes
+    .flatMap((recipe) => {
+      const conflicts = options.dietary ? dietaryConflicts(recipe, options.dietary) : [];
+      if (conflicts.length && options.dietary?.onConflict === "exclude") return [];
+      const servings = options.servings?.[recipe.id] ?? recipe.baseServings;
+      const nutrition = recipeNutrition(recipe, servings);
+      const nutritionGoals = evaluateNutritionGoals(
+        nutrition.perServing,
+        options.nutrition?.goals ?? []
+      );
+      if (options.nutrition?.mode === "filter" && nutritionGoals.some((goal) => !goal.met)) {
+        return [];
+      }
+      return [{ recipe, conflicts, servings, nutrition, nutritionGoals }];
+    })
+    .map(({ recipe, conflicts, servings, nutrition, nutritionGoals }) => {
+      const multiplier = servings / recipe.baseServings;
+      const matchedIngredients: string[] = [];
+      const missingIngredients: string[] = [];
+      const coverage: Record<string, IngredientCoverage> = {};
+      const matches: Record<string, IngredientMatch> = {};
+      const swaps: Record<string, ProposedSwap> = {};
+      const expiringMatches: ExpiringMatch[] = [];
+      let servingsPossible: number | null = null;
+
+      recipe.ingredients.forEach((ingredient) => {
+        const match = findBestMatch(ingredient.name, pantryNames);
+        const item = match ? pantryByName.get(match.name) : undefined;
+        const required = ingredient.quantity * multiplier;
+        if (!match || !item) {
+          missingIngredients.push(ingredient.name);
+          coverage[ingredient.name] = { required, shortfall: required, fraction: 0 };
+          servingsPossible = 0;
+          const swap = proposeSwap(ingredient, required, pantry);
+          if (swap) swaps[ingredient.name] = swap;
+          return;
+        }
+        matchedIngredients.push(ingredient.name);
+        matches[ingredient.name] = match;
+        expiringMatches.push({ name: item.name, ...estimateDaysLeft(item, now) });
+        const available =
+          pantryQuantityIn(item, ingredient.unit, ingredient.name) ??
+          pantryQuantityIn(item, ingredient.unit, item.name);
+        coverage[ingredient.name] = measureCoverage(required, available);
+        if (available !== undefined && ingredient.quantity > 0) {
+          const perServing = ingredient.quantity / recipe.baseServings;
+          const possible = Math.floor(available / perServing);
+          servingsPossible = servingsPossible === null ? possible : Math.min(servingsPossible, possible);
+        }
+      });
+
+      const coveredFraction =
+        Object.values(coverage).reduce((total, entry) => total + entry.fraction, 0) /
+        recipe.ingredients.length;
+      const { parts, staples, score } = breakDownScore(
+        recipe,
+        coverage,
+        matches,
+        swaps,
+        weights
+      );
+      const cookableWithSwaps =
+        missingIngredients.length > 0 &&
+        missingIngredients.every((name) => swaps[name]) &&
+        matchedIngredients.every((name) => coverage[name].shortfall === 0);
+      expiringMatches.sort((a, b) => a.daysLeft - b.daysLeft);
+      const wasteRescue = expiringMatches.reduce(
+        (total, entry) => total + urgency(entry.daysLeft),
+        0
+      );
+
+      const adjustments: RankingFactor[] = [];
+      const nutritionFactor =
+        options.nutrition?.mode === "boost" ? nutritionGoalFactor(nutritionGoals) : null;
+      if (nutritionFactor && weights.nutrition > 0) {
+        adjustments.push({
+          ...nutritionFactor,
+          contribution: nutritionFactor.contribution * weights.nutrition,
+        });
+      }
+      const favourite = (options.favouriteCuisines ?? []).some(
+        (cuisine) => cuisine.toLowerCase() === recipe.cuisine.toLowerCase()
+      );
+      if (favourite && weights.favourites > 0) {
+        adjustments.push({
+          label: "Favourite cuisine",
+          detail: `${recipe.cuisine} is a favourite at the table`,
+          contribution: weights.favourites,
+        });
+      }
+      const disliked = ingredientsListedIn(recipe, options.dislikedIngredients ?? []);
+      if (disliked.length && weights.dislikes > 0) {
+        adjustments.push({
+          label: "Disliked ingredients",
+          detail: disliked.join(", "),
+          contribution: -weights.dislikes * disliked.length,
+        });
+      }
+      const cookedPenalty =
+        recentlyCookedPenalty(recipe.id, options.history ?? [], now) * weights.recentlyCooked;
+      if (cookedPenalty > 0) {
+        adjustments.push({
+          label: "Recently cooked",
+          detail: "Gives other dishes a turn for a few days",
+          contribution: -cookedPenalty,
+        });
+      }
+
+      const scored: ScoredRecipe = {
+        recipe,
+        score,
+        scoreBreakdown: {
+          parts,
+          staples,
+          adjustments,
+          total: adjustments.reduce((total, factor) => total + factor.contribution, score),
+          weights,
+        },
+        servings,
+        matchedIngredients,
+        missingIngredients,
+        coverage,
+        matches,
+        swaps,
+        cookableWithSwaps,
+        coveredFraction,
+        servingsPossible,
+        expiringMatches,
+        wasteRescue,
+        dietaryConflicts: conflicts,
+        nutrition,
+        nutritionGoals,
+      };
+      return { ...scored, ranking: rankRecommendation(scored, rankBy) };
+    })
+    .filter((recommendation) => recommendation.matchedIngredients.length > 0)
+    .sort(compareRecommendations);
+};
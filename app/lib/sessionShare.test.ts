@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EMPTY_DIETARY_PROFILE } from "@/lib/dietary";
+import {
+  SharedSession,
+  decodeShareLink,
+  encodeShareLink,
+  exportSession,
+  parseSessionBundle,
+} from "@/lib/sessionShare";
+
+const SESSION: SharedSession = {
+  pantry: [
+    { name: "rice", quantity: 0, unit: "g" },
+    { name: "egg", quantity: 6, expiresOn: "2024-05-31", location: "fridge" },
+    { name: "salt" },
+  ],
+  recipes: [{ id: "shakshuka", servings: 2 }],
+  dietary: { ...EMPTY_DIETARY_PROFILE, restrictions: ["vegetarian"] },
+};
+
+describe("session sharing", () => {
+  it("round-trips an export file, including items used up to zero", () => {
+    assert.deepEqual(parseSessionBundle(exportSession(SESSION)), SESSION);
+  });
+
+  it("round-trips a share link, including items used up to zero", () => {
+    const url = new URL(encodeShareLink(SESSION, "https://example.com/"));
+    assert.deepEqual(decodeShareLink(url.hash), SESSION);
+  });
+
+  it("rejects a negative quantity", () => {
+    const session = { ...SESSION, pantry: [{ name: "rice", quantity: -1 }] };
+    assert.throws(() => parseSessionBundle(exportSession(session)), /can't be negative/);
+  });
+});
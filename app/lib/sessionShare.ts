@@ -0,0 +1,277 @@
+import { DIETARY_RESTRICTIONS, DietaryProfile, DietaryRestriction } from "@/lib/dietary";
+import { STORAGE_LOCATIONS, StorageLocation, stampPantryItem } from "@/lib/pantry";
+import { PantryItem, mergePantryItems } from "@/lib/recommendations";
+
+export type SelectedRecipe = {
+  id: string;
+  servings: number;
+};
+
+// Everything needed to rebuild a kitchen on another device: the pantry, the
+// recipes picked for the shopping list and who is eating.
+export type SharedSession = {
+  pantry: PantryItem[];
+  recipes: SelectedRecipe[];
+  dietary: DietaryProfile;
+};
+
+const BUNDLE_FORMAT = "recipe-recommender/session";
+const BUNDLE_VERSION = 1;
+
+export type SessionBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: SharedSession;
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validatePantryItem = (value: unknown, index: number): PantryItem => {
+  const where = `Pantry item ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object.`);
+  const { name, quantity, unit, addedOn, expiresOn, location } = value;
+  if (typeof name !== "string" || !name.trim()) throw new Error(`${where} has no name.`);
+  const label = `${where} (${name})`;
+  // The pantry editor lets a quantity go down to 0, so a snapshot can carry it too.
+  if (quantity !== undefined && (typeof quantity !== "number" || !(quantity >= 0))) {
+    throw new Error(`${label}: quantity can't be negative.`);
+  }
+  if (unit !== undefined && typeof unit !== "string") {
+    throw new Error(`${label}: unit must be text.`);
+  }
+  [addedOn, expiresOn].forEach((date) => {
+    if (date !== undefined && (typeof date !== "string" || !DATE.test(date))) {
+      throw new Error(`${label}: dates must look like 2024-05-31.`);
+    }
+  });
+  if (location !== undefined && !STORAGE_LOCATIONS.includes(location as StorageLocation)) {
+    throw new Error(`${label}: location must be one of ${STORAGE_LOCATIONS.join(", ")}.`);
+  }
+  return {
+    name: name.trim(),
+    ...(quantity !== undefined ? { quantity } : {}),
+    ...(unit ? { unit } : {}),
+    ...(addedOn ? { addedOn: addedOn as string } : {}),
+    ...(expiresOn ? { expiresOn: expiresOn as string } : {}),
+    ...(location ? { location: location as StorageLocation } : {}),
+  };
+};
+
+const validateSelectedRecipe = (value: unknown, index: number): SelectedRecipe => {
+  const where = `Recipe ${index + 1}`;
+  if (!isRecord(value) || typeof value.id !== "string" || !value.id) {
+    throw new Error(`${where} has no id.`);
+  }
+  if (
+    typeof value.servings !== "number" ||
+    !Number.isInteger(value.servings) ||
+    value.servings < 1
+  ) {
+    throw new Error(`${where} (${value.id}): servings must be a whole number of at least 1.`);
+  }
+  return { id: value.id, servings: value.servings };
+};
+
+const validateDietary = (value: unknown): DietaryProfile => {
+  if (!isRecord(value)) throw new Error("The dietary profile is missing.");
+  const { restrictions, excludedIngredients, onConflict } = value;
+  if (!Array.isArray(restrictions) || !Array.isArray(excludedIngredients)) {
+    throw new Error("The dietary profile needs restrictions and excluded ingredients lists.");
+  }
+  const unknown = restrictions.find(
+    (restriction) => !DIETARY_RESTRICTIONS.some((entry) => entry.id === restriction)
+  );
+  if (unknown !== undefined) throw new Error(`Unknown dietary restriction "${String(unknown)}".`);
+  if (excludedIngredients.some((name) => typeof name !== "string")) {
+    throw new Error("Excluded ingredients must be text.");
+  }
+  if (onConflict !== "exclude" && onConflict !== "flag") {
+    throw new Error('The dietary profile must either "exclude" or "flag" conflicts.');
+  }
+  return {
+    restrictions: restrictions as DietaryRestriction[],
+    excludedIngredients: excludedIngredients as string[],
+    onConflict,
+  };
+};
+
+// Checks a session from any source, throwing on the first problem with where it is.
+export const validateSession = (value: unknown): SharedSession => {
+  if (!isRecord(value)) throw new Error("The snapshot is empty.");
+  if (!Array.isArray(value.pantry)) throw new Error("The snapshot has no pantry list.");
+  if (!Array.isArray(value.recipes)) throw new Error("The snapshot has no recipe list.");
+  return {
+    pantry: value.pantry.map(validatePantryItem),
+    recipes: value.recipes.map(validateSelectedRecipe),
+    dietary: validateDietary(value.dietary),
+  };
+};
+
+export const exportSession = (session: SharedSession, now = new Date()) =>
+  JSON.stringify(
+    {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: now.toISOString(),
+      session,
+    } satisfies SessionBundle,
+    null,
+    2
+  );
+
+export const parseSessionBundle = (text: string): SharedSession => {
+  let bundle: Partial<SessionBundle>;
+  try {
+    bundle = JSON.parse(text) as Partial<SessionBundle>;
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    throw new Error("The file is not a pantry and plan export.");
+  }
+  if ((bundle.version ?? 0) > BUNDLE_VERSION) {
+    throw new Error("The snapshot was exported by a newer version of the app.");
+  }
+  return validateSession(bundle.session);
+};
+
+// Share links carry positional arrays instead of keyed objects to stay short:
+// [version, [[name, quantity, unit, expiresOn, location]], [[id, servings]],
+//  [restrictions, excluded, onConflict]]
+type PackedItem = [string, number?, string?, string?, string?];
+type PackedSession = [
+  number,
+  PackedItem[],
+  [string, number][],
+  [string[], string[], DietaryProfile["onConflict"]],
+];
+
+export const SHARE_HASH_KEY = "session";
+
+const toBase64Url = (text: string) =>
+  btoa(Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+const packItem = (item: PantryItem): PackedItem => {
+  const packed: PackedItem = [item.name, item.quantity, item.unit, item.expiresOn, item.location];
+  while (packed.length > 1 && packed[packed.length - 1] === undefined) packed.pop();
+  return packed;
+};
+
+// Added dates stay behind: the recipient's pantry stamps items with the day they arrive.
+export const encodeShareLink = (session: SharedSession, baseUrl: string) => {
+  const packed: PackedSession = [
+    BUNDLE_VERSION,
+    session.pantry.map(packItem),
+    session.recipes.map((recipe) => [recipe.id, recipe.servings]),
+    [session.dietary.restrictions, session.dietary.excludedIngredients, session.dietary.onConflict],
+  ];
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_HASH_KEY}=${toBase64Url(JSON.stringify(packed))}`;
+  return url.toString();
+};
+
+// Returns null when the hash holds no shared session; throws when it holds a broken one.
+export const decodeShareLink = (hash: string): SharedSession | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_HASH_KEY);
+  if (!encoded) return null;
+  let packed: unknown;
+  try {
+    packed = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error("The share link is damaged. Ask for a fresh link.");
+  }
+  if (!Array.isArray(packed) || packed.length !== 4) {
+    throw new Error("The share link is damaged. Ask for a fresh link.");
+  }
+  const [version, items, recipes, dietary] = packed as PackedSession;
+  if (version > BUNDLE_VERSION) {
+    throw new Error("The link was shared from a newer version of the app.");
+  }
+  if (!Array.isArray(items) || !Array.isArray(recipes) || !Array.isArray(dietary)) {
+    throw new Error("The share link is damaged. Ask for a fresh link.");
+  }
+  return validateSession({
+    pantry: items.map((item) =>
+      Array.isArray(item)
+        ? {
+            name: item[0],
+            quantity: item[1] ?? undefined,
+            unit: item[2] ?? undefined,
+            expiresOn: item[3] ?? undefined,
+            location: item[4] ?? undefined,
+          }
+        : item
+    ),
+    recipes: recipes.map((recipe) =>
+      Array.isArray(recipe) ? { id: recipe[0], servings: recipe[1] } : recipe
+    ),
+    dietary: {
+      restrictions: dietary[0],
+      excludedIngredients: dietary[1],
+      onConflict: dietary[2],
+    },
+  });
+};
+
+export type SessionImportMode = "merge" | "replace";
+
+export type SessionImport = {
+  session: SharedSession;
+  // Recipe ids in the snapshot that this device doesn't have, such as someone else's own recipes.
+  unknownRecipes: string[];
+};
+
+// Both modes run the pantry through `mergePantryItems`, so duplicates inside the
+// snapshot collapse the same way they do when the user adds items by hand.
+export const applySharedSession = (
+  current: SharedSession,
+  incoming: SharedSession,
+  mode: SessionImportMode,
+  knownRecipeIds: string[],
+  now = new Date()
+): SessionImport => {
+  const arriving = incoming.pantry.map((item) => stampPantryItem(item, now));
+  const known = incoming.recipes.filter((recipe) => knownRecipeIds.includes(recipe.id));
+  const unknownRecipes = incoming.recipes
+    .filter((recipe) => !knownRecipeIds.includes(recipe.id))
+    .map((recipe) => recipe.id);
+
+  if (mode === "replace") {
+    return {
+      session: { pantry: mergePantryItems(arriving), recipes: known, dietary: incoming.dietary },
+      unknownRecipes,
+    };
+  }
+  const incomingIds = known.map((recipe) => recipe.id);
+  return {
+    session: {
+      pantry: mergePantryItems([...current.pantry, ...arriving]),
+      recipes: [...current.recipes.filter((recipe) => !incomingIds.includes(recipe.id)), ...known],
+      dietary: {
+        restrictions: [
+          ...new Set([...current.dietary.restrictions, ...incoming.dietary.restrictions]),
+        ],
+        excludedIngredients: [
+          ...new Set([
+            ...current.dietary.excludedIngredients,
+            ...incoming.dietary.excludedIngredients,
+          ]),
+        ],
+        onConflict: current.dietary.onConflict,
+      },
+    },
+    unknownRecipes,
+  };
+};
@@ -0,0 +1,39 @@
+import { EMPTY_NUTRITION_TARGETS, NutritionTargets } from "@/lib/nutrition";
+import { DEFAULT_SCORE_WEIGHTS, ScoreWeights } from "@/lib/recommendations";
+import { Migrations, loadVersioned, saveVersioned } from "@/lib/storage";
+import { DEFAULT_VISION_PROVIDER } from "@/lib/vision";
+
+export type AppSettings = {
+  visionProvider: string;
+  nutritionTargets: NutritionTargets;
+  scoreWeights: ScoreWeights;
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  visionProvider: DEFAULT_VISION_PROVIDER,
+  nutritionTargets: EMPTY_NUTRITION_TARGETS,
+  scoreWeights: DEFAULT_SCORE_WEIGHTS,
+};
+
+const SETTINGS_KEY = "settings";
+const SETTINGS_SCHEMA_VERSION = 1;
+const migrations: Migrations = {};
+
+// Settings added after a user first saved fall back to their defaults.
+export const loadSettings = async () => {
+  const stored = await loadVersioned<Partial<AppSettings>>(
+    SETTINGS_KEY,
+    SETTINGS_SCHEMA_VERSION,
+    migrations
+  );
+  return stored
+    ? {
+        ...DEFAULT_SETTINGS,
+        ...stored,
+        scoreWeights: { ...DEFAULT_SCORE_WEIGHTS, ...stored.scoreWeights },
+      }
+    : undefined;
+};
+
+export const saveSettings = (settings: AppSettings) =>
+  saveVersioned(SETTINGS_KEY, SETTINGS_SCHEMA_VERSION, settings);
@@ -0,0 +1,126 @@
+import { AISLE_ORDER, Aisle, INGREDIENT_AISLES } from "@/data/aisles";
+import type { Recipe } from "@/data/recipes";
+import { canonicalizeIngredient, findBestMatch, ingredientAncestors } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+import { convertQuantity, formatAmount, getUnit } from "@/lib/units";
+
+export type ShoppingSelection = {
+  recipe: Recipe;
+  servings: number;
+};
+
+export type ShoppingListLine = {
+  name: string;
+  quantity: number;
+  unit: string;
+  aisle: Aisle;
+  recipes: string[];
+};
+
+export type ShoppingListFormat = "text" | "markdown" | "csv";
+
+// Pantry items only offset a line when we are confident they are the same ingredient.
+const MIN_PANTRY_CONFIDENCE = 0.85;
+
+export const aisleFor = (ingredient: string): Aisle => {
+  const name = canonicalizeIngredient(ingredient);
+  const aisle = [name, ...ingredientAncestors(name)]
+    .map((candidate) => INGREDIENT_AISLES[candidate])
+    .find(Boolean);
+  return aisle ?? "Other";
+};
+
+const combineRequirements = (selections: ShoppingSelection[]): ShoppingListLine[] => {
+  const lines: ShoppingListLine[] = [];
+
+  selections.forEach(({ recipe, servings }) => {
+    const multiplier = servings / recipe.baseServings;
+    recipe.ingredients.forEach((ingredient) => {
+      const name = canonicalizeIngredient(ingredient.name);
+      const unit = getUnit(ingredient.unit).id;
+      const quantity = ingredient.quantity * multiplier;
+      const line = lines.find(
+        (candidate) =>
+          candidate.name === name && convertQuantity(1, unit, candidate.unit, name) !== null
+      );
+      if (!line) {
+        lines.push({ name, quantity, unit, aisle: aisleFor(name), recipes: [recipe.name] });
+        return;
+      }
+      line.quantity += convertQuantity(quantity, unit, line.unit, name) ?? 0;
+      if (!line.recipes.includes(recipe.name)) line.recipes.push(recipe.name);
+    });
+  });
+
+  return lines;
+};
+
+const subtractPantry = (lines: ShoppingListLine[], pantry: PantryItem[]) => {
+  const remaining = new Map(pantry.map((item) => [item.name, item.quantity]));
+  const pantryByName = new Map(pantry.map((item) => [item.name, item]));
+
+  return lines.flatMap((line) => {
+    const match = findBestMatch(line.name, [...remaining.keys()]);
+    if (!match || match.confidence < MIN_PANTRY_CONFIDENCE) return [line];
+    const item = pantryByName.get(match.name)!;
+    const available = remaining.get(match.name);
+    // Untracked quantities are treated as "enough on hand".
+    if (available === undefined) return [];
+    const availableInLineUnit = convertQuantity(available, item.unit, line.unit, line.name);
+    if (availableInLineUnit === null) return [line];
+
+    const used = Math.min(availableInLineUnit, line.quantity);
+    remaining.set(
+      match.name,
+      available - (convertQuantity(used, line.unit, item.unit, line.name) ?? 0)
+    );
+    const quantity = line.quantity - used;
+    return quantity > 1e-6 ? [{ ...line, quantity }] : [];
+  });
+};
+
+const roundForShopping = (line: ShoppingListLine): ShoppingListLine =>
+  getUnit(line.unit).dimension === "count"
+    ? { ...line, quantity: Math.ceil(line.quantity - 1e-6) }
+    : line;
+
+export const buildShoppingList = (
+  selections: ShoppingSelection[],
+  pantry: PantryItem[]
+): ShoppingListLine[] =>
+  subtractPantry(combineRequirements(selections), pantry)
+    .map(roundForShopping)
+    .sort(
+      (a, b) =>
+        AISLE_ORDER.indexOf(a.aisle) - AISLE_ORDER.indexOf(b.aisle) || a.name.localeCompare(b.name)
+    );
+
+export const groupByAisle = (lines: ShoppingListLine[]) =>
+  AISLE_ORDER.map((aisle) => ({
+    aisle,
+    lines: lines.filter((line) => line.aisle === aisle),
+  })).filter((group) => group.lines.length > 0);
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const formatShoppingList = (lines: ShoppingListLine[], format: ShoppingListFormat) => {
+  if (format === "csv") {
+    const rows = lines.map((line) =>
+      [line.aisle, line.name, formatAmount(line.quantity, line.unit), line.recipes.join("; ")]
+        .map(escapeCsv)
+        .join(",")
+    );
+    return ["Aisle,Item,Amount,Recipes", ...rows].join("\n");
+  }
+
+  return groupByAisle(lines)
+    .map(({ aisle, lines: group }) => {
+      const heading = format === "markdown" ? `## ${aisle}` : aisle.toUpperCase();
+      const bullet = format === "markdown" ? "- [ ]" : "-";
+      const items = group.map(
+        (line) => `${bullet} ${formatAmount(line.quantity, line.unit)} ${line.name}`
+      );
+      return [heading, ...items].join("\n");
+    })
+    .join("\n\n");
+};
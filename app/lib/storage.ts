@@ -0,0 +1,140 @@
+export type KeyValueStore = {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+};
+
+export type VersionedRecord<T> = {
+  version: number;
+  data: T;
+};
+
+// Each migration upgrades data saved at `version` to `version + 1`.
+export type Migrations = Record<number, (data: unknown) => unknown>;
+
+const DATABASE_NAME = "recipe-recommender";
+const STORE_NAME = "records";
+const LOCAL_STORAGE_PREFIX = "recipe-recommender:";
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStore = (): KeyValueStore => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  const openDatabase = () => {
+    if (!databasePromise) {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      databasePromise = requestToPromise(request);
+    }
+    return databasePromise;
+  };
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const database = await openDatabase();
+    return requestToPromise(operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    get: async <T>(key: string) => (await withStore("readonly", (store) => store.get(key))) as T | undefined,
+    set: async (key, value) => {
+      await withStore("readwrite", (store) => store.put(value, key));
+    },
+    remove: async (key) => {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+  };
+};
+
+const createLocalStorageStore = (): KeyValueStore => ({
+  get: async <T>(key: string) => {
+    const raw = window.localStorage.getItem(`${LOCAL_STORAGE_PREFIX}${key}`);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  },
+  set: async (key, value) => {
+    window.localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${key}`, JSON.stringify(value));
+  },
+  remove: async (key) => {
+    window.localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}${key}`);
+  },
+});
+
+const createMemoryStore = (): KeyValueStore => {
+  const records = new Map<string, unknown>();
+  return {
+    get: async <T>(key: string) => records.get(key) as T | undefined,
+    set: async (key, value) => {
+      records.set(key, value);
+    },
+    remove: async (key) => {
+      records.delete(key);
+    },
+  };
+};
+
+const hasLocalStorage = () => {
+  try {
+    return typeof window !== "undefined" && Boolean(window.localStorage);
+  } catch {
+    return false;
+  }
+};
+
+// Falls back to localStorage (and finally memory) when IndexedDB is unavailable,
+// e.g. in private browsing modes that block it.
+const createResilientStore = (): KeyValueStore => {
+  const fallback = hasLocalStorage() ? createLocalStorageStore() : createMemoryStore();
+  if (typeof indexedDB === "undefined") return fallback;
+  const primary = createIndexedDbStore();
+  let active: KeyValueStore | null = null;
+  const resolveStore = async () => {
+    if (active) return active;
+    try {
+      await primary.get("__probe__");
+      active = primary;
+    } catch {
+      active = fallback;
+    }
+    return active;
+  };
+
+  return {
+    get: async (key) => (await resolveStore()).get(key),
+    set: async (key, value) => (await resolveStore()).set(key, value),
+    remove: async (key) => (await resolveStore()).remove(key),
+  };
+};
+
+let store: KeyValueStore | null = null;
+
+export const getStore = () => {
+  if (!store) store = createResilientStore();
+  return store;
+};
+
+export const loadVersioned = async <T>(
+  key: string,
+  currentVersion: number,
+  migrations: Migrations
+): Promise<T | undefined> => {
+  const record = await getStore().get<VersionedRecord<unknown>>(key);
+  if (!record) return undefined;
+  if (record.version > currentVersion) {
+    throw new Error(`Saved ${key} data is from a newer version of the app.`);
+  }
+  let { data } = record;
+  for (let version = record.version; version < currentVersion; version += 1) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration for ${key} from version ${version}.`);
+    data = migrate(data);
+  }
+  return data as T;
+};
+
+export const saveVersioned = <T>(key: string, version: number, data: T) =>
+  getStore().set<VersionedRecord<T>>(key, { version, data });
@@ -0,0 +1,70 @@
+import type { RecipeIngredient } from "@/data/recipes";
+import { SUBSTITUTIONS, Substitution } from "@/data/substitutions";
+import { canonicalizeIngredient, findBestMatch } from "@/lib/ingredients";
+import type { PantryItem } from "@/lib/recommendations";
+import { convertQuantity } from "@/lib/units";
+
+export type ProposedSwap = {
+  original: string;
+  notes: string;
+  replacements: {
+    name: string;
+    pantryName: string;
+    quantity: number;
+    unit: string;
+  }[];
+};
+
+// Swaps change the dish, so a swapped ingredient never counts as fully covered.
+export const SWAP_CONFIDENCE = 0.8;
+
+// Only confident pantry matches may stand in for a replacement.
+const MIN_REPLACEMENT_CONFIDENCE = 0.85;
+
+const SUBSTITUTIONS_BY_INGREDIENT = SUBSTITUTIONS.reduce((index, substitution) => {
+  const key = canonicalizeIngredient(substitution.ingredient);
+  index.set(key, [...(index.get(key) ?? []), substitution]);
+  return index;
+}, new Map<string, Substitution[]>());
+
+export const substitutionsFor = (ingredient: string): Substitution[] =>
+  SUBSTITUTIONS_BY_INGREDIENT.get(canonicalizeIngredient(ingredient)) ?? [];
+
+const scaleSubstitution = (
+  substitution: Substitution,
+  ingredient: RecipeIngredient,
+  required: number,
+  pantry: PantryItem[]
+): ProposedSwap | null => {
+  const amount = convertQuantity(required, ingredient.unit, substitution.per.unit, ingredient.name);
+  if (amount === null) return null;
+  const factor = amount / substitution.per.quantity;
+  const pantryNames = pantry.map((item) => item.name);
+
+  const replacements: ProposedSwap["replacements"] = [];
+  for (const part of substitution.replacements) {
+    const match = findBestMatch(part.name, pantryNames);
+    if (!match || match.confidence < MIN_REPLACEMENT_CONFIDENCE) return null;
+    const item = pantry.find((entry) => entry.name === match.name);
+    const quantity = part.quantity * factor;
+    if (item?.quantity !== undefined) {
+      const available = convertQuantity(item.quantity, item.unit, part.unit, part.name);
+      if (available !== null && available < quantity) return null;
+    }
+    replacements.push({ name: part.name, pantryName: match.name, quantity, unit: part.unit });
+  }
+
+  return { original: ingredient.name, notes: substitution.notes, replacements };
+};
+
+export const proposeSwap = (
+  ingredient: RecipeIngredient,
+  required: number,
+  pantry: PantryItem[]
+): ProposedSwap | null => {
+  for (const substitution of substitutionsFor(ingredient.name)) {
+    const swap = scaleSubstitution(substitution, ingredient, required, pantry);
+    if (swap) return swap;
+  }
+  return null;
+};
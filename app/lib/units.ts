@@ -0,0 +1,160 @@
+import { INGREDIENT_DENSITIES, INGREDIENT_UNIT_WEIGHTS } from "@/data/conversions";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+
+export type UnitDimension = "volume" | "mass" | "count";
+
+export type UnitDefinition = {
+  id: string;
+  dimension: UnitDimension;
+  // Units sharing a base convert directly: ml for volume, g for mass, and the
+  // counted thing itself (piece, clove, can…) for counts.
+  base: string;
+  factor: number;
+  singular: string;
+  plural: string;
+  aliases: string[];
+};
+
+export const DEFAULT_UNIT = "piece";
+
+const UNITS: UnitDefinition[] = [
+  { id: "ml", dimension: "volume", base: "ml", factor: 1, singular: "ml", plural: "ml", aliases: ["milliliter", "milliliters", "millilitre", "millilitres", "mls"] },
+  { id: "l", dimension: "volume", base: "ml", factor: 1000, singular: "l", plural: "l", aliases: ["liter", "liters", "litre", "litres", "ltr"] },
+  { id: "tsp", dimension: "volume", base: "ml", factor: 4.93, singular: "tsp", plural: "tsp", aliases: ["teaspoon", "teaspoons", "tsps", "t"] },
+  { id: "tbsp", dimension: "volume", base: "ml", factor: 14.79, singular: "tbsp", plural: "tbsp", aliases: ["tablespoon", "tablespoons", "tbsps", "tbs", "tbl", "T"] },
+  { id: "cup", dimension: "volume", base: "ml", factor: 236.59, singular: "cup", plural: "cups", aliases: ["cups", "c"] },
+  { id: "floz", dimension: "volume", base: "ml", factor: 29.57, singular: "fl oz", plural: "fl oz", aliases: ["fl oz", "fl. oz", "fluid ounce", "fluid ounces"] },
+  { id: "pint", dimension: "volume", base: "ml", factor: 473.18, singular: "pint", plural: "pints", aliases: ["pints", "pt"] },
+  { id: "quart", dimension: "volume", base: "ml", factor: 946.35, singular: "quart", plural: "quarts", aliases: ["quarts", "qt"] },
+  { id: "pinch", dimension: "volume", base: "ml", factor: 0.31, singular: "pinch", plural: "pinches", aliases: ["pinches"] },
+  { id: "dash", dimension: "volume", base: "ml", factor: 0.62, singular: "dash", plural: "dashes", aliases: ["dashes"] },
+  { id: "mg", dimension: "mass", base: "g", factor: 0.001, singular: "mg", plural: "mg", aliases: ["milligram", "milligrams"] },
+  { id: "g", dimension: "mass", base: "g", factor: 1, singular: "g", plural: "g", aliases: ["gram", "grams", "gr", "grm"] },
+  { id: "kg", dimension: "mass", base: "g", factor: 1000, singular: "kg", plural: "kg", aliases: ["kilogram", "kilograms", "kilo", "kilos", "kgs"] },
+  { id: "oz", dimension: "mass", base: "g", factor: 28.35, singular: "oz", plural: "oz", aliases: ["ounce", "ounces"] },
+  { id: "lb", dimension: "mass", base: "g", factor: 453.59, singular: "lb", plural: "lb", aliases: ["lbs", "pound", "pounds"] },
+  { id: "piece", dimension: "count", base: "piece", factor: 1, singular: "pc", plural: "pcs", aliases: ["pieces", "pc", "pcs", "whole", "each", "ea"] },
+  { id: "dozen", dimension: "count", base: "piece", factor: 12, singular: "dozen", plural: "dozen", aliases: ["doz", "dz"] },
+  { id: "clove", dimension: "count", base: "clove", factor: 1, singular: "clove", plural: "cloves", aliases: ["cloves"] },
+  { id: "slice", dimension: "count", base: "slice", factor: 1, singular: "slice", plural: "slices", aliases: ["slices"] },
+  { id: "can", dimension: "count", base: "can", factor: 1, singular: "can", plural: "cans", aliases: ["cans", "tin", "tins"] },
+  { id: "bunch", dimension: "count", base: "bunch", factor: 1, singular: "bunch", plural: "bunches", aliases: ["bunches"] },
+  { id: "head", dimension: "count", base: "head", factor: 1, singular: "head", plural: "heads", aliases: ["heads"] },
+  { id: "stick", dimension: "count", base: "stick", factor: 1, singular: "stick", plural: "sticks", aliases: ["sticks"] },
+  { id: "sprig", dimension: "count", base: "sprig", factor: 1, singular: "sprig", plural: "sprigs", aliases: ["sprigs"] },
+  { id: "handful", dimension: "count", base: "handful", factor: 1, singular: "handful", plural: "handfuls", aliases: ["handfuls"] },
+];
+
+const UNITS_BY_ID = new Map(UNITS.map((unit) => [unit.id, unit]));
+
+// Case-sensitive aliases ("T" vs "t") are matched first, everything else is lower-cased.
+const UNITS_BY_ALIAS = new Map<string, UnitDefinition>();
+UNITS.forEach((unit) => {
+  [unit.id, unit.singular, unit.plural, ...unit.aliases].forEach((alias) => {
+    if (!UNITS_BY_ALIAS.has(alias)) UNITS_BY_ALIAS.set(alias, unit);
+  });
+});
+
+const MULTI_WORD_ALIASES = [...UNITS_BY_ALIAS.keys()]
+  .filter((alias) => alias.includes(" "))
+  .sort((a, b) => b.length - a.length);
+
+export const getUnit = (unit?: string): UnitDefinition =>
+  UNITS_BY_ID.get(normalizeUnit(unit) ?? DEFAULT_UNIT) ?? UNITS_BY_ID.get(DEFAULT_UNIT)!;
+
+export const parseUnit = (token: string): string | undefined => {
+  const cleaned = token.trim().replace(/\.$/, "");
+  if (!cleaned) return undefined;
+  return (UNITS_BY_ALIAS.get(cleaned) ?? UNITS_BY_ALIAS.get(cleaned.toLowerCase()))?.id;
+};
+
+export const normalizeUnit = (unit?: string): string | undefined =>
+  unit ? parseUnit(unit) : undefined;
+
+export const splitUnit = (text: string): { unit?: string; rest: string } => {
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+  const multiWord = MULTI_WORD_ALIASES.find((alias) => lower.startsWith(`${alias} `));
+  if (multiWord) {
+    return { unit: parseUnit(multiWord), rest: trimmed.slice(multiWord.length).trim() };
+  }
+  const [first, ...rest] = trimmed.split(/\s+/);
+  const unit = rest.length ? parseUnit(first) : undefined;
+  if (!unit) return { rest: trimmed };
+  return { unit, rest: rest.join(" ").replace(/^of\s+/i, "") };
+};
+
+const gramsPer = (unit: UnitDefinition, ingredient?: string): number | null => {
+  if (unit.dimension === "mass") return unit.factor;
+  if (!ingredient) return null;
+  const name = canonicalizeIngredient(ingredient);
+  if (unit.dimension === "volume") {
+    const density = INGREDIENT_DENSITIES[name];
+    return density ? unit.factor * density : null;
+  }
+  const weight = INGREDIENT_UNIT_WEIGHTS[name]?.[unit.base];
+  return weight ? unit.factor * weight : null;
+};
+
+export const areUnitsCompatible = (from?: string, to?: string, ingredient?: string) =>
+  convertQuantity(1, from, to, ingredient) !== null;
+
+export const convertQuantity = (
+  amount: number,
+  from: string | undefined,
+  to: string | undefined,
+  ingredient?: string
+): number | null => {
+  const source = getUnit(from);
+  const target = getUnit(to);
+  if (source.base === target.base) {
+    return (amount * source.factor) / target.factor;
+  }
+  const sourceGrams = gramsPer(source, ingredient);
+  const targetGrams = gramsPer(target, ingredient);
+  if (sourceGrams === null || targetGrams === null) return null;
+  return (amount * sourceGrams) / targetGrams;
+};
+
+const SIMPLIFY_LADDERS: Record<string, string[]> = {
+  ml: ["tsp", "tbsp", "cup"],
+  g: ["g", "kg"],
+};
+
+// Picks the largest unit on the same ladder that still reads as at least one,
+// so scaling "2 tbsp" by 8 shows "1 cup" rather than "16 tbsp".
+export const simplifyQuantity = (amount: number, unit?: string) => {
+  const definition = getUnit(unit);
+  const ladder = SIMPLIFY_LADDERS[definition.base];
+  if (!ladder?.includes(definition.id)) return { amount, unit: definition.id };
+  const best = [...ladder]
+    .reverse()
+    .find((candidate) => (convertQuantity(amount, definition.id, candidate) ?? 0) >= 1);
+  if (!best || ladder.indexOf(best) <= ladder.indexOf(definition.id)) {
+    return { amount, unit: definition.id };
+  }
+  return { amount: convertQuantity(amount, definition.id, best) ?? amount, unit: best };
+};
+
+export const formatUnit = (unit: string | undefined, amount: number) => {
+  const definition = getUnit(unit);
+  return amount > 1 || amount === 0 ? definition.plural : definition.singular;
+};
+
+export const formatQuantity = (quantity: number) => {
+  if (quantity < 1) {
+    return Number.parseFloat(quantity.toFixed(2));
+  }
+  if (Number.isInteger(quantity)) {
+    return quantity;
+  }
+  return Number.parseFloat(quantity.toFixed(1));
+};
+
+export const formatAmount = (quantity: number, unit?: string) => {
+  const simplified = simplifyQuantity(quantity, unit);
+  const amount = formatQuantity(simplified.amount);
+  return `${amount} ${formatUnit(simplified.unit, amount)}`;
+};
+
+export const UNIT_OPTIONS = UNITS.map(({ id, plural }) => ({ id, label: plural }));
@@ -0,0 +1,256 @@
+import { RECIPES, Recipe } from "@/data/recipes";
+import { canonicalizeIngredient } from "@/lib/ingredients";
+import { slugifyRecipeName, uniqueRecipeId, validateRecipe } from "@/lib/recipeImport";
+import { Migrations, loadVersioned, saveVersioned } from "@/lib/storage";
+
+export type RecipeRevision = {
+  version: number;
+  savedAt: string;
+  recipe: Recipe;
+};
+
+// A recipe the user created, imported or forked. Edits keep the id, so cooking
+// history and servings stay attached, and push the previous version onto `revisions`.
+export type UserRecipe = Recipe & {
+  version: number;
+  updatedAt: string;
+  // The built-in or shared recipe this one was copied from.
+  forkedFrom?: string;
+  // Earlier versions, newest first.
+  revisions: RecipeRevision[];
+};
+
+const USER_RECIPES_KEY = "user-recipes";
+
+// v1: Recipe[]
+// v2: adds version, updatedAt and revisions to every recipe.
+const USER_RECIPES_SCHEMA_VERSION = 2;
+const REVISION_LIMIT = 20;
+
+const migrations: Migrations = {
+  1: (data) =>
+    (data as Recipe[]).map((recipe) => ({
+      ...recipe,
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      revisions: [],
+    })),
+};
+
+export const loadUserRecipes = () =>
+  loadVersioned<UserRecipe[]>(USER_RECIPES_KEY, USER_RECIPES_SCHEMA_VERSION, migrations);
+
+export const saveUserRecipes = (recipes: UserRecipe[]) =>
+  saveVersioned(USER_RECIPES_KEY, USER_RECIPES_SCHEMA_VERSION, recipes);
+
+const BUILT_IN_IDS = new Set(RECIPES.map((recipe) => recipe.id));
+
+export const isBuiltInRecipe = (recipeId: string) => BUILT_IN_IDS.has(recipeId);
+
+// The set recommendations, shopping lists and the planner search: built-ins first, then the user's.
+export const allRecipes = (userRecipes: Recipe[]): Recipe[] => [...RECIPES, ...userRecipes];
+
+// Strips the bookkeeping fields, leaving the plain `Recipe`.
+export const recipeContent = ({
+  id,
+  name,
+  cuisine,
+  description,
+  tags,
+  baseServings,
+  ingredients,
+  instructions,
+}: Recipe): Recipe => ({
+  id,
+  name,
+  cuisine,
+  description,
+  tags,
+  baseServings,
+  ingredients,
+  instructions,
+});
+
+const sameContent = (a: Recipe, b: Recipe) =>
+  JSON.stringify(recipeContent(a)) === JSON.stringify(recipeContent(b));
+
+export const createUserRecipe = (
+  recipe: Recipe,
+  forkedFrom?: string,
+  now = new Date()
+): UserRecipe => ({
+  ...recipeContent(recipe),
+  version: 1,
+  updatedAt: now.toISOString(),
+  ...(forkedFrom ? { forkedFrom } : {}),
+  revisions: [],
+});
+
+// Saves an edit as a new version; saving unchanged content leaves the recipe as it was.
+export const updateUserRecipe = (
+  existing: UserRecipe,
+  changes: Recipe,
+  now = new Date()
+): UserRecipe => {
+  const next = { ...recipeContent(changes), id: existing.id };
+  if (sameContent(existing, next)) return existing;
+  return {
+    ...existing,
+    ...next,
+    version: existing.version + 1,
+    updatedAt: now.toISOString(),
+    revisions: [
+      { version: existing.version, savedAt: existing.updatedAt, recipe: recipeContent(existing) },
+      ...existing.revisions,
+    ].slice(0, REVISION_LIMIT),
+  };
+};
+
+// Restoring an old version is itself an edit, so the version it replaces is kept too.
+export const restoreRevision = (existing: UserRecipe, version: number, now = new Date()) => {
+  const revision = existing.revisions.find((entry) => entry.version === version);
+  return revision ? updateUserRecipe(existing, revision.recipe, now) : existing;
+};
+
+// Copies a recipe (usually a read-only built-in) into the user's cookbook under a new id.
+export const forkRecipe = (recipe: Recipe, existingIds: Iterable<string>, now = new Date()) =>
+  createUserRecipe(
+    {
+      ...recipeContent(recipe),
+      id: uniqueRecipeId(`${recipe.id}-my-version`, existingIds),
+      name: `${recipe.name} (my version)`,
+    },
+    recipe.id,
+    now
+  );
+
+const nameKey = (name: string) => slugifyRecipeName(name);
+
+const ingredientKey = (recipe: Recipe) =>
+  [...new Set(recipe.ingredients.map((ingredient) => canonicalizeIngredient(ingredient.name)))]
+    .sort()
+    .join("|");
+
+export type RecipeDuplicate = {
+  recipe: Recipe;
+  reason: "name" | "ingredients";
+};
+
+// Another recipe with the same name, or failing that the exact same ingredient list.
+export const findDuplicateRecipe = (
+  candidate: Recipe,
+  recipes: Recipe[]
+): RecipeDuplicate | undefined => {
+  const others = recipes.filter((recipe) => recipe.id !== candidate.id);
+  const byName = others.find((recipe) => nameKey(recipe.name) === nameKey(candidate.name));
+  if (byName) return { recipe: byName, reason: "name" };
+  const key = ingredientKey(candidate);
+  const byIngredients = others.find((recipe) => ingredientKey(recipe) === key);
+  return byIngredients ? { recipe: byIngredients, reason: "ingredients" } : undefined;
+};
+
+const BUNDLE_FORMAT = "recipe-recommender/cookbook";
+const BUNDLE_VERSION = 1;
+
+export type CookbookBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  recipes: UserRecipe[];
+};
+
+export const exportCookbook = (recipes: UserRecipe[], now = new Date()) =>
+  JSON.stringify(
+    {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: now.toISOString(),
+      recipes,
+    } satisfies CookbookBundle,
+    null,
+    2
+  );
+
+// Earlier versions can be restored, so they have to be valid recipes too.
+const parseRevisions = (revisions: unknown, label: string): RecipeRevision[] => {
+  if (!Array.isArray(revisions)) return [];
+  return revisions.map((revision: Partial<RecipeRevision>) => {
+    if (!Number.isInteger(revision?.version) || !revision.recipe) {
+      throw new Error(`${label}: a saved version is missing its recipe.`);
+    }
+    const problems = validateRecipe(revision.recipe);
+    if (problems.length) {
+      throw new Error(`${label}, version ${revision.version}: ${problems[0]}`);
+    }
+    return {
+      version: Number(revision.version),
+      savedAt: revision.savedAt ?? new Date().toISOString(),
+      recipe: recipeContent(revision.recipe),
+    };
+  });
+};
+
+// Reads a bundle written by `exportCookbook`, throwing on the first recipe or saved version that
+// fails validation.
+export const parseCookbookBundle = (text: string): UserRecipe[] => {
+  let bundle: Partial<CookbookBundle>;
+  try {
+    bundle = JSON.parse(text) as Partial<CookbookBundle>;
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.recipes)) {
+    throw new Error("The file is not a cookbook export.");
+  }
+  if ((bundle.version ?? 0) > BUNDLE_VERSION) {
+    throw new Error("The cookbook was exported by a newer version of the app.");
+  }
+  return bundle.recipes.map((recipe, index) => {
+    const label = `Recipe ${index + 1} (${recipe.name || "unnamed"})`;
+    const problems = validateRecipe(recipe);
+    if (problems.length) throw new Error(`${label}: ${problems[0]}`);
+    return {
+      ...recipeContent(recipe),
+      version: Number.isInteger(recipe.version) && recipe.version > 0 ? recipe.version : 1,
+      updatedAt: recipe.updatedAt ?? new Date().toISOString(),
+      ...(recipe.forkedFrom ? { forkedFrom: recipe.forkedFrom } : {}),
+      revisions: parseRevisions(recipe.revisions, label),
+    };
+  });
+};
+
+export type CookbookMerge = {
+  recipes: UserRecipe[];
+  added: number;
+  updated: number;
+  unchanged: number;
+};
+
+// A shared recipe with an id the user already has is applied as an edit, so both sides'
+// versions survive; one clashing with a built-in id is added under a fresh id.
+export const mergeCookbook = (
+  current: UserRecipe[],
+  incoming: UserRecipe[],
+  now = new Date()
+): CookbookMerge => {
+  const merge: CookbookMerge = { recipes: [...current], added: 0, updated: 0, unchanged: 0 };
+  incoming.forEach((recipe) => {
+    const index = merge.recipes.findIndex((entry) => entry.id === recipe.id);
+    if (index >= 0) {
+      const updated = updateUserRecipe(merge.recipes[index], recipe, now);
+      if (updated === merge.recipes[index]) merge.unchanged += 1;
+      else merge.updated += 1;
+      merge.recipes[index] = updated;
+      return;
+    }
+    const id = isBuiltInRecipe(recipe.id)
+      ? uniqueRecipeId(
+          recipe.id,
+          allRecipes(merge.recipes).map((entry) => entry.id)
+        )
+      : recipe.id;
+    merge.recipes.push({ ...recipe, id });
+    merge.added += 1;
+  });
+  return merge;
+};
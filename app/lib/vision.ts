@@ -0,0 +1,62 @@
+import type { RawPrediction } from "@/lib/detections";
+import { COCO_LABEL_MAP, COCO_SSD_MODEL } from "@/lib/cocoSsd";
+import { GROCERY_LABELS, GROCERY_MODEL } from "@/lib/groceryVision";
+import type { ModelSpec } from "@/lib/modelCache";
+import { createWorkerProvider } from "@/lib/visionWorker";
+
+export type VisionInput = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | ImageData;
+
+export type DetectOptions = {
+  maxResults?: number;
+  minScore?: number;
+};
+
+// A detection backend. Predictions come back with `class` already mapped to a
+// canonical ingredient name; classifiers report a box covering the whole input.
+export type VisionProvider = {
+  id: string;
+  label: string;
+  description: string;
+  // Every ingredient the provider can report.
+  labels: string[];
+  // The files to cache for offline use; absent for providers that download nothing.
+  model?: ModelSpec;
+  load: () => Promise<void>;
+  detect: (input: VisionInput, options?: DetectOptions) => Promise<RawPrediction[]>;
+  // Frees model memory; the next load or detect call loads it again.
+  release: () => Promise<void>;
+};
+
+// The model side of a provider. It runs in the vision worker, off the main thread,
+// and sees images already downscaled to an ImageBitmap.
+export type VisionEngine = {
+  model: ModelSpec;
+  load: () => Promise<void>;
+  detect: (image: ImageBitmap, options?: DetectOptions) => Promise<RawPrediction[]>;
+  release: () => Promise<void>;
+};
+
+export const cocoSsdProvider = createWorkerProvider({
+  id: COCO_SSD_MODEL.id,
+  label: "COCO-SSD",
+  description:
+    "General object detector. Boxes each item but only knows a few fruit and vegetables.",
+  labels: [...new Set(Object.values(COCO_LABEL_MAP))].sort(),
+  model: COCO_SSD_MODEL,
+});
+
+export const groceryClassifierProvider = createWorkerProvider({
+  id: GROCERY_MODEL.id,
+  label: "Grocery classifier",
+  description:
+    "Local model trained on supermarket produce and dairy. Names one item per photo, without boxes.",
+  labels: GROCERY_LABELS,
+  model: GROCERY_MODEL,
+});
+
+export const VISION_PROVIDERS: VisionProvider[] = [cocoSsdProvider, groceryClassifierProvider];
+
+export const DEFAULT_VISION_PROVIDER = cocoSsdProvider.id;
+
+export const getVisionProvider = (id: string) =>
+  VISION_PROVIDERS.find((provider) => provider.id === id) ?? cocoSsdProvider;
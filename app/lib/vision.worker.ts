@@ -0,0 +1,135 @@
+import { cocoSsdEngine } from "@/lib/cocoSsd";
+import { groceryEngine } from "@/lib/groceryVision";
+import {
+  DownloadProgress,
+  ModelSpec,
+  fetchModelFile,
+  isModelFile,
+  pruneModelCaches,
+} from "@/lib/modelCache";
+import type { VisionEngine } from "@/lib/vision";
+import type { VisionWorkerRequest, VisionWorkerResponse } from "@/lib/visionWorker";
+
+// The app compiles against the DOM lib, which has no worker scope; this is the part used here.
+declare const self: {
+  location: Location;
+  postMessage: (message: VisionWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<VisionWorkerRequest>) => void) | null;
+};
+
+const ENGINES: Record<string, VisionEngine> = {
+  [cocoSsdEngine.model.id]: cocoSsdEngine,
+  [groceryEngine.model.id]: groceryEngine,
+};
+
+const post = (message: VisionWorkerResponse) => self.postMessage(message);
+
+// Download progress for the model currently being fetched, per file URL.
+type Download = { spec: ModelSpec; files: Map<string, DownloadProgress>; expectedFiles: number };
+let download: Download | null = null;
+
+const reportProgress = ({ spec, files, expectedFiles }: Download) => {
+  const progress = [...files.values()];
+  const done = progress.reduce(
+    (total, file) => total + (file.total ? Math.min(1, file.loaded / file.total) : 0),
+    0
+  );
+  post({
+    type: "progress",
+    provider: spec.id,
+    loaded: progress.reduce((total, file) => total + file.loaded, 0),
+    fraction: expectedFiles > 1 ? Math.min(1, done / expectedFiles) : null,
+  });
+};
+
+// model.json lists its weight shards, which tells us how many files the download has.
+const countModelFiles = async (response: Response) => {
+  try {
+    const manifest = (await response.clone().json()) as {
+      weightsManifest?: { paths?: string[] }[];
+    };
+    return 1 + (manifest.weightsManifest ?? []).flatMap((group) => group.paths ?? []).length;
+  } catch {
+    return 1;
+  }
+};
+
+const specFor = (url: string) =>
+  Object.values(ENGINES)
+    .map((engine) => engine.model)
+    .find((spec) => isModelFile(spec, new URL(url, self.location.origin).href));
+
+// TF.js fetches every model file through its platform, so swapping the platform's fetch
+// puts all of them, from any engine, behind the model cache.
+const installModelCache = async () => {
+  const tf = await import("@tensorflow/tfjs");
+  // Production mode also skips per-op debug checks, which only slow inference down.
+  tf.enableProdMode();
+  const platform = tf.env().platform;
+  tf.env().setPlatform("browser-cached", {
+    fetch: async (path, init) => {
+      const url = new URL(path, self.location.origin).href;
+      const spec = specFor(url);
+      if (!spec) return platform.fetch(path, init);
+      if (download?.spec.id !== spec.id) download = { spec, files: new Map(), expectedFiles: 1 };
+      const current = download;
+      const response = await fetchModelFile(spec, url, init, (progress) => {
+        current.files.set(url, progress);
+        reportProgress(current);
+      });
+      if (url.endsWith("model.json") && response.ok) {
+        current.expectedFiles = await countModelFiles(response);
+      }
+      return response;
+    },
+    now: () => platform.now(),
+    encode: (text, encoding) => platform.encode(text, encoding),
+    decode: (bytes, encoding) => platform.decode(bytes, encoding),
+    isTypedArray: (value): value is Float32Array | Int32Array | Uint8Array | Uint8ClampedArray =>
+      platform.isTypedArray(value),
+  });
+  await pruneModelCaches(Object.values(ENGINES).map((engine) => engine.model));
+};
+
+const ready = installModelCache();
+
+const handle = async (request: VisionWorkerRequest) => {
+  const engine = ENGINES[request.provider];
+  if (!engine) throw new Error(`Unknown detector "${request.provider}".`);
+  await ready;
+  switch (request.type) {
+    case "load":
+      await engine.load();
+      return undefined;
+    case "detect":
+      try {
+        return await engine.detect(request.image, request.options);
+      } finally {
+        request.image.close();
+      }
+    case "release":
+      await engine.release();
+      return undefined;
+  }
+};
+
+// Requests run one at a time: the engines share one TF.js backend and one GPU context.
+let queue: Promise<unknown> = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<VisionWorkerRequest>) => {
+  const request = event.data;
+  queue = queue.then(async () => {
+    try {
+      const predictions = await handle(request);
+      post({ id: request.id, type: "done", predictions });
+    } catch (error) {
+      post({
+        id: request.id,
+        type: "error",
+        message: error instanceof Error ? error.message : "Vision analysis failed.",
+      });
+    } finally {
+      download = null;
+    }
+  });
+};
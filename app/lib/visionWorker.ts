@@ -0,0 +1,170 @@
+import type { RawPrediction } from "@/lib/detections";
+import type { DetectOptions, VisionInput, VisionProvider } from "@/lib/vision";
+
+export type VisionWorkerRequest =
+  | { id: number; type: "load"; provider: string }
+  | { id: number; type: "detect"; provider: string; image: ImageBitmap; options: DetectOptions }
+  | { id: number; type: "release"; provider: string };
+
+export type VisionWorkerResponse =
+  | { id: number; type: "done"; predictions?: RawPrediction[] }
+  | { id: number; type: "error"; message: string }
+  // Sent while model files download; `fraction` is null until the file list is known.
+  | { type: "progress"; provider: string; loaded: number; fraction: number | null };
+
+export type ModelState = "idle" | "downloading" | "loading" | "ready" | "error";
+
+export type ModelStatus = {
+  state: ModelState;
+  // Bytes fetched over the network in the current download.
+  loaded: number;
+  fraction: number | null;
+  error?: string;
+};
+
+// Photos are shrunk so their long side is at most this before detection. The models work
+// at a few hundred pixels anyway, and full-size phone photos are slow to copy and decode.
+export const MAX_DETECTION_SIZE = 1024;
+
+const IDLE_STATUS: ModelStatus = { state: "idle", loaded: 0, fraction: null };
+
+type PendingCall = {
+  resolve: (predictions: RawPrediction[]) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingCall>();
+const statuses = new Map<string, ModelStatus>();
+const listeners = new Set<() => void>();
+
+const setStatus = (provider: string, status: ModelStatus) => {
+  statuses.set(provider, status);
+  listeners.forEach((listener) => listener());
+};
+
+export const getModelStatus = (provider: string) => statuses.get(provider) ?? IDLE_STATUS;
+
+export const subscribeModelStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const failAll = (message: string) => {
+  pending.forEach((call) => call.reject(new Error(message)));
+  pending.clear();
+};
+
+const getWorker = () => {
+  if (typeof Worker === "undefined") {
+    throw new Error("This browser can't run the detector in the background.");
+  }
+  if (!worker) {
+    worker = new Worker(new URL("./vision.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<VisionWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setStatus(message.provider, {
+          state: "downloading",
+          loaded: message.loaded,
+          fraction: message.fraction,
+        });
+        return;
+      }
+      const call = pending.get(message.id);
+      pending.delete(message.id);
+      if (message.type === "error") call?.reject(new Error(message.message));
+      else call?.resolve(message.predictions ?? []);
+    };
+    // A crashed worker takes its loaded models with it; the next call starts a fresh one.
+    worker.onerror = (event) => {
+      event.preventDefault();
+      worker?.terminate();
+      worker = null;
+      statuses.clear();
+      listeners.forEach((listener) => listener());
+      failAll(event.message || "The detector stopped unexpectedly.");
+    };
+  }
+  return worker;
+};
+
+const call = (request: (id: number) => VisionWorkerRequest, transfer: Transferable[] = []) =>
+  new Promise<RawPrediction[]>((resolve, reject) => {
+    const id = ++nextId;
+    pending.set(id, { resolve, reject });
+    try {
+      getWorker().postMessage(request(id), transfer);
+    } catch (error) {
+      pending.delete(id);
+      reject(error instanceof Error ? error : new Error("The detector could not start."));
+    }
+  });
+
+const inputSize = (input: VisionInput) =>
+  input instanceof HTMLVideoElement
+    ? { width: input.videoWidth, height: input.videoHeight }
+    : input instanceof HTMLImageElement
+      ? { width: input.naturalWidth, height: input.naturalHeight }
+      : { width: input.width, height: input.height };
+
+// Copies the current pixels into a bitmap the worker can own, downscaled if it is large.
+export const toDetectionBitmap = async (input: VisionInput) => {
+  const { width, height } = inputSize(input);
+  const scale = Math.min(1, MAX_DETECTION_SIZE / Math.max(width, height, 1));
+  const bitmap =
+    scale < 1
+      ? await createImageBitmap(input, {
+          resizeWidth: Math.round(width * scale),
+          resizeHeight: Math.round(height * scale),
+          resizeQuality: "medium",
+        })
+      : await createImageBitmap(input);
+  return { bitmap, scale };
+};
+
+// Loads and runs the model in the shared vision worker, keeping the page responsive.
+// Boxes are scaled back to the input's own size, so callers never see the downscale.
+export const createWorkerProvider = (
+  info: Omit<VisionProvider, "load" | "detect" | "release">
+): VisionProvider => {
+  const track = async <T>(work: Promise<T>) => {
+    if (getModelStatus(info.id).state !== "ready") {
+      setStatus(info.id, { ...getModelStatus(info.id), state: "loading" });
+    }
+    try {
+      const result = await work;
+      setStatus(info.id, { state: "ready", loaded: 0, fraction: 1 });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "The model could not be loaded.";
+      setStatus(info.id, { ...IDLE_STATUS, state: "error", error: message });
+      throw error;
+    }
+  };
+
+  return {
+    ...info,
+    load: async () => {
+      await track(call((id) => ({ id, type: "load", provider: info.id })));
+    },
+    detect: async (input, options = {}) => {
+      const { bitmap, scale } = await toDetectionBitmap(input);
+      const predictions = await track(
+        call((id) => ({ id, type: "detect", provider: info.id, image: bitmap, options }), [bitmap])
+      );
+      return predictions.map((prediction) => ({
+        ...prediction,
+        bbox: prediction.bbox.map((value) => value / scale),
+      }));
+    },
+    release: async () => {
+      if (!worker) return;
+      await call((id) => ({ id, type: "release", provider: info.id }));
+      setStatus(info.id, IDLE_STATUS);
+    },
+  };
+};
@@ -0,0 +1,84 @@
+// Keeps the app usable offline. Pages are network-first so a new deploy shows up straight
+// away, hashed build assets are cache-first, and model files come from the "vision-model:"
+// caches the vision worker fills (see lib/modelCache.ts), one cache per model version.
+
+const APP_CACHE = "app-shell-v1";
+const APP_CACHE_PREFIX = "app-shell-";
+const MODEL_CACHE_PREFIX = "vision-model:";
+const MODEL_HOSTS = ["https://storage.googleapis.com/tfjs-models/"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(APP_CACHE)
+      .then((cache) => cache.add("/"))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith(APP_CACHE_PREFIX) && name !== APP_CACHE)
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request)) ?? (request.mode === "navigate" && (await cache.match("/")));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+const fromModelCache = async (request) => {
+  const names = (await caches.keys()).filter((name) => name.startsWith(MODEL_CACHE_PREFIX));
+  for (const name of names) {
+    const cached = await (await caches.open(name)).match(request);
+    if (cached) return cached;
+  }
+  return fetch(request);
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    if (MODEL_HOSTS.some((host) => request.url.startsWith(host))) {
+      event.respondWith(fromModelCache(request));
+    }
+    return;
+  }
+  if (url.pathname.startsWith("/models/")) {
+    event.respondWith(fromModelCache(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});